@@ -3,25 +3,42 @@ import { LoginPage } from './components/LoginPage';
 import { Dashboard } from './components/Dashboard';
 
 export function App() {
-  const [apiKey, setApiKey] = useState<string>('');
   const [userId, setUserId] = useState<string>('');
+  const [isAdmin, setIsAdmin] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
   useEffect(() => {
-    const savedApiKey = localStorage.getItem('ai-usage-api-key');
-    if (savedApiKey) {
-      validateApiKey(savedApiKey);
-    }
+    // Keys used to be kept in the browser; the session cookie replaces them
+    localStorage.removeItem('ai-usage-api-key');
+    restoreSession();
   }, []);
 
-  const validateApiKey = async (key: string) => {
+  const restoreSession = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/session');
+      if (response.ok) {
+        const data = await response.json();
+        setUserId(data.userId);
+        setIsAdmin(Boolean(data.isAdmin));
+        setIsAuthenticated(true);
+      }
+    } catch (err) {
+      console.error('Error restoring session:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const login = async (key: string) => {
     setIsLoading(true);
     setError('');
 
     try {
-      const response = await fetch('/api/auth/test', {
+      const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -34,36 +51,39 @@ export function App() {
       }
 
       const data = await response.json();
-      setApiKey(key);
       setUserId(data.userId);
+      setIsAdmin(Boolean(data.isAdmin));
       setIsAuthenticated(true);
-      localStorage.setItem('ai-usage-api-key', key);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Authentication failed');
       setIsAuthenticated(false);
-      localStorage.removeItem('ai-usage-api-key');
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleLogin = (key: string) => {
-    validateApiKey(key);
+    login(key);
   };
 
-  const handleLogout = () => {
-    setApiKey('');
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Error logging out:', err);
+    }
+
     setUserId('');
+    setIsAdmin(false);
     setIsAuthenticated(false);
     setError('');
-    localStorage.removeItem('ai-usage-api-key');
   };
 
   if (isAuthenticated) {
     return (
       <Dashboard 
-        apiKey={apiKey} 
         userId={userId} 
+        isAdmin={isAdmin}
         onLogout={handleLogout}
       />
     );
@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
 import { UsageProgressBar } from './UsageProgressBar';
+import { UtilizationHistory } from './UtilizationHistory';
 
 interface ClaudeAccount {
   id: string;
@@ -68,24 +69,21 @@ type UnifiedAccount = (ClaudeAccount | OpenAIAccount) & {
   platform: 'claude' | 'openai';
 };
 
-interface AIAccountsProps {
-  apiKey: string;
-}
-
-export function AIAccounts({ apiKey }: AIAccountsProps) {
+export function AIAccounts() {
   const [claudeAccounts, setClaudeAccounts] = useState<ClaudeAccount[]>([]);
   const [openaiAccounts, setOpenaiAccounts] = useState<OpenAIAccount[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshError, setRefreshError] = useState<string>('');
   const [initialError, setInitialError] = useState<string>('');
+  const [expandedAccountId, setExpandedAccountId] = useState<string | null>(null);
   const hasLoadedDataRef = useRef(false);
 
   useEffect(() => {
     fetchAccounts('initial');
     const interval = setInterval(() => fetchAccounts('auto'), 30000);
     return () => clearInterval(interval);
-  }, [apiKey]);
+  }, []);
 
   const fetchAccounts = async (type: 'initial' | 'manual' | 'auto' = 'auto') => {
     if (type === 'manual') {
@@ -94,11 +92,7 @@ export function AIAccounts({ apiKey }: AIAccountsProps) {
     }
 
     try {
-      const response = await fetch('/api/ai-accounts', {
-        headers: {
-          'X-API-Key': apiKey,
-        },
-      });
+      const response = await fetch('/api/ai-accounts');
 
       if (!response.ok) {
         throw new Error('Failed to fetch AI accounts');
@@ -268,102 +262,118 @@ export function AIAccounts({ apiKey }: AIAccountsProps) {
                 const isClaudeAccount = account.platform === 'claude';
                 const claudeAcc = isClaudeAccount ? (account as ClaudeAccount) : null;
                 const openaiAcc = !isClaudeAccount ? (account as OpenAIAccount) : null;
+                const isExpanded = expandedAccountId === account.id;
 
                 return (
-                  <tr key={account.id} className="hover:bg-muted/50 transition-colors">
-                    <td className="px-6 py-3 whitespace-nowrap">
-                      <div className="text-sm font-medium text-card-foreground">
-                        {getAccountName(account, platformCount)}
-                      </div>
-                    </td>
-                    <td className="px-3 py-3 whitespace-nowrap">
-                      <div className="flex items-center gap-2">
-                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(account.status)}`}>
-                          {account.status}
-                        </span>
-                        {account.schedulable === false && (
-                          <span className="relative inline-flex items-center group">
-                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-destructive/15 text-destructive cursor-pointer">
-                              Not schedulable
-                              <svg
-                                className="ml-1 h-3 w-3"
-                                viewBox="0 0 24 24"
-                                fill="none"
-                                stroke="currentColor"
-                                strokeWidth="2"
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                aria-hidden="true"
-                              >
-                                <circle cx="12" cy="12" r="9" />
-                                <path d="M12 8h.01M11 12h1v4h1" />
-                              </svg>
-                            </span>
-                            <span className="pointer-events-none absolute left-1/2 top-full z-10 mt-2 w-max -translate-x-1/2 whitespace-nowrap rounded-md border border-border bg-popover px-2 py-1 text-xs text-popover-foreground shadow-sm opacity-0 transition-opacity duration-150 group-hover:opacity-100">
-                              {account.stoppedReason || 'Not schedulable'}
-                            </span>
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                    <td className="px-3 py-3 min-w-[120px]">
-                      {account.usage?.daily && (isClaudeAccount || account.usage.daily.requests > 0) ? (
-                        <div className="text-xs">
-                          <div className="text-muted-foreground">{account.usage.daily.requests} reqs</div>
-                          <div className="text-muted-foreground">${account.usage.daily.cost.toFixed(2)} cost</div>
+                  <Fragment key={account.id}>
+                    <tr className="hover:bg-muted/50 transition-colors">
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <div className="text-sm font-medium text-card-foreground">
+                          {getAccountName(account, platformCount)}
                         </div>
-                      ) : (
-                        <span className="text-muted-foreground text-xs">{isClaudeAccount ? 'No data' : 'No usage today'}</span>
-                      )}
-                    </td>
-                    <td className="px-3 py-3 min-w-[300px]">
-                      {claudeAcc?.claudeUsage ? (
-                        <div className="space-y-1.5 min-w-[180px]">
-                          {claudeAcc.claudeUsage.fiveHour && (
-                            <UsageProgressBar
-                              label="5h Window"
-                              percentage={claudeAcc.claudeUsage.fiveHour.utilization}
-                              resetAt={claudeAcc.claudeUsage.fiveHour.resetsAt}
-                            />
-                          )}
-                          {claudeAcc.claudeUsage.sevenDay && (
-                            <UsageProgressBar
-                              label="7d Window"
-                              percentage={claudeAcc.claudeUsage.sevenDay.utilization}
-                              resetAt={claudeAcc.claudeUsage.sevenDay.resetsAt}
-                            />
-                          )}
-                          {claudeAcc.claudeUsage.sevenDayOpus && (
-                            <UsageProgressBar
-                              label="Opus Window"
-                              percentage={claudeAcc.claudeUsage.sevenDayOpus.utilization}
-                              resetAt={claudeAcc.claudeUsage.sevenDayOpus.resetsAt}
-                            />
-                          )}
-                        </div>
-                      ) : openaiAcc?.codexUsage ? (
-                        <div className="space-y-1.5 min-w-[180px]">
-                          {openaiAcc.codexUsage.primary && (
-                            <UsageProgressBar
-                              label="5h Window"
-                              percentage={openaiAcc.codexUsage.primary.usedPercent}
-                              resetAt={openaiAcc.codexUsage.primary.resetAt}
-                            />
-                          )}
-                          {openaiAcc.codexUsage.secondary && (
-                            <UsageProgressBar
-                              label="7d Window"
-                              percentage={openaiAcc.codexUsage.secondary.usedPercent}
-                              resetAt={openaiAcc.codexUsage.secondary.resetAt}
-                            />
+                        <button
+                          onClick={() => setExpandedAccountId(isExpanded ? null : account.id)}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          {isExpanded ? 'Hide history' : 'Utilization history'}
+                        </button>
+                      </td>
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(account.status)}`}>
+                            {account.status}
+                          </span>
+                          {account.schedulable === false && (
+                            <span className="relative inline-flex items-center group">
+                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-destructive/15 text-destructive cursor-pointer">
+                                Not schedulable
+                                <svg
+                                  className="ml-1 h-3 w-3"
+                                  viewBox="0 0 24 24"
+                                  fill="none"
+                                  stroke="currentColor"
+                                  strokeWidth="2"
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  aria-hidden="true"
+                                >
+                                  <circle cx="12" cy="12" r="9" />
+                                  <path d="M12 8h.01M11 12h1v4h1" />
+                                </svg>
+                              </span>
+                              <span className="pointer-events-none absolute left-1/2 top-full z-10 mt-2 w-max -translate-x-1/2 whitespace-nowrap rounded-md border border-border bg-popover px-2 py-1 text-xs text-popover-foreground shadow-sm opacity-0 transition-opacity duration-150 group-hover:opacity-100">
+                                {account.stoppedReason || 'Not schedulable'}
+                              </span>
+                            </span>
                           )}
                         </div>
-                      ) : (
-                        <span className="text-muted-foreground text-xs">No data</span>
-                      )}
-                    </td>
-                    <td className="px-3 py-3 text-muted-foreground text-xs text-left min-w-[110px]">{formatLastUsed(account.lastUsedAt)}</td>
-                  </tr>
+                      </td>
+                      <td className="px-3 py-3 min-w-[120px]">
+                        {account.usage?.daily && (isClaudeAccount || account.usage.daily.requests > 0) ? (
+                          <div className="text-xs">
+                            <div className="text-muted-foreground">{account.usage.daily.requests} reqs</div>
+                            <div className="text-muted-foreground">${account.usage.daily.cost.toFixed(2)} cost</div>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground text-xs">{isClaudeAccount ? 'No data' : 'No usage today'}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 min-w-[300px]">
+                        {claudeAcc?.claudeUsage ? (
+                          <div className="space-y-1.5 min-w-[180px]">
+                            {claudeAcc.claudeUsage.fiveHour && (
+                              <UsageProgressBar
+                                label="5h Window"
+                                percentage={claudeAcc.claudeUsage.fiveHour.utilization}
+                                resetAt={claudeAcc.claudeUsage.fiveHour.resetsAt}
+                              />
+                            )}
+                            {claudeAcc.claudeUsage.sevenDay && (
+                              <UsageProgressBar
+                                label="7d Window"
+                                percentage={claudeAcc.claudeUsage.sevenDay.utilization}
+                                resetAt={claudeAcc.claudeUsage.sevenDay.resetsAt}
+                              />
+                            )}
+                            {claudeAcc.claudeUsage.sevenDayOpus && (
+                              <UsageProgressBar
+                                label="Opus Window"
+                                percentage={claudeAcc.claudeUsage.sevenDayOpus.utilization}
+                                resetAt={claudeAcc.claudeUsage.sevenDayOpus.resetsAt}
+                              />
+                            )}
+                          </div>
+                        ) : openaiAcc?.codexUsage ? (
+                          <div className="space-y-1.5 min-w-[180px]">
+                            {openaiAcc.codexUsage.primary && (
+                              <UsageProgressBar
+                                label="5h Window"
+                                percentage={openaiAcc.codexUsage.primary.usedPercent}
+                                resetAt={openaiAcc.codexUsage.primary.resetAt}
+                              />
+                            )}
+                            {openaiAcc.codexUsage.secondary && (
+                              <UsageProgressBar
+                                label="7d Window"
+                                percentage={openaiAcc.codexUsage.secondary.usedPercent}
+                                resetAt={openaiAcc.codexUsage.secondary.resetAt}
+                              />
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground text-xs">No data</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-3 text-muted-foreground text-xs text-left min-w-[110px]">{formatLastUsed(account.lastUsedAt)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-muted/20">
+                          <UtilizationHistory accountId={account.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 );
               })}
             </tbody>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+
+interface AccountAlert {
+  id: number;
+  rule: string;
+  condition: string | null;
+  accountId: string;
+  platform: string;
+  name: string;
+  detail: string;
+  since: string;
+  firedAt: string;
+  resolvedAt: string | null;
+}
+
+interface AccountAlertsResponse {
+  active: AccountAlert[];
+  resolved: AccountAlert[];
+}
+
+export function AccountAlertBanner() {
+  const [alerts, setAlerts] = useState<AccountAlertsResponse>({ active: [], resolved: [] });
+  // Dismissed recovery notices, for this page load only
+  const [dismissed, setDismissed] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchAlerts = async () => {
+    try {
+      const response = await fetch('/api/ai-accounts/alerts');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch account alerts');
+      }
+
+      setAlerts(await response.json());
+    } catch (err) {
+      // Banners are best effort; the accounts panel reports connection problems
+      console.error('Error fetching account alerts:', err);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getAccountLabel = (alert: AccountAlert) => {
+    return `${alert.platform === 'openai' ? 'OpenAI' : 'Claude'} (${alert.name})`;
+  };
+
+  const resolved = alerts.resolved.filter(alert => !dismissed.has(alert.id));
+
+  if (alerts.active.length === 0 && resolved.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-6">
+      {alerts.active.map(alert => (
+        <div key={alert.id} className="rounded-lg border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm">
+          <div className="font-medium text-destructive">
+            {getAccountLabel(alert)}: {alert.detail}
+          </div>
+          <div className="text-xs text-muted-foreground mt-0.5">
+            Rule "{alert.rule}"{alert.condition && ` (${alert.condition})`} · since {formatDate(alert.since)}
+          </div>
+        </div>
+      ))}
+      {resolved.map(alert => (
+        <div key={alert.id} className="flex items-start justify-between rounded-lg border border-border bg-muted/50 px-4 py-3 text-sm">
+          <div>
+            <div className="font-medium text-card-foreground">
+              {getAccountLabel(alert)} recovered: {alert.detail}
+            </div>
+            <div className="text-xs text-muted-foreground mt-0.5">
+              Rule "{alert.rule}" · {formatDate(alert.since)} – {formatDate(alert.resolvedAt!)}
+            </div>
+          </div>
+          <button
+            onClick={() => setDismissed(new Set(dismissed).add(alert.id))}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
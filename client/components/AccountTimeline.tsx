@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react';
+
+interface TimelineSegment {
+  status: string;
+  schedulable: boolean | null;
+  stoppedReason: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  healthy: boolean;
+}
+
+interface AccountTimelineEntry {
+  accountId: string;
+  platform: string;
+  name: string;
+  current: TimelineSegment | null;
+  segments: TimelineSegment[];
+  downtimeMs: Record<string, number>;
+  observedMs: number;
+  availability: number | null;
+}
+
+interface AccountHistoryResponse {
+  from: string;
+  to: string;
+  days: number;
+  accounts: AccountTimelineEntry[];
+}
+
+const RANGES = [1, 7, 30] as const;
+
+export function AccountTimeline() {
+  const [days, setDays] = useState<number>(7);
+  const [history, setHistory] = useState<AccountHistoryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetchHistory();
+    const interval = setInterval(fetchHistory, 60000);
+    return () => clearInterval(interval);
+  }, [days]);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch(`/api/ai-accounts/history?days=${days}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch account history');
+      }
+
+      setHistory(await response.json());
+      setError('');
+    } catch (err) {
+      console.error('Error fetching account history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load account history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDuration = (ms: number) => {
+    const minutes = Math.max(1, Math.round(ms / 60000));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  };
+
+  const describe = (segment: TimelineSegment) => {
+    if (segment.status === 'active' && segment.schedulable === false) return 'not schedulable';
+    return segment.schedulable === false ? `${segment.status} (not schedulable)` : segment.status;
+  };
+
+  // Same palette as the status badges in AIAccounts
+  const getSegmentColor = (segment: TimelineSegment) => {
+    if (segment.healthy) return 'bg-chart-1';
+    switch (segment.status) {
+      case 'active':
+        return 'bg-chart-4';
+      case 'blocked':
+        return 'bg-chart-2';
+      case 'unauthorized':
+        return 'bg-chart-3';
+      case 'temp_error':
+        return 'bg-chart-4';
+      default:
+        return 'bg-chart-5';
+    }
+  };
+
+  const incidents = (history?.accounts ?? [])
+    .flatMap(account => account.segments
+      .filter(segment => !segment.healthy)
+      .map(segment => ({ account, segment })))
+    .sort((a, b) => b.segment.startedAt.localeCompare(a.segment.startedAt));
+
+  const windowStart = history ? Date.parse(history.from) : 0;
+  const windowMs = history ? Date.parse(history.to) - windowStart : 1;
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden mb-6">
+      <div className="px-6 py-4 border-b border-border">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-card-foreground">Account Availability</h3>
+          <div className="flex items-center gap-1">
+            {RANGES.map(range => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  days === range
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+                }`}
+              >
+                {range === 1 ? '24h' : `${range}d`}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading history...</div>
+      ) : error && !history ? (
+        <div className="text-center py-8">
+          <p className="text-destructive">{error}</p>
+          <button onClick={fetchHistory} className="mt-3 text-sm text-primary hover:underline">
+            Retry
+          </button>
+        </div>
+      ) : !history || history.accounts.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No account history recorded yet
+        </div>
+      ) : (
+        <div className="px-6 py-4 space-y-4">
+          {history.accounts.map(account => (
+            <div key={account.accountId}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-card-foreground">
+                  {account.platform === 'openai' ? 'OpenAI' : 'Claude'} ({account.name})
+                  {!account.current && <span className="ml-2 text-xs text-muted-foreground">no longer reported</span>}
+                </span>
+                <span className="text-muted-foreground">
+                  {account.availability === null ? '-' : `${(account.availability * 100).toFixed(2)}% available`}
+                </span>
+              </div>
+              <div className="relative h-4 rounded bg-muted overflow-hidden">
+                {account.segments.map(segment => {
+                  const start = Date.parse(segment.startedAt);
+                  const end = segment.endedAt ? Date.parse(segment.endedAt) : Date.parse(history.to);
+                  return (
+                    <div
+                      key={segment.startedAt}
+                      className={`absolute top-0 h-full ${getSegmentColor(segment)}`}
+                      style={{
+                        left: `${((start - windowStart) / windowMs) * 100}%`,
+                        // Keep short outages visible
+                        width: `max(2px, ${((end - start) / windowMs) * 100}%)`,
+                      }}
+                      title={`${describe(segment)}: ${formatDate(segment.startedAt)} – ${segment.endedAt ? formatDate(segment.endedAt) : 'now'} (${formatDuration(segment.durationMs)})${segment.stoppedReason ? `\n${segment.stoppedReason}` : ''}`}
+                    />
+                  );
+                })}
+              </div>
+              {Object.keys(account.downtimeMs).length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-3 text-xs text-muted-foreground">
+                  {Object.entries(account.downtimeMs).map(([status, ms]) => (
+                    <span key={status}>
+                      {status === 'unschedulable' ? 'not schedulable' : status}: {formatDuration(ms)}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{formatDate(history.from)}</span>
+            <span>now</span>
+          </div>
+
+          {incidents.length > 0 && (
+            <div className="pt-2 border-t border-border">
+              <h4 className="text-sm font-medium text-card-foreground mb-2">Incidents</h4>
+              <ul className="divide-y divide-border text-sm">
+                {incidents.slice(0, 20).map(({ account, segment }) => (
+                  <li key={`${account.accountId}-${segment.startedAt}`} className="py-2 flex items-start justify-between gap-4">
+                    <div>
+                      <span className="font-medium text-card-foreground">{account.name}</span>
+                      <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white ${getSegmentColor(segment)}`}>
+                        {describe(segment)}
+                      </span>
+                      {segment.stoppedReason && (
+                        <div className="text-xs text-muted-foreground mt-1">{segment.stoppedReason}</div>
+                      )}
+                    </div>
+                    <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                      <div>{formatDate(segment.startedAt)} – {segment.endedAt ? formatDate(segment.endedAt) : 'ongoing'}</div>
+                      <div>{formatDuration(segment.durationMs)}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
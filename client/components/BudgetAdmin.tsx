@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+
+interface Budget {
+  id: number;
+  scope: 'global' | 'user' | 'group';
+  keyId: string | null;
+  tag: string | null;
+  name: string | null;
+  amount: number;
+  updatedAt: string;
+}
+
+interface KeyOption {
+  id: string;
+  name: string;
+  tags: string[];
+}
+
+const GLOBAL_OPTION = '__global__';
+const GROUP_OPTION_PREFIX = '__group__:';
+
+export function BudgetAdmin() {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [thresholds, setThresholds] = useState<number[]>([]);
+  const [keys, setKeys] = useState<KeyOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [target, setTarget] = useState(GLOBAL_OPTION);
+  const [amount, setAmount] = useState('');
+
+  useEffect(() => {
+    fetchBudgets();
+    fetchKeys();
+  }, []);
+
+  const fetchBudgets = async () => {
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/budgets');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch budgets: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setBudgets(data.budgets || []);
+      setThresholds(data.thresholds || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/admin/keys');
+
+      if (response.ok) {
+        const data = await response.json();
+        setKeys(data.keys || []);
+      }
+    } catch (err) {
+      console.error('Failed to load API keys:', err);
+    }
+  };
+
+  const saveBudget = async () => {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter a positive budget amount');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/budgets', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          target.startsWith(GROUP_OPTION_PREFIX)
+            ? { tag: target.slice(GROUP_OPTION_PREFIX.length), amount: value }
+            : { keyId: target === GLOBAL_OPTION ? null : target, amount: value }
+        ),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to save budget: ${response.status}`);
+      }
+
+      setAmount('');
+      await fetchBudgets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteBudget = async (budget: Budget) => {
+    if (!confirm(`Remove the budget for ${budget.scope === 'global' ? 'the team' : budget.name || budget.tag}?`)) return;
+
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/budgets/${budget.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete budget: ${response.status}`);
+      }
+
+      await fetchBudgets();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  };
+
+  // Tags like `team:infra` that can carry a group budget
+  const groupTags = Array.from(new Set(keys.flatMap(key => key.tags ?? []).filter(tag => /^[^:]+:.+$/.test(tag)))).sort();
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border">
+        <h3 className="text-lg font-medium text-card-foreground">Budgets</h3>
+        <p className="text-sm text-muted-foreground">
+          Per-period spending limits. Alerts fire at {thresholds.length > 0 ? thresholds.map(t => `${t}%`).join(', ') : 'no thresholds'}.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 border-b border-border">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            disabled={isSaving}
+          >
+            <option value={GLOBAL_OPTION}>Team (all users)</option>
+            {groupTags.length > 0 && (
+              <optgroup label="Groups">
+                {groupTags.map((tag) => (
+                  <option key={tag} value={`${GROUP_OPTION_PREFIX}${tag}`}>{tag}</option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="Keys">
+              {keys.map((key) => (
+                <option key={key.id} value={key.id}>{key.name}</option>
+              ))}
+            </optgroup>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount per period (USD)"
+            className="flex-1 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            disabled={isSaving}
+          />
+          <button
+            onClick={saveBudget}
+            disabled={isSaving || !amount}
+            className="bg-primary text-primary-foreground px-4 py-2 rounded-md text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Set Budget'}
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Loading budgets...</div>
+      ) : budgets.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">No budgets set</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted/50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Applies To</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Amount</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Updated</th>
+                <th scope="col" className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-card divide-y divide-border">
+              {budgets.map((budget) => (
+                <tr key={budget.id} className="hover:bg-muted/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">
+                    {budget.scope === 'global' ? 'Team (all users)' : budget.scope === 'group' ? `Group ${budget.tag}` : budget.name || budget.keyId}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-primary">{formatCurrency(budget.amount)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(budget.updatedAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => deleteBudget(budget)}
+                      className="text-sm text-destructive hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
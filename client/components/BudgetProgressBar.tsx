@@ -0,0 +1,40 @@
+// React is used in JSX, TypeScript just doesn't detect it
+
+interface BudgetProgressBarProps {
+  spent: number;
+  amount: number;
+  label?: string;
+}
+
+export function BudgetProgressBar({ spent, amount, label }: BudgetProgressBarProps) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  const percentage = amount > 0 ? (spent / amount) * 100 : 0;
+  const barColor = percentage >= 100 ? 'bg-destructive' : percentage >= 80 ? 'bg-chart-1' : 'bg-primary';
+
+  return (
+    <div className="min-w-[140px]">
+      <div className="text-xs text-muted-foreground mb-1">
+        {label && `${label} · `}{formatCurrency(spent)} / {formatCurrency(amount)}
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${barColor}`}
+            style={{ width: `${Math.min(100, percentage)}%` }}
+          ></div>
+        </div>
+        <span className={`text-xs min-w-[36px] text-right ${percentage >= 100 ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {percentage.toFixed(0)}%
+        </span>
+      </div>
+    </div>
+  );
+}
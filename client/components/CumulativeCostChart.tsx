@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+
+interface TimeSeriesPoint {
+  bucket: string;
+  cost: number;
+  tokens: number;
+  cumulativeCost: number;
+  cumulativeTokens: number;
+}
+
+interface UserTimeSeries {
+  id: string;
+  name: string;
+  isMe: boolean;
+  points: TimeSeriesPoint[];
+}
+
+interface PeriodTimeSeries {
+  granularity: 'day' | 'hour';
+  buckets: string[];
+  series: UserTimeSeries[];
+}
+
+interface CumulativeCostChartProps {
+  periodId: string;
+  title: string;
+  onlyMe?: boolean;
+  maxSeries?: number;
+  embedded?: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+const COLORS = ['var(--color-chart-2)', 'var(--color-chart-4)', 'var(--color-chart-5)', 'var(--color-muted-foreground)', 'var(--color-chart-3)'];
+
+export function CumulativeCostChart({ periodId, title, onlyMe = false, maxSeries = 6, embedded = false }: CumulativeCostChartProps) {
+  const [granularity, setGranularity] = useState<'day' | 'hour'>('day');
+  const [data, setData] = useState<PeriodTimeSeries | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetchTimeSeries();
+  }, [periodId, granularity]);
+
+  const fetchTimeSeries = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/periods/${periodId}/timeseries?granularity=${granularity}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch usage history: ${response.status}`);
+      }
+
+      setData(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const series = (data?.series ?? [])
+    .filter(s => !onlyMe || s.isMe)
+    .filter((s, i) => s.isMe || i < maxSeries);
+  const buckets = data?.buckets ?? [];
+  const maxCost = Math.max(0, ...series.flatMap(s => s.points.map(p => p.cumulativeCost)));
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (buckets.length > 1 ? (i / (buckets.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (cost: number) => PADDING.top + plotHeight - (maxCost > 0 ? (cost / maxCost) * plotHeight : 0);
+  const xLabels = buckets.length > 2 ? [0, Math.floor((buckets.length - 1) / 2), buckets.length - 1] : buckets.map((_, i) => i);
+
+  return (
+    <div className={embedded ? 'mb-6' : 'bg-card p-6 rounded-lg shadow-sm border border-border'}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className={embedded ? 'text-sm font-medium text-card-foreground' : 'text-lg font-medium text-card-foreground'}>{title}</h3>
+        <div className="flex gap-1">
+          {(['day', 'hour'] as const).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGranularity(g)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                granularity === g ? 'bg-primary text-primary-foreground' : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+              }`}
+            >
+              {g === 'day' ? 'Daily' : 'Hourly'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-[220px] bg-muted rounded animate-pulse"></div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : series.length === 0 || buckets.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No usage samples recorded for this period yet.</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {[0, 0.5, 1].map((ratio) => (
+              <g key={ratio}>
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={y(maxCost * ratio)}
+                  y2={y(maxCost * ratio)}
+                  stroke="var(--color-border)"
+                  strokeDasharray="4 4"
+                />
+                <text x={PADDING.left - 6} y={y(maxCost * ratio) + 4} textAnchor="end" fontSize="10" fill="var(--color-muted-foreground)">
+                  {formatCurrency(maxCost * ratio)}
+                </text>
+              </g>
+            ))}
+            {xLabels.map((i) => (
+              <text key={i} x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="var(--color-muted-foreground)">
+                {buckets[i]}
+              </text>
+            ))}
+            {series.map((s, index) => (
+              <polyline
+                key={s.isMe ? 'me' : `${s.name}-${index}`}
+                fill="none"
+                stroke={s.isMe ? 'var(--color-primary)' : COLORS[index % COLORS.length]}
+                strokeWidth={s.isMe ? 3 : 1.5}
+                points={s.points.map((p, i) => `${x(i)},${y(p.cumulativeCost)}`).join(' ')}
+              >
+                <title>{`${s.name}: ${formatCurrency(s.points[s.points.length - 1]?.cumulativeCost ?? 0)}`}</title>
+              </polyline>
+            ))}
+          </svg>
+
+          {!onlyMe && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+              {series.map((s, index) => (
+                <span key={s.isMe ? 'me' : `${s.name}-${index}`} className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span
+                    className="inline-block h-2 w-4 rounded-full"
+                    style={{ backgroundColor: s.isMe ? 'var(--color-primary)' : COLORS[index % COLORS.length] }}
+                  ></span>
+                  {s.name}{s.isMe && ' (You)'}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
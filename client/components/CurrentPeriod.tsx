@@ -1,15 +1,48 @@
 import { useState, useEffect } from 'react';
 import { RankingTable } from './RankingTable';
+import { GroupRankingTable } from './GroupRankingTable';
 import { UserDetailCard } from './UserDetailCard';
+import { ExportButtons } from './ExportButtons';
+import { PlatformBreakdown, type PlatformTotal } from './PlatformBreakdown';
+import { ReconciliationNotes, type ReconciliationEntry } from './ReconciliationNotes';
+import { CumulativeCostChart } from './CumulativeCostChart';
+import { BudgetProgressBar } from './BudgetProgressBar';
 
 interface Period {
   index: number;
+  id: string;
+  slug: string | null;
+  label: string | null;
+  note: string | null;
   startSnapshotId: number | null;
+  endSnapshotId: number | null;
   startAt: string | null;
   endAt: string | null;
   isCurrent: boolean;
 }
 
+interface CostProjection {
+  current: number;
+  projected: number;
+  low: number;
+  high: number;
+  ratePerDay: number;
+}
+
+interface PeriodForecast {
+  expectedEndAt: string;
+  basis: 'schedule' | 'history' | 'default';
+  schedule: string | null;
+  remainingDays: number;
+  total: CostProjection;
+  me: CostProjection | null;
+}
+
+interface BudgetStatus {
+  amount: number;
+  spent: number;
+}
+
 interface PeriodSummary {
   period: {
     index: number;
@@ -21,6 +54,7 @@ interface PeriodSummary {
     totalCost: number;
     userCount: number;
   };
+  platforms: PlatformTotal[];
   ranking: Array<{
     id: string;
     name: string;
@@ -31,16 +65,23 @@ interface PeriodSummary {
     rawEnd: any;
     periodTokens: number;
     periodRequests: number;
+    forecast?: CostProjection;
+    budget: BudgetStatus | null;
   }>;
+  forecast: PeriodForecast | null;
+  budget: BudgetStatus | null;
+  reconciliation?: ReconciliationEntry[];
+  incomplete?: {
+    failedKeys: string[];
+  };
 }
 
 interface CurrentPeriodProps {
   period: Period;
-  apiKey: string;
   userId: string;
 }
 
-export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
+export function CurrentPeriod({ period, userId }: CurrentPeriodProps) {
   const [summary, setSummary] = useState<PeriodSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -48,7 +89,7 @@ export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
 
   useEffect(() => {
     fetchSummary();
-  }, [period.index]);
+  }, [period.id]);
 
   const fetchSummary = async (isRefresh = false) => {
     if (isRefresh) {
@@ -59,11 +100,7 @@ export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
     setError('');
 
     try {
-      const response = await fetch(`/api/periods/${period.index}/summary`, {
-        headers: {
-          'X-API-Key': apiKey,
-        },
-      });
+      const response = await fetch(`/api/periods/${period.id}/summary`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch period summary: ${response.status}`);
@@ -208,25 +245,38 @@ export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
       <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-card-foreground">
-            Current Period: {formatDate(summary.period.startAt)} → Now
+            {period.label ? `${period.label}: ` : 'Current Period: '}{formatDate(summary.period.startAt)} → Now
           </h2>
-          <button
-            onClick={() => fetchSummary(true)}
-            disabled={isRefreshing}
-            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <svg 
-              className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} 
-              fill="none" 
-              viewBox="0 0 24 24" 
-              stroke="currentColor"
+          <div className="flex items-center gap-3">
+            <ExportButtons periodId={period.id} />
+            <button
+              onClick={() => fetchSummary(true)}
+              disabled={isRefreshing}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-            {isRefreshing ? 'Refreshing...' : 'Refresh'}
-          </button>
+              <svg 
+                className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} 
+                fill="none" 
+                viewBox="0 0 24 24" 
+                stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              {isRefreshing ? 'Refreshing...' : 'Refresh'}
+            </button>
+          </div>
         </div>
-        
+
+        {period.note && (
+          <p className="mb-4 text-sm text-muted-foreground">{period.note}</p>
+        )}
+
+        {summary.incomplete && (
+          <div className="mb-4 px-4 py-3 rounded-md border border-destructive/50 bg-destructive/10 text-sm text-destructive">
+            Usage could not be loaded for {summary.incomplete.failedKeys.join(', ')}. Totals leave them out; refresh to try again.
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="text-center">
             <div className="text-2xl font-bold text-primary">{formatCurrency(summary.totals.totalCost)}</div>
@@ -245,6 +295,42 @@ export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
             </div>
           </div>
         </div>
+
+        <PlatformBreakdown platforms={summary.platforms} />
+
+        {summary.budget && (
+          <div className="mt-6">
+            <BudgetProgressBar spent={summary.budget.spent} amount={summary.budget.amount} label="Team Budget" />
+          </div>
+        )}
+
+        {summary.forecast && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-6 border-t border-border">
+            <div className="text-center">
+              <div className="text-xl font-semibold">{formatCurrency(summary.forecast.total.projected)}</div>
+              <div className="text-sm text-muted-foreground">
+                Projected Total ({formatCurrency(summary.forecast.total.low)} – {formatCurrency(summary.forecast.total.high)})
+              </div>
+            </div>
+            <div className="text-center">
+              <div className="text-xl font-semibold">
+                {summary.forecast.me ? formatCurrency(summary.forecast.me.projected) : '$0.00'}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {summary.forecast.me
+                  ? `Your Projected Cost (${formatCurrency(summary.forecast.me.low)} – ${formatCurrency(summary.forecast.me.high)})`
+                  : 'Your Projected Cost'}
+              </div>
+            </div>
+            <p className="md:col-span-2 text-xs text-muted-foreground text-center">
+              Projected to {formatDate(summary.forecast.expectedEndAt)}
+              {summary.forecast.basis === 'schedule' && summary.forecast.schedule && ` (next "${summary.forecast.schedule}" snapshot)`}
+              {summary.forecast.basis === 'history' && ' (average length of past periods)'}
+              {summary.forecast.basis === 'default' && ' (assuming a 30 day period)'}
+              {' '}from the recent burn rate; the range reflects day-to-day variation.
+            </p>
+          </div>
+        )}
       </div>
 
       {/* Ranking Table */}
@@ -253,10 +339,20 @@ export function CurrentPeriod({ period, apiKey, userId }: CurrentPeriodProps) {
         title="User Ranking"
       />
 
+      {/* Group Ranking */}
+      <GroupRankingTable periodId={period.id} />
+
+      <ReconciliationNotes entries={summary.reconciliation ?? []} />
+
+      {/* Cumulative Cost Chart */}
+      <CumulativeCostChart
+        periodId={period.id}
+        title="Cumulative Cost"
+      />
+
       {/* User Detail Card */}
       <UserDetailCard 
-        periodIndex={period.index}
-        apiKey={apiKey}
+        periodId={period.id}
         userId={userId}
       />
     </div>
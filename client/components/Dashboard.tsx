@@ -2,41 +2,102 @@ import { useState, useEffect } from 'react';
 import { CurrentPeriod } from './CurrentPeriod';
 import { HistoricalPeriods } from './HistoricalPeriods';
 import { AIAccounts } from './AIAccounts';
+import { AccountTimeline } from './AccountTimeline';
+import { AccountAlertBanner } from './AccountAlertBanner';
+import { SnapshotAdmin } from './SnapshotAdmin';
+import { BudgetAdmin } from './BudgetAdmin';
+import { PeopleAdmin } from './PeopleAdmin';
+import { WebhookAdmin } from './WebhookAdmin';
+import { SessionAdmin } from './SessionAdmin';
+import { OutstandingBalance } from './OutstandingBalance';
 
 interface DashboardProps {
-  apiKey: string;
   userId: string;
+  isAdmin: boolean;
   onLogout: () => void;
 }
 
 interface Period {
   index: number;
+  id: string;
+  slug: string | null;
+  label: string | null;
+  note: string | null;
   startSnapshotId: number | null;
+  endSnapshotId: number | null;
   startAt: string | null;
   endAt: string | null;
   isCurrent: boolean;
 }
 
-export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
-  const [activeTab, setActiveTab] = useState<'current' | 'historical'>('current');
+const PERIOD_HASH_PREFIX = '#/periods/';
+
+// Period reference in a `#/periods/<id or slug>` link, if the page was opened with one
+function readPeriodHash(): string | null {
+  const hash = window.location.hash;
+  return hash.startsWith(PERIOD_HASH_PREFIX) ? decodeURIComponent(hash.slice(PERIOD_HASH_PREFIX.length)) || null : null;
+}
+
+// Matches the server's lookup: ID, slug or `current`, then the period sharing the
+// start snapshot of an ID whose end snapshot has since changed
+function findPeriod(periods: Period[], ref: string): Period | undefined {
+  if (ref === 'current') return periods.find(p => p.isCurrent);
+
+  const startId = ref.match(/^(\d+)-(\d+|current)$/)?.[1];
+  return periods.find(p => p.id === ref)
+    ?? periods.find(p => p.slug === ref)
+    ?? (startId !== undefined ? periods.find(p => p.id.split('-')[0] === startId) : undefined);
+}
+
+export function Dashboard({ userId, isAdmin, onLogout }: DashboardProps) {
+  const [activeTab, setActiveTab] = useState<'current' | 'historical' | 'admin'>('current');
   const [periods, setPeriods] = useState<Period[]>([]);
+  const [periodRef, setPeriodRef] = useState<string | null>(readPeriodHash);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
 
   useEffect(() => {
     fetchPeriods();
+
+    const onHashChange = () => setPeriodRef(readPeriodHash());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
   }, []);
 
-  const fetchPeriods = async () => {
-    setIsLoading(true);
+  const linkedPeriod = periodRef ? findPeriod(periods, periodRef) : undefined;
+
+  useEffect(() => {
+    if (linkedPeriod) {
+      setActiveTab(linkedPeriod.isCurrent ? 'current' : 'historical');
+    }
+  }, [linkedPeriod?.id]);
+
+  const linkToPeriod = (period: Period) => {
+    window.location.hash = `${PERIOD_HASH_PREFIX}${encodeURIComponent(period.isCurrent ? 'current' : period.slug ?? period.id)}`;
+  };
+
+  const selectTab = (tab: 'current' | 'historical' | 'admin') => {
+    setActiveTab(tab);
+    // Don't leave a link to a closed period in the address bar while showing the current one
+    if (tab === 'current' && periodRef) {
+      window.location.hash = `${PERIOD_HASH_PREFIX}current`;
+    }
+  };
+
+  const fetchPeriods = async (showLoading = true) => {
+    if (showLoading) {
+      setIsLoading(true);
+    }
     setError('');
 
     try {
-      const response = await fetch('/api/periods', {
-        headers: {
-          'X-API-Key': apiKey,
-        },
-      });
+      const response = await fetch('/api/periods');
+
+      // The session expired or was revoked
+      if (response.status === 401) {
+        onLogout();
+        return;
+      }
 
       if (!response.ok) {
         throw new Error(`Failed to fetch periods: ${response.status}`);
@@ -79,7 +140,7 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
             <h3 className="text-lg font-medium text-card-foreground mb-2">Error Loading Dashboard</h3>
             <p className="text-muted-foreground mb-4">{error}</p>
             <button
-              onClick={fetchPeriods}
+              onClick={() => fetchPeriods()}
               className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90 transition-colors"
             >
               Try Again
@@ -111,13 +172,19 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
       </nav>
 
       <div className="container mx-auto px-4 lg:px-8 max-w-6xl py-8">
-        <AIAccounts apiKey={apiKey} />
+        <AccountAlertBanner />
+
+        <AIAccounts />
+
+        <AccountTimeline />
+
+        <OutstandingBalance />
 
         <div className="mb-6">
           <div className="border-b border-border">
             <nav className="-mb-px flex space-x-8">
               <button
-                onClick={() => setActiveTab('current')}
+                onClick={() => selectTab('current')}
                 className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
                   activeTab === 'current'
                     ? 'border-primary text-primary'
@@ -127,7 +194,7 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
                 Current Period
               </button>
               <button
-                onClick={() => setActiveTab('historical')}
+                onClick={() => selectTab('historical')}
                 className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
                   activeTab === 'historical'
                     ? 'border-primary text-primary'
@@ -136,6 +203,18 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
               >
                 Historical Periods
               </button>
+              {isAdmin && (
+                <button
+                  onClick={() => selectTab('admin')}
+                  className={`whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'admin'
+                      ? 'border-primary text-primary'
+                      : 'border-transparent text-muted-foreground hover:text-foreground hover:border-border'
+                  }`}
+                >
+                  Admin
+                </button>
+              )}
             </nav>
           </div>
         </div>
@@ -143,7 +222,6 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
         {activeTab === 'current' && currentPeriod && (
           <CurrentPeriod 
             period={currentPeriod}
-            apiKey={apiKey}
             userId={userId}
           />
         )}
@@ -151,11 +229,26 @@ export function Dashboard({ apiKey, userId, onLogout }: DashboardProps) {
         {activeTab === 'historical' && (
           <HistoricalPeriods 
             periods={historicalPeriods}
-            apiKey={apiKey}
             userId={userId}
+            isAdmin={isAdmin}
+            selectedPeriodId={linkedPeriod && !linkedPeriod.isCurrent ? linkedPeriod.id : null}
+            onSelectPeriod={linkToPeriod}
+            onPeriodsChanged={() => fetchPeriods(false)}
           />
         )}
 
+        {activeTab === 'admin' && isAdmin && (
+          <div className="space-y-6">
+            <SnapshotAdmin
+              onSnapshotsChanged={() => fetchPeriods(false)}
+            />
+            <PeopleAdmin />
+            <BudgetAdmin />
+            <WebhookAdmin />
+            <SessionAdmin />
+          </div>
+        )}
+
         {activeTab === 'current' && !currentPeriod && (
           <div className="bg-card p-8 rounded-lg shadow-sm border border-border text-center">
             <p className="text-muted-foreground">No current period found. This happens when there are no billing snapshots yet.</p>
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+
+type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+interface ExportButtonsProps {
+  periodId: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  jsonl: 'JSON',
+  xlsx: 'Excel',
+};
+
+export function ExportButtons({ periodId }: ExportButtonsProps) {
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const download = async (format: ExportFormat) => {
+    setDownloading(format);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/periods/${periodId}/export?format=${format}`);
+
+      if (!response.ok) {
+        throw new Error(`Export failed: ${response.status}`);
+      }
+
+      // Use the server-provided filename so every format gets the right extension
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `period-${periodId}.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-destructive">{error}</span>}
+      <span className="text-xs text-muted-foreground">Export:</span>
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          disabled={downloading !== null}
+          className="px-2 py-1 text-xs bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {downloading === format ? '...' : FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { BudgetProgressBar } from './BudgetProgressBar';
+
+interface GroupRanking {
+  tag: string | null;
+  name: string;
+  cost: number;
+  share: number;
+  memberCount: number;
+  periodTokens: number;
+  periodRequests: number;
+  isMine: boolean;
+  budget: {
+    amount: number;
+    spent: number;
+  } | null;
+}
+
+interface GroupRankingTableProps {
+  periodId: string;
+}
+
+export function GroupRankingTable({ periodId }: GroupRankingTableProps) {
+  const [groupBy, setGroupBy] = useState<string | null>(null);
+  const [prefixes, setPrefixes] = useState<string[]>([]);
+  const [groups, setGroups] = useState<GroupRanking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetchGroups(groupBy);
+  }, [periodId]);
+
+  const fetchGroups = async (by: string | null) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const query = by ? `?by=${encodeURIComponent(by)}` : '';
+      const response = await fetch(`/api/periods/${periodId}/groups${query}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch groups: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setGroupBy(data.by);
+      setPrefixes(data.prefixes || []);
+      setGroups(data.groups || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load groups');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatNumber = (num: number) => {
+    return new Intl.NumberFormat('en-US').format(num);
+  };
+
+  // Nothing to show until keys carry `grouping:group` tags
+  if (!isLoading && !error && prefixes.length === 0) {
+    return null;
+  }
+
+  const showBudget = groups.some(group => group.budget);
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <h3 className="text-lg font-medium text-card-foreground">Group Ranking</h3>
+        {prefixes.length > 0 && (
+          <select
+            value={groupBy ?? ''}
+            onChange={(e) => fetchGroups(e.target.value)}
+            className="px-3 py-1.5 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            disabled={isLoading}
+          >
+            {prefixes.map(prefix => (
+              <option key={prefix} value={prefix}>By {prefix}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error ? (
+        <p className="px-6 py-4 text-sm text-destructive">{error}</p>
+      ) : isLoading ? (
+        <div className="text-center py-8 text-muted-foreground">Loading groups...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted/50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Group</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Cost</th>
+                {showBudget && (
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Budget</th>
+                )}
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Share</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Keys</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Requests</th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Tokens</th>
+              </tr>
+            </thead>
+            <tbody className="bg-card divide-y divide-border">
+              {groups.map(group => (
+                <tr
+                  key={group.tag ?? ''}
+                  className={`${group.isMine ? 'bg-primary/10 border-l-4 border-l-primary' : ''} hover:bg-muted/50 transition-colors`}
+                >
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${group.tag ? 'text-card-foreground' : 'text-muted-foreground italic'}`}>
+                    {group.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-primary">
+                    {formatCurrency(group.cost)}
+                  </td>
+                  {showBudget && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {group.budget && <BudgetProgressBar spent={group.budget.spent} amount={group.budget.amount} />}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-card-foreground">
+                    {(group.share * 100).toFixed(2)}%
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-card-foreground">
+                    {group.memberCount}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-card-foreground">
+                    {formatNumber(group.periodRequests)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-card-foreground">
+                    {formatNumber(group.periodTokens)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
 import { useState, useEffect } from 'react';
 import { RankingTable } from './RankingTable';
+import { GroupRankingTable } from './GroupRankingTable';
 import { UserDetailCard } from './UserDetailCard';
+import { SettlementCard } from './SettlementCard';
+import { ExportButtons } from './ExportButtons';
+import { PlatformBreakdown, type PlatformTotal } from './PlatformBreakdown';
+import { ReconciliationNotes, type ReconciliationEntry } from './ReconciliationNotes';
 
 interface Period {
   index: number;
+  id: string;
+  slug: string | null;
+  label: string | null;
+  note: string | null;
   startSnapshotId: number | null;
+  endSnapshotId: number | null;
   startAt: string | null;
   endAt: string | null;
   isCurrent: boolean;
@@ -21,6 +31,7 @@ interface PeriodSummary {
     totalCost: number;
     userCount: number;
   };
+  platforms: PlatformTotal[];
   ranking: Array<{
     id: string;
     name: string;
@@ -32,12 +43,17 @@ interface PeriodSummary {
     periodTokens: number;
     periodRequests: number;
   }>;
+  reconciliation?: ReconciliationEntry[];
 }
 
 interface HistoricalPeriodsProps {
   periods: Period[];
-  apiKey: string;
   userId: string;
+  isAdmin: boolean;
+  // Period opened from a link; defaults to the most recent one
+  selectedPeriodId?: string | null;
+  onSelectPeriod?: (period: Period) => void;
+  onPeriodsChanged?: () => void;
 }
 
 interface PeriodOption {
@@ -45,8 +61,13 @@ interface PeriodOption {
   totalCost: number | null; // null means still loading
 }
 
-export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriodsProps) {
+export function HistoricalPeriods({ periods, userId, isAdmin, selectedPeriodId, onSelectPeriod, onPeriodsChanged }: HistoricalPeriodsProps) {
   const [selectedPeriod, setSelectedPeriod] = useState<Period | null>(null);
+  const [isEditingLabel, setIsEditingLabel] = useState(false);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [noteDraft, setNoteDraft] = useState('');
+  const [labelError, setLabelError] = useState('');
+  const [isSavingLabel, setIsSavingLabel] = useState(false);
   const [summary, setSummary] = useState<PeriodSummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
@@ -65,7 +86,7 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
       }));
       setPeriodOptions(initialOptions);
       
-      if (!selectedPeriod && initialOptions.length > 0) {
+      if (!selectedPeriod && !selectedPeriodId && initialOptions.length > 0) {
         const lastOption = initialOptions[initialOptions.length - 1];
         if (lastOption) {
           setSelectedPeriod(lastOption.period);
@@ -80,9 +101,7 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
         if (!period) continue;
 
         try {
-          const response = await fetch(`/api/periods/${period.index}/summary`, {
-            headers: { 'X-API-Key': apiKey },
-          });
+          const response = await fetch(`/api/periods/${period.id}/summary`);
 
           if (response.ok) {
             const data = await response.json();
@@ -103,33 +122,74 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
     };
     
     fetchAllPeriodCosts();
-  }, [periods, apiKey]);
+  }, [periods]);
   
   useEffect(() => {
-    if (periods.length > 0 && !selectedPeriod) {
+    const linked = selectedPeriodId ? periods.find(p => p.id === selectedPeriodId) : undefined;
+    if (linked) {
+      setSelectedPeriod(linked);
+    } else if (periods.length > 0) {
+      // Keep the selection across refreshes as long as the period still exists
+      const current = selectedPeriod ? periods.find(p => p.id === selectedPeriod.id) : undefined;
       const lastPeriod = periods[periods.length - 1];
-      if (lastPeriod) {
-        setSelectedPeriod(lastPeriod); // Select the most recent historical period
-      }
+      setSelectedPeriod(current ?? lastPeriod ?? null); // Otherwise select the most recent historical period
     }
-  }, [periods]);
+  }, [periods, selectedPeriodId]);
 
   useEffect(() => {
     if (selectedPeriod) {
-      fetchSummary(selectedPeriod.index);
+      fetchSummary(selectedPeriod.id);
+    }
+    setIsEditingLabel(false);
+  }, [selectedPeriod?.id]);
+
+  const selectPeriod = (period: Period) => {
+    setSelectedPeriod(period);
+    onSelectPeriod?.(period);
+  };
+
+  const startEditingLabel = () => {
+    if (!selectedPeriod) return;
+    setLabelDraft(selectedPeriod.label ?? '');
+    setNoteDraft(selectedPeriod.note ?? '');
+    setLabelError('');
+    setIsEditingLabel(true);
+  };
+
+  const saveLabel = async () => {
+    if (!selectedPeriod) return;
+    setIsSavingLabel(true);
+    setLabelError('');
+
+    try {
+      const response = await fetch(`/api/admin/periods/${selectedPeriod.id}/label`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: labelDraft, note: noteDraft }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to save label: ${response.status}`);
+      }
+
+      setIsEditingLabel(false);
+      onPeriodsChanged?.();
+    } catch (err) {
+      setLabelError(err instanceof Error ? err.message : 'Failed to save label');
+    } finally {
+      setIsSavingLabel(false);
     }
-  }, [selectedPeriod]);
+  };
+
+  const periodTitle = (period: Period) => period.label || `Period #${period.index}`;
 
-  const fetchSummary = async (periodIndex: number) => {
+  const fetchSummary = async (periodId: string) => {
     setIsLoading(true);
     setError('');
 
     try {
-      const response = await fetch(`/api/periods/${periodIndex}/summary`, {
-        headers: {
-          'X-API-Key': apiKey,
-        },
-      });
+      const response = await fetch(`/api/periods/${periodId}/summary`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch period summary: ${response.status}`);
@@ -205,7 +265,7 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
               {selectedPeriod ? (
                 <span className="flex items-center justify-between w-full">
                   <span>
-                    Period #{selectedPeriod.index} - {formatDateRange(
+                    {periodTitle(selectedPeriod)} - {formatDateRange(
                       selectedPeriod.startAt, 
                       selectedPeriod.endAt,
                       selectedPeriod.index === 0
@@ -213,7 +273,7 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
                   </span>
                   <span className="ml-2 text-primary font-medium">
                     {(() => {
-                      const option = periodOptions.find(opt => opt.period.index === selectedPeriod.index);
+                      const option = periodOptions.find(opt => opt.period.id === selectedPeriod.id);
                       if (!option || option.totalCost === null) {
                         return (
                           <span className="flex items-center">
@@ -244,19 +304,19 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
             <div className="absolute top-full left-0 right-0 z-50 mt-2 max-h-60 overflow-auto rounded-md border border-border bg-card shadow-lg">
               {periodOptions.map((option) => (
                 <button
-                  key={option.period.index}
+                  key={option.period.id}
                   onClick={() => {
-                    setSelectedPeriod(option.period);
+                    selectPeriod(option.period);
                     setIsSelectOpen(false);
                   }}
                   className={`flex w-full items-center justify-between px-3 py-3 text-sm hover:bg-accent hover:text-accent-foreground ${
-                    selectedPeriod?.index === option.period.index
+                    selectedPeriod?.id === option.period.id
                       ? 'bg-accent text-accent-foreground'
                       : 'text-card-foreground'
                   }`}
                 >
                   <span>
-                    Period #{option.period.index} - {formatDateRange(
+                    {periodTitle(option.period)} - {formatDateRange(
                       option.period.startAt, 
                       option.period.endAt,
                       option.period.index === 0
@@ -366,7 +426,7 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
               <h3 className="text-lg font-medium text-card-foreground mb-2">Failed to Load Period Data</h3>
               <p className="text-muted-foreground mb-4">{error}</p>
               <button
-                onClick={() => fetchSummary(selectedPeriod.index)}
+                onClick={() => fetchSummary(selectedPeriod.id)}
                 className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90 transition-colors"
               >
                 Retry
@@ -375,9 +435,60 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
           ) : summary && (
             <>
               <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
-                <h2 className="text-lg font-semibold text-card-foreground mb-4">
-                  Period #{selectedPeriod.index}: {formatDateRange(summary.period.startAt, summary.period.endAt, selectedPeriod.index === 0)}
-                </h2>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+                  <h2 className="text-lg font-semibold text-card-foreground">
+                    {periodTitle(selectedPeriod)}: {formatDateRange(summary.period.startAt, summary.period.endAt, selectedPeriod.index === 0)}
+                  </h2>
+                  <div className="flex items-center gap-3">
+                    {isAdmin && !isEditingLabel && (
+                      <button
+                        onClick={startEditingLabel}
+                        className="px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors"
+                      >
+                        Edit Label
+                      </button>
+                    )}
+                    <ExportButtons periodId={selectedPeriod.id} />
+                  </div>
+                </div>
+
+                {isEditingLabel ? (
+                  <div className="mb-4 space-y-2">
+                    <input
+                      type="text"
+                      value={labelDraft}
+                      onChange={(e) => setLabelDraft(e.target.value)}
+                      placeholder={`Period #${selectedPeriod.index}`}
+                      maxLength={100}
+                      className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+                    />
+                    <textarea
+                      value={noteDraft}
+                      onChange={(e) => setNoteDraft(e.target.value)}
+                      placeholder="Note (optional)"
+                      rows={2}
+                      className="w-full rounded-md border border-border bg-background px-3 py-2 text-sm"
+                    />
+                    {labelError && <p className="text-sm text-destructive">{labelError}</p>}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={saveLabel}
+                        disabled={isSavingLabel}
+                        className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+                      >
+                        {isSavingLabel ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        onClick={() => setIsEditingLabel(false)}
+                        className="px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : selectedPeriod.note && (
+                  <p className="mb-4 text-sm text-muted-foreground">{selectedPeriod.note}</p>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div className="text-center">
@@ -397,18 +508,29 @@ export function HistoricalPeriods({ periods, apiKey, userId }: HistoricalPeriods
                     </div>
                   </div>
                 </div>
+
+                <PlatformBreakdown platforms={summary.platforms} />
               </div>
 
               {/* Ranking Table */}
               <RankingTable 
                 ranking={summary.ranking}
-                title={`Period #${selectedPeriod.index} Ranking`}
+                title={`${periodTitle(selectedPeriod)} Ranking`}
+              />
+
+              <GroupRankingTable periodId={selectedPeriod.id} />
+
+              <ReconciliationNotes entries={summary.reconciliation ?? []} />
+
+              {/* Settlement */}
+              <SettlementCard
+                periodId={selectedPeriod.id}
+                isAdmin={isAdmin}
               />
 
               {/* User Detail Card */}
               <UserDetailCard 
-                periodIndex={selectedPeriod.index}
-                apiKey={apiKey}
+                periodId={selectedPeriod.id}
                 userId={userId}
               />
             </>
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+
+interface Balance {
+  currency: string;
+  outstanding: Array<{ currency: string; amount: number }>;
+  periods: Array<{
+    periodIndex: number | null;
+    periodRef: string | null;
+    endSnapshotId: number;
+    entryId: number;
+    amount: number;
+    currency: string;
+    status: 'paid' | 'unpaid';
+    paidAt: string | null;
+  }>;
+}
+
+export function OutstandingBalance() {
+  const [balance, setBalance] = useState<Balance | null>(null);
+
+  useEffect(() => {
+    fetchBalance();
+  }, []);
+
+  const fetchBalance = async () => {
+    try {
+      const response = await fetch('/api/me/balance');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch balance: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setBalance(data.balance);
+    } catch (err) {
+      console.error('Error fetching balance:', err);
+    }
+  };
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  if (!balance) {
+    return null;
+  }
+
+  const unpaidPeriods = balance.periods.filter(p => p.status === 'unpaid');
+
+  return (
+    <div className="bg-card p-6 rounded-lg shadow-sm border border-border mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+      <div>
+        <h3 className="text-lg font-medium text-card-foreground">Your Outstanding Balance</h3>
+        <p className="text-sm text-muted-foreground">
+          {unpaidPeriods.length > 0 ? (
+            <>
+              Unpaid in {unpaidPeriods.length} period{unpaidPeriods.length > 1 ? 's' : ''}:{' '}
+              {unpaidPeriods.map((p, i) => (
+                <span key={p.entryId}>
+                  {i > 0 && ', '}
+                  {p.periodRef !== null ? (
+                    <a href={`#/periods/${encodeURIComponent(p.periodRef)}`} className="underline hover:text-foreground">
+                      #{p.periodIndex}
+                    </a>
+                  ) : 'removed period'}
+                </span>
+              ))}
+            </>
+          ) : 'All settled'}
+        </p>
+      </div>
+      <div className={`text-2xl font-bold ${balance.outstanding.some(o => o.amount > 0) ? 'text-primary' : 'text-card-foreground'}`}>
+        {balance.outstanding.length > 0
+          ? balance.outstanding.map(o => formatAmount(o.amount, o.currency)).join(' + ')
+          : formatAmount(0, balance.currency)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+
+interface PersonKey {
+  id: number;
+  keyId: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+}
+
+interface Person {
+  id: number;
+  name: string;
+  keys: PersonKey[];
+}
+
+interface KeyOption {
+  id: string;
+  name: string;
+}
+
+interface KeyDraft {
+  keyId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_DRAFT: KeyDraft = { keyId: '', from: '', to: '' };
+
+export function PeopleAdmin() {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [keys, setKeys] = useState<KeyOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [name, setName] = useState('');
+  const [drafts, setDrafts] = useState<Record<number, KeyDraft>>({});
+
+  useEffect(() => {
+    fetchPeople();
+    fetchKeys();
+  }, []);
+
+  const fetchPeople = async () => {
+    try {
+      const response = await fetch('/api/admin/people');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch people: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setPeople(data.people || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load people');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/admin/keys');
+
+      if (response.ok) {
+        const data = await response.json();
+        setKeys(data.keys || []);
+      }
+    } catch (err) {
+      console.error('Failed to load API keys:', err);
+    }
+  };
+
+  // Runs an admin request, surfacing the server's validation message on failure
+  const send = async (url: string, method: string, body?: unknown) => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed: ${response.status}`);
+      }
+
+      await fetchPeople();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createPerson = async () => {
+    if (await send('/api/admin/people', 'POST', { name })) {
+      setName('');
+    }
+  };
+
+  const renamePerson = async (person: Person) => {
+    const next = prompt('Name', person.name);
+    if (next === null || next.trim() === person.name) return;
+    await send(`/api/admin/people/${person.id}`, 'PUT', { name: next });
+  };
+
+  const deletePerson = async (person: Person) => {
+    if (!confirm(`Remove ${person.name}? Their keys will be billed separately again.`)) return;
+    await send(`/api/admin/people/${person.id}`, 'DELETE');
+  };
+
+  const addKey = async (person: Person) => {
+    const draft = drafts[person.id] ?? EMPTY_DRAFT;
+    const ok = await send(`/api/admin/people/${person.id}/keys`, 'POST', {
+      keyId: draft.keyId,
+      effectiveFrom: draft.from ? new Date(draft.from).toISOString() : null,
+      effectiveTo: draft.to ? new Date(draft.to).toISOString() : null,
+    });
+    if (ok) {
+      setDrafts(prev => ({ ...prev, [person.id]: EMPTY_DRAFT }));
+    }
+  };
+
+  const removeKey = async (key: PersonKey) => {
+    if (!confirm(`Unmap ${keyName(key.keyId)}?`)) return;
+    await send(`/api/admin/person-keys/${key.id}`, 'DELETE');
+  };
+
+  const updateDraft = (personId: number, change: Partial<KeyDraft>) => {
+    setDrafts(prev => ({ ...prev, [personId]: { ...(prev[personId] ?? EMPTY_DRAFT), ...change } }));
+  };
+
+  const keyName = (keyId: string) => keys.find(key => key.id === keyId)?.name ?? keyId;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+  };
+
+  const formatRange = (key: PersonKey) => {
+    if (!key.effectiveFrom && !key.effectiveTo) return 'always';
+    return `${key.effectiveFrom ? formatDate(key.effectiveFrom) : '…'} → ${key.effectiveTo ? formatDate(key.effectiveTo) : 'now'}`;
+  };
+
+  const inputClass = 'px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border">
+        <h3 className="text-lg font-medium text-card-foreground">People</h3>
+        <p className="text-sm text-muted-foreground">
+          Keys mapped to one person are ranked, budgeted and settled together, and any of them logs in to the combined view.
+        </p>
+      </div>
+
+      <div className="px-6 py-4 border-b border-border">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Person name"
+            className={`flex-1 ${inputClass}`}
+            disabled={isSaving}
+          />
+          <button
+            onClick={createPerson}
+            disabled={isSaving || !name.trim()}
+            className="bg-primary text-primary-foreground px-4 py-2 rounded-md text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Person
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Loading people...</div>
+      ) : people.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">No people yet; every key is billed on its own</div>
+      ) : (
+        <div className="divide-y divide-border">
+          {people.map((person) => {
+            const draft = drafts[person.id] ?? EMPTY_DRAFT;
+
+            return (
+              <div key={person.id} className="px-6 py-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-card-foreground">{person.name}</span>
+                  <div className="flex gap-4">
+                    <button onClick={() => renamePerson(person)} className="text-sm text-primary hover:underline">
+                      Rename
+                    </button>
+                    <button onClick={() => deletePerson(person)} className="text-sm text-destructive hover:underline">
+                      Remove
+                    </button>
+                  </div>
+                </div>
+
+                {person.keys.length > 0 && (
+                  <ul className="space-y-1">
+                    {person.keys.map((key) => (
+                      <li key={key.id} className="flex items-center justify-between text-sm">
+                        <span className="text-card-foreground">
+                          {keyName(key.keyId)}
+                          <span className="ml-2 text-muted-foreground">{formatRange(key)}</span>
+                        </span>
+                        <button onClick={() => removeKey(key)} className="text-sm text-destructive hover:underline">
+                          Unmap
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <select
+                    value={draft.keyId}
+                    onChange={(e) => updateDraft(person.id, { keyId: e.target.value })}
+                    className={inputClass}
+                    disabled={isSaving}
+                  >
+                    <option value="">Select a key...</option>
+                    {keys.map((key) => (
+                      <option key={key.id} value={key.id}>{key.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={draft.from}
+                    onChange={(e) => updateDraft(person.id, { from: e.target.value })}
+                    title="Mapped from (optional)"
+                    className={inputClass}
+                    disabled={isSaving}
+                  />
+                  <input
+                    type="date"
+                    value={draft.to}
+                    onChange={(e) => updateDraft(person.id, { to: e.target.value })}
+                    title="Mapped until (optional)"
+                    className={inputClass}
+                    disabled={isSaving}
+                  />
+                  <button
+                    onClick={() => addKey(person)}
+                    disabled={isSaving || !draft.keyId}
+                    className="bg-secondary text-secondary-foreground px-4 py-2 rounded-md text-sm hover:bg-secondary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Map Key
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// React is used in JSX, TypeScript just doesn't detect it
+
+export interface PlatformTotal {
+  platform: string;
+  cost: number;
+  share: number;
+  userCount: number;
+}
+
+interface PlatformBreakdownProps {
+  platforms: PlatformTotal[];
+}
+
+export const PLATFORM_LABELS: Record<string, string> = {
+  claude: 'Claude',
+  openai: 'OpenAI / Codex',
+  gemini: 'Gemini',
+  other: 'Other',
+};
+
+export function PlatformBreakdown({ platforms }: PlatformBreakdownProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  // A single platform is just the period total again
+  if (platforms.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 pt-4 border-t border-border grid grid-cols-2 md:grid-cols-4 gap-4">
+      {platforms.map(platform => (
+        <div key={platform.platform} className="text-center">
+          <div className="text-lg font-semibold text-card-foreground">{formatCurrency(platform.cost)}</div>
+          <div className="text-sm text-muted-foreground">
+            {PLATFORM_LABELS[platform.platform] ?? platform.platform} · {(platform.share * 100).toFixed(1)}% · {platform.userCount} user{platform.userCount === 1 ? '' : 's'}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 // React is used in JSX, TypeScript just doesn't detect it
+import { BudgetProgressBar } from './BudgetProgressBar';
 
 interface RankingUser {
   id: string;
@@ -10,6 +11,21 @@ interface RankingUser {
   rawEnd: any;
   periodTokens: number;
   periodRequests: number;
+  models?: Array<{
+    model: string;
+    cost: number;
+    tokens: number;
+    requests: number;
+  }> | null;
+  forecast?: {
+    projected: number;
+    low: number;
+    high: number;
+  };
+  budget?: {
+    amount: number;
+    spent: number;
+  } | null;
 }
 
 interface RankingTableProps {
@@ -35,6 +51,11 @@ export function RankingTable({ ranking, title }: RankingTableProps) {
     return new Intl.NumberFormat('en-US').format(num);
   };
 
+  // Only the current period carries projections
+  const showProjection = ranking.some(user => user.forecast);
+  const showBudget = ranking.some(user => user.budget);
+  const showModels = ranking.some(user => user.models && user.models.length > 0);
+
   const getRankBadge = (rank: number) => {
     if (rank === 1) {
       return (
@@ -83,6 +104,16 @@ export function RankingTable({ ranking, title }: RankingTableProps) {
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
                 Cost
               </th>
+              {showProjection && (
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Projected
+                </th>
+              )}
+              {showBudget && (
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Budget
+                </th>
+              )}
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
                 Share
               </th>
@@ -92,6 +123,11 @@ export function RankingTable({ ranking, title }: RankingTableProps) {
               <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">
                 Tokens
               </th>
+              {showModels && (
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Models
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-card divide-y divide-border">
@@ -127,6 +163,23 @@ export function RankingTable({ ranking, title }: RankingTableProps) {
                       {formatCurrency(user.cost)}
                     </div>
                   </td>
+                  {showProjection && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {user.forecast && (
+                        <div
+                          className="text-sm text-card-foreground"
+                          title={`${formatCurrency(user.forecast.low)} – ${formatCurrency(user.forecast.high)}`}
+                        >
+                          {formatCurrency(user.forecast.projected)}
+                        </div>
+                      )}
+                    </td>
+                  )}
+                  {showBudget && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {user.budget && <BudgetProgressBar spent={user.budget.spent} amount={user.budget.amount} />}
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-right">
                     <div className="text-sm text-card-foreground">
                       {formatPercentage(user.share)}
@@ -142,6 +195,25 @@ export function RankingTable({ ranking, title }: RankingTableProps) {
                       {formatNumber(user.periodTokens)}
                     </div>
                   </td>
+                  {showModels && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {user.models && user.models.length > 0 && (
+                        <div
+                          className="text-xs text-muted-foreground space-y-0.5"
+                          title={user.models.map(m => `${m.model}: ${formatCurrency(m.cost)}`).join('\n')}
+                        >
+                          {/* The top two models; the rest are in the tooltip */}
+                          {user.models.slice(0, 2).map(m => (
+                            <div key={m.model}>
+                              <span className="text-card-foreground">{m.model}</span>{' '}
+                              {user.cost > 0 ? formatPercentage(m.cost / user.cost) : formatNumber(m.requests)}
+                            </div>
+                          ))}
+                          {user.models.length > 2 && <div>+{user.models.length - 2} more</div>}
+                        </div>
+                      )}
+                    </td>
+                  )}
                 </tr>
               );
             })}
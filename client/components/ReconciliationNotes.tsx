@@ -0,0 +1,80 @@
+// React is used in JSX, TypeScript just doesn't detect it
+
+export interface ReconciliationEntry {
+  name: string;
+  kind: 'deleted' | 'excluded' | 'reset';
+  cost: number;
+  at: string | null;
+  basis: 'samples' | 'boundaries';
+}
+
+interface ReconciliationNotesProps {
+  entries: ReconciliationEntry[];
+}
+
+export function ReconciliationNotes({ entries }: ReconciliationNotesProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  const describe = (entry: ReconciliationEntry) => {
+    const when = entry.at ? ` on ${formatDate(entry.at)}` : '';
+    if (entry.kind === 'deleted') {
+      return entry.basis === 'samples'
+        ? `Deleted${when}; charged up to its last recorded usage`
+        : `Deleted${when}; no usage was recorded after the period started`;
+    }
+    if (entry.kind === 'excluded') {
+      return entry.basis === 'samples'
+        ? `Tagged noshare; charged up to its last recorded usage${when}`
+        : `Tagged noshare during the period; no usage was recorded after the period started`;
+    }
+    return entry.basis === 'samples'
+      ? `Usage counters reset${when}; counted through the reset`
+      : `Usage counters reset during the period; usage before the reset is unknown`;
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border">
+        <h3 className="text-lg font-medium text-card-foreground">Reconciliation</h3>
+        <p className="text-sm text-muted-foreground">
+          Keys whose period usage isn't simply their closing minus opening totals.
+        </p>
+      </div>
+      <ul className="divide-y divide-border">
+        {entries.map((entry, index) => (
+          <li key={index} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+            <div>
+              <span className="font-medium text-card-foreground">{entry.name}</span>
+              <span className="ml-2 text-muted-foreground">{describe(entry)}</span>
+            </div>
+            <span className="font-semibold text-primary whitespace-nowrap">{formatCurrency(entry.cost)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+
+interface Session {
+  id: string;
+  keyId: string;
+  isAdmin: boolean;
+  userAgent: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface KeyOption {
+  id: string;
+  name: string;
+}
+
+export function SessionAdmin() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string>('');
+  const [keyNames, setKeyNames] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetchSessions();
+    fetchKeys();
+  }, []);
+
+  const fetchSessions = async () => {
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/sessions');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sessions: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setSessions(data.sessions || []);
+      setCurrentSessionId(data.currentSessionId || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/admin/keys');
+
+      if (response.ok) {
+        const data = await response.json();
+        setKeyNames(new Map((data.keys || []).map((key: KeyOption) => [key.id, key.name])));
+      }
+    } catch (err) {
+      console.error('Error fetching keys:', err);
+    }
+  };
+
+  const revokeSession = async (session: Session) => {
+    if (!confirm('Revoke this session? The user will have to log in again.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to revoke session: ${response.status}`);
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    }
+  };
+
+  const revokeKeySessions = async (session: Session) => {
+    const name = keyNames.get(session.keyId) || session.keyId;
+    if (!confirm(`Revoke all sessions of ${name}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/sessions?keyId=${encodeURIComponent(session.keyId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to revoke sessions: ${response.status}`);
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke sessions');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border">
+        <h3 className="text-lg font-medium text-card-foreground">Sessions</h3>
+        <p className="text-sm text-muted-foreground">
+          Active dashboard logins. Revoking a session logs it out on its next request.
+        </p>
+        {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Loading sessions...</div>
+      ) : sessions.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">No active sessions</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-muted/50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">User</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Browser</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Logged In</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Expires</th>
+                <th scope="col" className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-card divide-y divide-border">
+              {sessions.map((session) => (
+                <tr key={session.id} className="hover:bg-muted/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">
+                    {keyNames.get(session.keyId) || session.keyId}
+                    {session.isAdmin && <span className="ml-2 text-xs text-muted-foreground">admin</span>}
+                    {session.id === currentSessionId && <span className="ml-2 text-xs text-primary">this session</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-muted-foreground max-w-xs truncate" title={session.userAgent || ''}>
+                    {session.userAgent || '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(session.createdAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(session.expiresAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                    <button
+                      onClick={() => revokeSession(session)}
+                      className="text-sm text-destructive hover:underline"
+                    >
+                      Revoke
+                    </button>
+                    <button
+                      onClick={() => revokeKeySessions(session)}
+                      className="text-sm text-destructive hover:underline"
+                    >
+                      Revoke all for user
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
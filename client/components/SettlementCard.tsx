@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { PLATFORM_LABELS } from './PlatformBreakdown';
+
+interface SettlementEntry {
+  id: number;
+  name: string;
+  cost: number;
+  share: number;
+  amount: number;
+  status: 'paid' | 'unpaid';
+  paidAt: string | null;
+  markedBy: string | null;
+  isMe: boolean;
+  poolAmounts: Record<string, number> | null;
+}
+
+interface Settlement {
+  id: number;
+  fee: number;
+  currency: string;
+  totalCost: number;
+  pools: Array<{ platform: string; fee: number }> | null;
+  entries: SettlementEntry[];
+  totals: {
+    paid: number;
+    unpaid: number;
+  };
+}
+
+interface SettlementCardProps {
+  periodId: string;
+  isAdmin: boolean;
+}
+
+export function SettlementCard({ periodId, isAdmin }: SettlementCardProps) {
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchSettlement();
+  }, [periodId]);
+
+  const fetchSettlement = async () => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/periods/${periodId}/settlement`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch settlement: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setSettlement(data.settlement);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load settlement');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleStatus = async (entry: SettlementEntry) => {
+    setUpdatingId(entry.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/settlement-entries/${entry.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: entry.status === 'paid' ? 'unpaid' : 'paid' }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update settlement: ${response.status}`);
+      }
+
+      await fetchSettlement();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update settlement');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatAmount = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '';
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  if (isLoading || (!settlement && !error)) {
+    return null;
+  }
+
+  if (!settlement) {
+    return (
+      <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
+        <h3 className="text-lg font-medium text-card-foreground mb-2">Settlement</h3>
+        <p className="text-sm text-destructive">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <h3 className="text-lg font-medium text-card-foreground">Settlement</h3>
+        <div className="text-sm text-muted-foreground">
+          Fee {formatAmount(settlement.fee, settlement.currency)}
+          {settlement.pools && ` (${settlement.pools
+            .map(pool => `${PLATFORM_LABELS[pool.platform] ?? pool.platform} ${formatAmount(pool.fee, settlement.currency)}`)
+            .join(', ')})`} · Paid {formatAmount(settlement.totals.paid, settlement.currency)} · Unpaid {formatAmount(settlement.totals.unpaid, settlement.currency)}
+        </div>
+      </div>
+      {error && <p className="px-6 pt-4 text-sm text-destructive">{error}</p>}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-border">
+          <thead className="bg-muted/50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">User</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Share</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Amount Owed</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-card divide-y divide-border">
+            {settlement.entries.map((entry) => (
+              <tr
+                key={entry.id}
+                className={`${entry.isMe ? 'bg-primary/10 border-l-4 border-l-primary' : ''} hover:bg-muted/50 transition-colors`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-card-foreground">
+                  {entry.name}
+                  {entry.isMe && (
+                    <span className="ml-2 inline-flex items-center px-2 py-1 text-xs font-medium bg-primary/20 text-primary rounded-full">
+                      You
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-card-foreground">
+                  {(entry.share * 100).toFixed(2)}%
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-primary">
+                  {formatAmount(entry.amount, settlement.currency)}
+                  {entry.poolAmounts && Object.keys(entry.poolAmounts).length > 1 && (
+                    <div className="text-xs font-normal text-muted-foreground">
+                      {Object.entries(entry.poolAmounts)
+                        .map(([platform, amount]) => `${PLATFORM_LABELS[platform] ?? platform} ${formatAmount(amount, settlement.currency)}`)
+                        .join(' · ')}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <div className="flex items-center gap-3">
+                    <span
+                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                        entry.status === 'paid' ? 'bg-chart-1 text-white' : 'bg-muted text-muted-foreground'
+                      }`}
+                      title={entry.markedBy ? `Marked by ${entry.markedBy} ${formatDate(entry.paidAt)}` : undefined}
+                    >
+                      {entry.status === 'paid' ? 'Paid' : 'Unpaid'}
+                    </span>
+                    {entry.status === 'paid' && entry.markedBy && (
+                      <span className="text-xs text-muted-foreground">
+                        by {entry.markedBy} {formatDate(entry.paidAt)}
+                      </span>
+                    )}
+                    {isAdmin && (
+                      <button
+                        onClick={() => toggleStatus(entry)}
+                        disabled={updatingId === entry.id}
+                        className="text-xs text-primary hover:underline disabled:opacity-50"
+                      >
+                        {entry.status === 'paid' ? 'Mark unpaid' : 'Mark paid'}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {settlement.entries.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">Nobody owes anything for this period</div>
+      )}
+    </div>
+  );
+}
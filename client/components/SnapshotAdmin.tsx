@@ -0,0 +1,409 @@
+import { useState, useEffect } from 'react';
+
+interface SnapshotItem {
+  id: number;
+  createdAt: string;
+  effectiveAt: string;
+  timezone: string;
+  schedule: string | null;
+  scheduledFor: string | null;
+  note: string | null;
+  voidedAt: string | null;
+  voidedBy: string | null;
+  userCount: number;
+  totalCost: number;
+}
+
+interface SnapshotAdminProps {
+  onSnapshotsChanged: () => void;
+}
+
+// `datetime-local` inputs take the browser's local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return data.error || `${fallback}: ${response.status}`;
+};
+
+export function SnapshotAdmin({ onSnapshotsChanged }: SnapshotAdminProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [newNote, setNewNote] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingNote, setEditingNote] = useState('');
+  const [movingId, setMovingId] = useState<number | null>(null);
+  const [movingAt, setMovingAt] = useState('');
+  const [boundaryAt, setBoundaryAt] = useState('');
+  const [boundaryNote, setBoundaryNote] = useState('');
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, []);
+
+  const fetchSnapshots = async () => {
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/snapshots');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch snapshots: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setSnapshots(data.snapshots || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snapshots');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createSnapshot = async () => {
+    if (!confirm('Take a snapshot now? This closes the current billing period.')) return;
+
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ note: newNote }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to create snapshot: ${response.status}`);
+      }
+
+      setNewNote('');
+      await fetchSnapshots();
+      onSnapshotsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create snapshot');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const saveNote = async (id: number) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/snapshots/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ note: editingNote }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to update snapshot: ${response.status}`);
+      }
+
+      setEditingId(null);
+      await fetchSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update snapshot');
+    }
+  };
+
+  const deleteSnapshot = async (id: number) => {
+    if (!confirm(`Delete snapshot #${id}? The two periods around it will be merged.`)) return;
+
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/snapshots/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete snapshot: ${response.status}`);
+      }
+
+      await fetchSnapshots();
+      onSnapshotsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    }
+  };
+
+  const setVoided = async (snapshot: SnapshotItem, voided: boolean) => {
+    const question = voided
+      ? `Void snapshot #${snapshot.id}? It is kept, but the two periods around it will be merged.`
+      : `Restore snapshot #${snapshot.id}? The period it falls in will be split again.`;
+    if (!confirm(question)) return;
+
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/snapshots/${snapshot.id}/void`, {
+        method: voided ? 'POST' : 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, voided ? 'Failed to void snapshot' : 'Failed to restore snapshot'));
+      }
+
+      await fetchSnapshots();
+      onSnapshotsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update snapshot');
+    }
+  };
+
+  const moveSnapshot = async (id: number, effectiveAt: string | null) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/snapshots/${id}/effective-at`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ effectiveAt }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to move snapshot'));
+      }
+
+      setMovingId(null);
+      await fetchSnapshots();
+      onSnapshotsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move snapshot');
+    }
+  };
+
+  const insertBoundary = async () => {
+    const at = new Date(boundaryAt);
+    if (isNaN(at.getTime())) return;
+    if (!confirm(`Insert a period boundary at ${formatDate(at.toISOString())}, interpolated from sampled usage?`)) return;
+
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/snapshots/interpolate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ at: at.toISOString(), note: boundaryNote }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to insert boundary'));
+      }
+
+      setBoundaryAt('');
+      setBoundaryNote('');
+      await fetchSnapshots();
+      onSnapshotsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to insert boundary');
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
+        <h3 className="text-lg font-medium text-card-foreground mb-4">Take Snapshot</h3>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={newNote}
+            onChange={(e) => setNewNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+            disabled={isCreating}
+          />
+          <button
+            onClick={createSnapshot}
+            disabled={isCreating}
+            className="bg-primary text-primary-foreground px-4 py-2 rounded-md text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isCreating ? 'Creating...' : 'Create Snapshot'}
+          </button>
+        </div>
+        {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+      </div>
+
+      <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
+        <h3 className="text-lg font-medium text-card-foreground mb-1">Insert Period Boundary</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Adds a snapshot in the past with totals interpolated from sampled usage, e.g. when a period should have started on the 1st. Void the late snapshot afterwards.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="datetime-local"
+            value={boundaryAt}
+            onChange={(e) => setBoundaryAt(e.target.value)}
+            className="px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <input
+            type="text"
+            value={boundaryNote}
+            onChange={(e) => setBoundaryNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <button
+            onClick={insertBoundary}
+            disabled={!boundaryAt}
+            className="bg-secondary text-secondary-foreground px-4 py-2 rounded-md text-sm hover:bg-secondary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Insert Boundary
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        <div className="px-6 py-4 border-b border-border">
+          <h3 className="text-lg font-medium text-card-foreground">Billing Snapshots</h3>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading snapshots...</div>
+        ) : snapshots.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No snapshots yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">ID</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Created</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Source</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Users</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Total Cost</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Note</th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {snapshots.map((snapshot) => (
+                  <tr key={snapshot.id} className={`hover:bg-muted/50 transition-colors ${snapshot.voidedAt ? 'opacity-60' : ''}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">
+                      #{snapshot.id}
+                      {snapshot.voidedAt && (
+                        <span className="ml-2 text-xs text-destructive" title={`Voided ${formatDate(snapshot.voidedAt)} by ${snapshot.voidedBy}`}>voided</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">
+                      {movingId === snapshot.id ? (
+                        <div className="flex gap-2">
+                          <input
+                            type="datetime-local"
+                            value={movingAt}
+                            onChange={(e) => setMovingAt(e.target.value)}
+                            className="px-2 py-1 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                          />
+                          <button onClick={() => moveSnapshot(snapshot.id, new Date(movingAt).toISOString())} className="text-sm text-primary hover:underline">Save</button>
+                          <button onClick={() => moveSnapshot(snapshot.id, null)} className="text-sm text-muted-foreground hover:underline">Reset</button>
+                          <button onClick={() => setMovingId(null)} className="text-sm text-muted-foreground hover:underline">Cancel</button>
+                        </div>
+                      ) : (
+                        <>
+                          {formatDate(snapshot.createdAt)}
+                          {snapshot.effectiveAt !== snapshot.createdAt && (
+                            <div className="text-xs text-muted-foreground">counts from {formatDate(snapshot.effectiveAt)}</div>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{snapshot.schedule || 'unknown'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-card-foreground">{snapshot.userCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-primary">{formatCurrency(snapshot.totalCost)}</td>
+                    <td className="px-6 py-4 text-sm text-card-foreground min-w-[200px]">
+                      {editingId === snapshot.id ? (
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={editingNote}
+                            onChange={(e) => setEditingNote(e.target.value)}
+                            className="flex-1 px-2 py-1 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                          />
+                          <button onClick={() => saveNote(snapshot.id)} className="text-sm text-primary hover:underline">Save</button>
+                          <button onClick={() => setEditingId(null)} className="text-sm text-muted-foreground hover:underline">Cancel</button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setEditingId(snapshot.id);
+                            setEditingNote(snapshot.note || '');
+                          }}
+                          className="text-left hover:underline"
+                        >
+                          {snapshot.note || <span className="text-muted-foreground">Add note</span>}
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                      {!snapshot.voidedAt && (
+                        <button
+                          onClick={() => {
+                            setMovingId(snapshot.id);
+                            setMovingAt(toLocalInput(snapshot.effectiveAt));
+                          }}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          Move
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setVoided(snapshot, !snapshot.voidedAt)}
+                        className="text-sm text-destructive hover:underline"
+                      >
+                        {snapshot.voidedAt ? 'Restore' : 'Void'}
+                      </button>
+                      <button
+                        onClick={() => deleteSnapshot(snapshot.id)}
+                        className="text-sm text-destructive hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
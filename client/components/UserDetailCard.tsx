@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { CumulativeCostChart } from './CumulativeCostChart';
+import { BudgetProgressBar } from './BudgetProgressBar';
 
 interface UserDetail {
   id: string;
@@ -6,19 +8,29 @@ interface UserDetail {
   startCost: number;
   endCost: number;
   deltaCost: number;
+  models: Array<{
+    model: string;
+    cost: number;
+    tokens: number;
+    requests: number;
+  }> | null;
+  keyCount: number;
   raw: {
     start: any;
     end: any;
   };
+  budget: {
+    amount: number;
+    spent: number;
+  } | null;
 }
 
 interface UserDetailCardProps {
-  periodIndex: number;
-  apiKey: string;
+  periodId: string;
   userId: string;
 }
 
-export function UserDetailCard({ periodIndex, apiKey, userId }: UserDetailCardProps) {
+export function UserDetailCard({ periodId, userId }: UserDetailCardProps) {
   const [userDetail, setUserDetail] = useState<UserDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
@@ -26,18 +38,14 @@ export function UserDetailCard({ periodIndex, apiKey, userId }: UserDetailCardPr
 
   useEffect(() => {
     fetchUserDetail();
-  }, [periodIndex]);
+  }, [periodId]);
 
   const fetchUserDetail = async () => {
     setIsLoading(true);
     setError('');
 
     try {
-      const response = await fetch(`/api/periods/${periodIndex}/me`, {
-        headers: {
-          'X-API-Key': apiKey,
-        },
-      });
+      const response = await fetch(`/api/periods/${periodId}/me`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -114,7 +122,12 @@ export function UserDetailCard({ periodIndex, apiKey, userId }: UserDetailCardPr
   return (
     <div className="bg-card p-6 rounded-lg shadow-sm border border-border">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-medium text-card-foreground">Your Usage Details</h3>
+        <div>
+          <h3 className="text-lg font-medium text-card-foreground">Your Usage Details</h3>
+          {userDetail.keyCount > 1 && (
+            <p className="text-sm text-muted-foreground">Combined across your {userDetail.keyCount} keys</p>
+          )}
+        </div>
         <button
           onClick={() => setShowRawData(!showRawData)}
           className="text-sm text-muted-foreground hover:text-card-foreground transition-colors"
@@ -139,6 +152,13 @@ export function UserDetailCard({ periodIndex, apiKey, userId }: UserDetailCardPr
         </div>
       </div>
 
+      {/* Budget */}
+      {userDetail.budget && (
+        <div className="mb-6">
+          <BudgetProgressBar spent={userDetail.budget.spent} amount={userDetail.budget.amount} label="Your Budget" />
+        </div>
+      )}
+
       {/* Usage Metrics */}
       {endUsage && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
@@ -181,6 +201,45 @@ export function UserDetailCard({ periodIndex, apiKey, userId }: UserDetailCardPr
         </div>
       )}
 
+      {/* Model Breakdown */}
+      {userDetail.models && userDetail.models.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-card-foreground mb-2">Cost by Model</h4>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground uppercase tracking-wider">
+                <th className="py-2 text-left font-medium">Model</th>
+                <th className="py-2 text-right font-medium">Cost</th>
+                <th className="py-2 text-right font-medium">Share</th>
+                <th className="py-2 text-right font-medium">Requests</th>
+                <th className="py-2 text-right font-medium">Tokens</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {userDetail.models.map(model => (
+                <tr key={model.model}>
+                  <td className="py-2 text-card-foreground">{model.model}</td>
+                  <td className="py-2 text-right text-card-foreground">{formatCurrency(model.cost)}</td>
+                  <td className="py-2 text-right text-muted-foreground">
+                    {userDetail.deltaCost > 0 ? `${((model.cost / userDetail.deltaCost) * 100).toFixed(1)}%` : '-'}
+                  </td>
+                  <td className="py-2 text-right text-muted-foreground">{formatNumber(model.requests)}</td>
+                  <td className="py-2 text-right text-muted-foreground">{formatNumber(model.tokens)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Cumulative Cost */}
+      <CumulativeCostChart
+        periodId={periodId}
+        title="Your Cumulative Cost"
+        onlyMe
+        embedded
+      />
+
       {/* Raw Data */}
       {showRawData && (
         <div className="space-y-4">
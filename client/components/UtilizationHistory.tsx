@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+
+interface UtilizationPoint {
+  at: string;
+  max: number;
+  avg: number;
+}
+
+interface UtilizationWindow {
+  key: string;
+  label: string;
+  points: UtilizationPoint[];
+  resets: string[];
+}
+
+interface AccountUtilization {
+  accountId: string;
+  platform: string;
+  from: string;
+  to: string;
+  days: number;
+  windows: UtilizationWindow[];
+}
+
+interface UtilizationHistoryProps {
+  accountId: string;
+}
+
+const RANGES = [7, 14, 30] as const;
+const HOUR_MS = 60 * 60 * 1000;
+// Hours whose peak reaches this are counted as hitting the limit
+const LIMIT_PERCENT = 95;
+
+export function UtilizationHistory({ accountId }: UtilizationHistoryProps) {
+  const [days, setDays] = useState<number>(7);
+  const [utilization, setUtilization] = useState<AccountUtilization | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    fetchUtilization();
+  }, [accountId, days]);
+
+  const fetchUtilization = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/ai-accounts/${encodeURIComponent(accountId)}/utilization?days=${days}`);
+
+      if (response.status === 404) {
+        setUtilization(null);
+        setError('');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch utilization history');
+      }
+
+      setUtilization(await response.json());
+      setError('');
+    } catch (err) {
+      console.error('Error fetching utilization history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load utilization history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getHourOfDay = (dateString: string) => {
+    return parseInt(new Date(dateString).toLocaleString('en-US', { timeZone: 'Asia/Shanghai', hour: 'numeric', hourCycle: 'h23' }));
+  };
+
+  // Average hourly peak per hour of day, and the number of days that hour hit the limit
+  const getHourProfile = (points: UtilizationPoint[]) => {
+    const hours = Array.from({ length: 24 }, () => ({ total: 0, count: 0, limited: 0 }));
+    for (const point of points) {
+      const hour = hours[getHourOfDay(point.at)]!;
+      hour.total += point.max;
+      hour.count += 1;
+      if (point.max >= LIMIT_PERCENT) hour.limited += 1;
+    }
+    return hours.map(hour => ({ avg: hour.count > 0 ? hour.total / hour.count : null, limited: hour.limited }));
+  };
+
+  const renderSparkline = (usageWindow: UtilizationWindow, from: number, span: number) => {
+    const x = (time: number) => ((time - from) / span) * 100;
+    const y = (percent: number) => 30 - (Math.min(100, percent) / 100) * 30;
+    const path = usageWindow.points
+      .map((point, i) => {
+        const time = Date.parse(point.at);
+        const previous = usageWindow.points[i - 1];
+        // Break the line over gaps in the readings
+        const move = !previous || time - Date.parse(previous.at) > HOUR_MS;
+        return `${move ? 'M' : 'L'}${x(time + HOUR_MS / 2).toFixed(2)},${y(point.max).toFixed(2)}`;
+      })
+      .join(' ');
+
+    return (
+      <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-10 bg-muted rounded">
+        {usageWindow.resets.map(reset => (
+          <line
+            key={reset}
+            x1={x(Date.parse(reset))}
+            x2={x(Date.parse(reset))}
+            y1={0}
+            y2={30}
+            stroke="var(--color-chart-2)"
+            strokeWidth={1}
+            strokeDasharray="2 2"
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>Reset at {formatDate(reset)}</title>
+          </line>
+        ))}
+        <path d={path} fill="none" stroke="var(--color-chart-1)" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+    );
+  };
+
+  if (isLoading && !utilization) {
+    return <div className="py-4 text-center text-xs text-muted-foreground">Loading utilization history...</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="py-4 text-center text-xs">
+        <span className="text-destructive">{error}</span>
+        <button onClick={fetchUtilization} className="ml-2 text-primary hover:underline">Retry</button>
+      </div>
+    );
+  }
+
+  const from = utilization ? Date.parse(utilization.from) : 0;
+  const span = utilization ? Date.parse(utilization.to) - from : 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          Hourly peak utilization · dashed lines mark usageWindow resets · hours are Asia/Shanghai
+        </span>
+        <div className="flex items-center gap-1">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                days === range
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+              }`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!utilization || utilization.windows.length === 0 ? (
+        <div className="py-2 text-center text-xs text-muted-foreground">No utilization readings recorded yet</div>
+      ) : (
+        utilization.windows.map(usageWindow => {
+          const profile = getHourProfile(usageWindow.points);
+          return (
+            <div key={usageWindow.key}>
+              <div className="text-xs font-medium text-card-foreground mb-1">{usageWindow.label}</div>
+              {renderSparkline(usageWindow, from, span)}
+              <div className="flex justify-between text-[10px] text-muted-foreground mt-0.5">
+                <span>{formatDate(utilization.from)}</span>
+                <span>now</span>
+              </div>
+              <div className="mt-2 grid grid-cols-[repeat(24,minmax(0,1fr))] gap-px">
+                {profile.map((hour, index) => (
+                  <div
+                    key={index}
+                    className={`h-4 rounded-sm ${hour.avg === null ? 'bg-muted' : 'bg-chart-2'}`}
+                    style={hour.avg === null ? undefined : { opacity: Math.max(0.1, hour.avg / 100) }}
+                    title={hour.avg === null
+                      ? `${index}:00 · no data`
+                      : `${index}:00 · average peak ${hour.avg.toFixed(0)}% · at ${LIMIT_PERCENT}%+ on ${hour.limited} day(s)`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-muted-foreground mt-0.5">
+                <span>0:00</span>
+                <span>12:00</span>
+                <span>23:00</span>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState, useEffect } from 'react';
+
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  format: string;
+  events: string[] | '*';
+  hasSecret: boolean;
+  enabled: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: string;
+  title: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  'period.closed': 'Period closed',
+  'budget.threshold': 'Budget thresholds',
+  'account.status': 'AI account status',
+};
+
+export function WebhookAdmin() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [formats, setFormats] = useState<string[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [format, setFormat] = useState('generic');
+  const [secret, setSecret] = useState('');
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchWebhooks();
+    fetchDeliveries();
+  }, []);
+
+  const fetchWebhooks = async () => {
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/webhooks');
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch webhooks: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setWebhooks(data.webhooks || []);
+      setFormats(data.formats || []);
+      setEvents(data.events || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/admin/webhook-deliveries?limit=50');
+
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+      }
+    } catch (err) {
+      console.error('Failed to load webhook deliveries:', err);
+    }
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    const data = await response.json().catch(() => null);
+    return data?.error || `${fallback}: ${response.status}`;
+  };
+
+  const createWebhook = async () => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/webhooks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          url,
+          format,
+          events: selectedEvents.length === 0 ? '*' : selectedEvents,
+          secret: secret || null,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create webhook'));
+      }
+
+      setName('');
+      setUrl('');
+      setSecret('');
+      setSelectedEvents([]);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleWebhook = async (webhook: Webhook) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: webhook.name,
+          url: webhook.url,
+          format: webhook.format,
+          events: webhook.events,
+          enabled: !webhook.enabled,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update webhook'));
+      }
+
+      await fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const testWebhook = async (id: number) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${id}/test`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to send test'));
+      }
+
+      // Give the first attempt a moment before refreshing the log
+      setTimeout(fetchDeliveries, 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test');
+    }
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) return;
+
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete webhook'));
+      }
+
+      await fetchWebhooks();
+      await fetchDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  };
+
+  const toggleEvent = (event: string) => {
+    setSelectedEvents(selectedEvents.includes(event)
+      ? selectedEvents.filter(e => e !== event)
+      : [...selectedEvents, event]);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    const date = new Date(dateString);
+    return date.toLocaleString('zh-CN', {
+      timeZone: 'Asia/Shanghai',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  };
+
+  const getStatusBadge = (status: WebhookDelivery['status']) => {
+    const styles = {
+      delivered: 'bg-chart-2/20 text-chart-2',
+      pending: 'bg-muted text-muted-foreground',
+      failed: 'bg-destructive/20 text-destructive',
+    };
+    return (
+      <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${styles[status]}`}>
+        {status}
+      </span>
+    );
+  };
+
+  const webhookName = (id: number) => webhooks.find(w => w.id === id)?.name ?? `#${id}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        <div className="px-6 py-4 border-b border-border">
+          <h3 className="text-lg font-medium text-card-foreground">Webhooks</h3>
+          <p className="text-sm text-muted-foreground">Post period summaries, budget alerts and AI account changes to chat.</p>
+        </div>
+
+        <div className="px-6 py-4 border-b border-border space-y-3">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="sm:w-40 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              disabled={isSaving}
+            />
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://..."
+              className="flex-1 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              disabled={isSaving}
+            />
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              className="px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              disabled={isSaving}
+            >
+              {formats.map((f) => (
+                <option key={f} value={f}>{f}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder="Signing secret (generic/Feishu/DingTalk, optional)"
+              className="sm:w-72 px-3 py-2 border border-border rounded-md text-sm bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              disabled={isSaving}
+            />
+            <div className="flex flex-wrap gap-3 flex-1">
+              {events.map((event) => (
+                <label key={event} className="flex items-center gap-1 text-sm text-card-foreground">
+                  <input
+                    type="checkbox"
+                    checked={selectedEvents.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    disabled={isSaving}
+                  />
+                  {EVENT_LABELS[event] ?? event}
+                </label>
+              ))}
+              <span className="text-xs text-muted-foreground self-center">None selected = all events</span>
+            </div>
+            <button
+              onClick={createWebhook}
+              disabled={isSaving || !name || !url}
+              className="bg-primary text-primary-foreground px-4 py-2 rounded-md text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Adding...' : 'Add Webhook'}
+            </button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading webhooks...</div>
+        ) : webhooks.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No webhooks configured</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Format</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Events</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {webhooks.map((webhook) => (
+                  <tr key={webhook.id} className="hover:bg-muted/50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-card-foreground">
+                      <div className="font-medium">{webhook.name}</div>
+                      <div className="text-xs text-muted-foreground truncate max-w-[280px]" title={webhook.url}>{webhook.url}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">
+                      {webhook.format}{webhook.hasSecret && ' · signed'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-muted-foreground">
+                      {webhook.events === '*' ? 'All events' : webhook.events.map(e => EVENT_LABELS[e] ?? e).join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => toggleWebhook(webhook)}
+                        className={webhook.enabled ? 'text-primary hover:underline' : 'text-muted-foreground hover:underline'}
+                      >
+                        {webhook.enabled ? 'Enabled' : 'Disabled'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                      <button onClick={() => testWebhook(webhook.id)} className="text-sm text-primary hover:underline">Test</button>
+                      <button onClick={() => deleteWebhook(webhook)} className="text-sm text-destructive hover:underline">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+          <h3 className="text-lg font-medium text-card-foreground">Delivery Log</h3>
+          <button
+            onClick={fetchDeliveries}
+            className="px-3 py-1.5 text-sm bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No deliveries yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Created</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Webhook</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Message</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Attempts</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Last Error</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="hover:bg-muted/50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">{formatDate(delivery.createdAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-card-foreground">{webhookName(delivery.webhookId)}</td>
+                    <td className="px-6 py-4 text-sm text-card-foreground">{delivery.title}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {getStatusBadge(delivery.status)}
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">Retry {formatDate(delivery.nextAttemptAt)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-card-foreground">{delivery.attempts}</td>
+                    <td className="px-6 py-4 text-sm text-muted-foreground max-w-[280px] truncate" title={delivery.lastError ?? ''}>
+                      {delivery.lastError || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
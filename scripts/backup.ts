@@ -0,0 +1,19 @@
+import { backupService } from '../server/backup-service';
+
+function backupDatabase() {
+  console.log('Backing up the database...');
+
+  try {
+    const { path, pruned } = backupService.backup();
+    console.log(`✅ Backup written to ${path}`);
+    for (const name of pruned) {
+      console.log(`Removed old backup ${name}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to back up the database:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+backupDatabase();
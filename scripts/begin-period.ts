@@ -1,33 +1,29 @@
-import { apiClient } from '../server/api-client';
-import { db } from '../server/database';
+import { snapshotService } from '../server/snapshot-service';
+import { webhookDispatcher } from '../server/webhooks';
 
 async function beginNewPeriod() {
   console.log('Starting new billing period...');
 
   try {
-    // Fetch current costs from the API
-    console.log('Fetching current costs from API...');
-    const currentCosts = await apiClient.getCurrentCosts();
-    console.log(`Retrieved data for ${currentCosts.length} users`);
-
-    // Insert snapshot into database
-    console.log('Creating billing snapshot...');
-    const snapshotId = db.insertSnapshot(JSON.stringify(currentCosts));
-    console.log(`Created snapshot with ID: ${snapshotId}`);
-
-    // Display summary
-    const totalCost = currentCosts.reduce((sum, user) => {
-      return sum + (user.usage?.total?.cost || 0);
-    }, 0);
+    // Fetch current costs from the API and store them as a snapshot
+    console.log('Fetching current costs from API and creating billing snapshot...');
+    const snapshot = await snapshotService.createSnapshot({ schedule: 'manual' });
+    console.log(`Created snapshot with ID: ${snapshot.id}`);
 
     console.log('\n=== New Billing Period Started ===');
-    console.log(`Snapshot ID: ${snapshotId}`);
-    console.log(`Timestamp: ${new Date().toISOString()}`);
-    console.log(`Users: ${currentCosts.length}`);
-    console.log(`Total Cost at Snapshot: $${totalCost.toFixed(2)}`);
+    console.log(`Snapshot ID: ${snapshot.id}`);
+    console.log(`Timestamp: ${snapshot.createdAt}`);
+    console.log(`Users: ${snapshot.userCount}`);
+    console.log(`Total Cost at Snapshot: $${snapshot.totalCost.toFixed(2)}`);
     console.log('====================================\n');
 
     console.log('✅ New billing period created successfully!');
+
+    // Failed deliveries stay queued and are retried by the running server
+    const attempted = await webhookDispatcher.processDue();
+    if (attempted > 0) {
+      console.log(`Attempted to post the period summary to ${attempted} webhook(s)`);
+    }
     
   } catch (error) {
     console.error('❌ Failed to create new billing period:');
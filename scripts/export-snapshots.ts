@@ -0,0 +1,23 @@
+import { exportSnapshots } from '../server/snapshot-archive';
+
+async function exportArchive() {
+  const target = process.argv[2];
+
+  try {
+    const archive = exportSnapshots();
+    const json = JSON.stringify(archive, null, 2);
+
+    if (target) {
+      await Bun.write(target, json);
+      console.log(`✅ Exported ${archive.snapshots.length} snapshot(s) to ${target}`);
+    } else {
+      process.stdout.write(json + '\n');
+    }
+  } catch (error) {
+    console.error('❌ Failed to export snapshots:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+exportArchive();
@@ -0,0 +1,29 @@
+import { importSnapshots } from '../server/snapshot-archive';
+
+async function importArchive() {
+  const source = process.argv[2];
+
+  if (!source) {
+    console.error('Usage: bun run import-snapshots <archive.json>');
+    process.exit(1);
+  }
+
+  try {
+    const archive = await Bun.file(source).json();
+    const result = importSnapshots(archive);
+
+    console.log(`Imported: ${result.imported}`);
+    console.log(`Already present: ${result.duplicates}`);
+    for (const conflict of result.conflicts) {
+      console.log(`Skipped snapshot taken at ${conflict.createdAt}: ${conflict.reason}`);
+    }
+
+    console.log(result.conflicts.length > 0 ? '⚠️  Import finished with conflicts' : '✅ Import finished');
+  } catch (error) {
+    console.error('❌ Failed to import snapshots:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+importArchive();
@@ -0,0 +1,49 @@
+import { Database } from 'bun:sqlite';
+import { existsSync } from 'node:fs';
+import { Migrator } from '../server/migrations';
+
+// Opens the database directly: importing server/database would apply the migrations on load
+function migrate() {
+  const dryRun = process.argv.includes('--dry-run');
+  const dbPath = process.env.DATABASE_URL || './app.db';
+
+  try {
+    // A dry run must not change the database, not even create it
+    const database = !dryRun ? new Database(dbPath)
+      : existsSync(dbPath) ? new Database(dbPath, { readonly: true })
+      : new Database(':memory:');
+    const migrator = new Migrator(database, dbPath);
+    const current = migrator.currentVersion();
+    const pending = migrator.pending();
+
+    console.log(`Database: ${dbPath} (schema version ${current})`);
+
+    if (pending.length === 0) {
+      console.log('✅ Schema is up to date');
+      return;
+    }
+
+    if (dryRun) {
+      console.log(`${pending.length} migration(s) would be applied:`);
+      for (const migration of pending) {
+        console.log(`  ${migration.version} ${migration.name}`);
+      }
+      return;
+    }
+
+    const { applied, backupPath } = migrator.run();
+    for (const migration of applied) {
+      console.log(`  applied ${migration.version} ${migration.name}`);
+    }
+    if (backupPath) {
+      console.log(`Backup of the previous database: ${backupPath}`);
+    }
+    console.log(`✅ Migrated to schema version ${migrator.currentVersion()}`);
+  } catch (error) {
+    console.error('❌ Migration failed:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+migrate();
@@ -0,0 +1,16 @@
+import { billingCalculator } from '../server/billing-calculator';
+
+async function rebuildPeriodSummaries() {
+  console.log('Rebuilding closed period summaries from billing snapshots...');
+
+  try {
+    const count = await billingCalculator.rebuildPeriodSummaries();
+    console.log(`✅ Rebuilt ${count} period summar${count === 1 ? 'y' : 'ies'}`);
+  } catch (error) {
+    console.error('❌ Failed to rebuild period summaries:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+rebuildPeriodSummaries();
@@ -0,0 +1,74 @@
+import { Database } from 'bun:sqlite';
+import { copyFileSync, existsSync, readFileSync, unlinkSync } from 'node:fs';
+
+// The process that has the database open, from the PID file the server keeps next to it
+function openedBy(dbPath: string): number | null {
+  const pidPath = `${dbPath}.pid`;
+  if (!existsSync(pidPath)) return null;
+
+  const pid = Number(readFileSync(pidPath, 'utf8').trim());
+  if (!Number.isInteger(pid) || pid <= 0) return null;
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user; ESRCH: it's gone and the file is stale
+    return (error as NodeJS.ErrnoException).code === 'EPERM' ? pid : null;
+  }
+}
+
+// Works on the files directly: importing server/database would open (and migrate) the live database
+function restoreDatabase() {
+  const source = process.argv[2];
+  const dbPath = process.env.DATABASE_URL || './app.db';
+
+  if (!source) {
+    console.error('Usage: bun run restore <backup file>');
+    process.exit(1);
+  }
+
+  try {
+    const backup = new Database(source, { readonly: true });
+    const check = backup.prepare('PRAGMA integrity_check').get() as { integrity_check: string };
+    const hasSnapshots = backup.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'billing_snapshots'
+    `).get();
+    backup.close();
+
+    if (check.integrity_check !== 'ok') {
+      throw new Error(`${source} failed the integrity check: ${check.integrity_check}`);
+    }
+    if (!hasSnapshots) {
+      throw new Error(`${source} is not a dashboard database`);
+    }
+
+    const user = openedBy(dbPath);
+    if (user) {
+      throw new Error(`${dbPath} is open in process ${user}; stop the server before restoring`);
+    }
+
+    if (existsSync(dbPath)) {
+      // VACUUM INTO copies through SQLite, so it includes a write-ahead log that a file copy would miss
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const previous = `${dbPath}.pre-restore-${stamp}.bak`;
+      const current = new Database(dbPath);
+      current.run('VACUUM INTO ?', [previous]);
+      current.close();
+      console.log(`Current database saved to ${previous}`);
+    }
+
+    copyFileSync(source, dbPath);
+    // A stale write-ahead log would be replayed over the restored file
+    for (const suffix of ['-wal', '-shm']) {
+      if (existsSync(dbPath + suffix)) unlinkSync(dbPath + suffix);
+    }
+
+    console.log(`✅ Restored ${dbPath} from ${source}`);
+  } catch (error) {
+    console.error('❌ Failed to restore the database:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+restoreDatabase();
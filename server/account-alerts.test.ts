@@ -0,0 +1,159 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { AccountReadingRecord } from './database';
+import { alertNotifier } from './alert-notifier';
+import {
+  AccountAlertWatcher,
+  DEFAULT_ACCOUNT_ALERT_RULES,
+  formatDuration,
+  parseAlertRule,
+  parseAlertRuleList,
+  type AccountObservation,
+} from './account-alerts';
+
+describe('parseAlertRule', () => {
+  test('reads status rules with a duration', () => {
+    expect(parseAlertRule('down', ' status != active for 5m ')).toEqual({
+      name: 'down',
+      source: 'status != active for 5m',
+      metric: 'status',
+      operator: '!=',
+      value: 'active',
+      forMs: 5 * 60 * 1000,
+    });
+  });
+
+  test('reads utilization rules without a duration', () => {
+    expect(parseAlertRule('hot', 'fiveHour>=90')).toMatchObject({ metric: 'fiveHour', operator: '>=', value: '90', forMs: 0 });
+    expect(parseAlertRule('week', 'secondary > 75.5 for 2h')).toMatchObject({ metric: 'secondary', operator: '>', forMs: 2 * 60 * 60 * 1000 });
+  });
+
+  test('rejects malformed rules and comparisons that cannot hold', () => {
+    expect(() => parseAlertRule('a', 'fiveHour is high')).toThrow('Invalid alert rule "a"');
+    expect(() => parseAlertRule('a', 'status > active')).toThrow('can only compare status with = or !=');
+    expect(() => parseAlertRule('a', 'schedulable = maybe')).toThrow('must compare schedulable with true or false');
+    expect(() => parseAlertRule('a', 'tenHour >= 90')).toThrow('Unknown metric "tenHour"');
+    expect(() => parseAlertRule('a', 'fiveHour >= lots')).toThrow('must compare fiveHour with a number');
+  });
+});
+
+describe('parseAlertRuleList', () => {
+  test('reads the default rules', () => {
+    expect(parseAlertRuleList(DEFAULT_ACCOUNT_ALERT_RULES).map(rule => rule.name)).toEqual(['down', 'unschedulable', 'five-hour', 'codex-five-hour']);
+  });
+
+  test('rejects entries without a name and duplicate names', () => {
+    expect(() => parseAlertRuleList('=fiveHour >= 90')).toThrow('expected "name=expression"');
+    expect(() => parseAlertRuleList('a=fiveHour >= 90; a=sevenDay >= 90')).toThrow('Duplicate alert rule name "a"');
+  });
+
+  test('reads an empty list as no rules', () => {
+    expect(parseAlertRuleList(' ; ')).toEqual([]);
+  });
+});
+
+describe('formatDuration', () => {
+  test('rounds to minutes, showing hours past the first', () => {
+    expect(formatDuration(10 * 1000)).toBe('1 min');
+    expect(formatDuration(59 * 60 * 1000)).toBe('59 min');
+    expect(formatDuration(125 * 60 * 1000)).toBe('2h 5m');
+  });
+});
+
+describe('AccountAlertWatcher', () => {
+  const send = spyOn(alertNotifier, 'send').mockResolvedValue(undefined);
+  const minute = (n: number) => new Date(Date.UTC(2026, 0, 1, 0, n)).toISOString();
+  const sent = () => send.mock.calls.map(([alert]) => `${(alert.data as { state: string }).state}: ${alert.title}`);
+
+  function observe(accountId: string, status: string, fiveHour: number | null = null): AccountObservation {
+    const reading = {
+      account_id: accountId,
+      platform: 'claude',
+      checked_at: '',
+      status,
+      schedulable: 1,
+      five_hour: fiveHour,
+    } as AccountReadingRecord;
+    const state = {
+      account_id: accountId,
+      platform: 'claude',
+      name: `Account ${accountId}`,
+      status,
+      schedulable: 1,
+      stopped_reason: null,
+      changed_at: '',
+      checked_at: '',
+    };
+    return { state, reading };
+  }
+
+  beforeEach(async () => {
+    // A watcher without rules resolves whatever an earlier test left open
+    await new AccountAlertWatcher([]).evaluate([], minute(0));
+    send.mockClear();
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+  });
+
+  test('fires once the condition has held for the duration, and once more when it clears', async () => {
+    const watcher = new AccountAlertWatcher([parseAlertRule('down', 'status != active for 5m')]);
+
+    await watcher.evaluate([observe('a1', 'error')], minute(0));
+    await watcher.evaluate([observe('a1', 'error')], minute(4));
+    expect(sent()).toEqual([]);
+
+    await watcher.evaluate([observe('a1', 'error')], minute(5));
+    await watcher.evaluate([observe('a1', 'error')], minute(6));
+    expect(sent()).toEqual(['firing: Alert "down" on Claude account "Account a1"']);
+
+    await watcher.evaluate([observe('a1', 'active')], minute(9));
+    expect(sent()).toEqual([
+      'firing: Alert "down" on Claude account "Account a1"',
+      'resolved: Resolved "down" on Claude account "Account a1"',
+    ]);
+    expect(send.mock.calls[1]![0].lines).toContain('Lasted 9 min.');
+  });
+
+  test('stays quiet when the condition clears before its duration', async () => {
+    const watcher = new AccountAlertWatcher([parseAlertRule('down', 'status != active for 5m')]);
+
+    await watcher.evaluate([observe('a2', 'error')], minute(0));
+    await watcher.evaluate([observe('a2', 'active')], minute(3));
+    await watcher.evaluate([observe('a2', 'error')], minute(4));
+    await watcher.evaluate([observe('a2', 'error')], minute(8));
+
+    // The condition restarted at minute 4, so it has held for 4 minutes, not 8
+    expect(sent()).toEqual([]);
+  });
+
+  test('fires rules without a duration on the first matching check', async () => {
+    const watcher = new AccountAlertWatcher([parseAlertRule('hot', 'fiveHour >= 90')]);
+
+    await watcher.evaluate([observe('a3', 'active', 85)], minute(0));
+    await watcher.evaluate([observe('a3', 'active', 92)], minute(1));
+    await watcher.evaluate([observe('a3', 'active', 97)], minute(2));
+
+    expect(sent()).toEqual(['firing: Alert "hot" on Claude account "Account a3"']);
+    expect(send.mock.calls[0]![0].lines).toContain('Now: 5h window at 92%');
+  });
+
+  test('never matches a metric the account does not report', async () => {
+    const watcher = new AccountAlertWatcher([parseAlertRule('hot', 'fiveHour >= 90')]);
+    await watcher.evaluate([observe('a4', 'active', null)], minute(0));
+    expect(sent()).toEqual([]);
+  });
+
+  test('resolves alerts of accounts that are no longer reported', async () => {
+    const watcher = new AccountAlertWatcher([parseAlertRule('hot', 'fiveHour >= 90')]);
+
+    await watcher.evaluate([observe('a5', 'active', 95)], minute(0));
+    await watcher.evaluate([], minute(1));
+
+    expect(sent()).toEqual([
+      'firing: Alert "hot" on Claude account "Account a5"',
+      'resolved: Resolved "hot" on Claude account "Account a5"',
+    ]);
+    expect(send.mock.calls[1]![0].lines).toContain('Recovered: account no longer reported');
+  });
+});
@@ -0,0 +1,271 @@
+import { db, type AccountAlertRecord, type AccountReadingRecord, type AccountStateRecord } from './database';
+import { alertNotifier } from './alert-notifier';
+
+type UtilizationMetric = 'fiveHour' | 'sevenDay' | 'sevenDayOpus' | 'primary' | 'secondary';
+type Operator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export interface AccountAlertRule {
+  name: string;
+  source: string;
+  metric: 'status' | 'schedulable' | UtilizationMetric;
+  operator: Operator;
+  value: string;
+  forMs: number;
+}
+
+export interface AccountObservation {
+  state: AccountStateRecord;
+  reading: AccountReadingRecord;
+}
+
+export interface AccountAlert {
+  id: number;
+  rule: string;
+  condition: string | null;
+  accountId: string;
+  platform: string;
+  name: string;
+  detail: string;
+  since: string;
+  firedAt: string;
+  resolvedAt: string | null;
+}
+
+const UTILIZATION_COLUMNS: Record<UtilizationMetric, { column: keyof AccountReadingRecord; label: string }> = {
+  fiveHour: { column: 'five_hour', label: '5h window' },
+  sevenDay: { column: 'seven_day', label: '7d window' },
+  sevenDayOpus: { column: 'seven_day_opus', label: 'Opus window' },
+  primary: { column: 'codex_primary', label: 'Codex 5h window' },
+  secondary: { column: 'codex_secondary', label: 'Codex 7d window' },
+};
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+const RULE_PATTERN = /^(\w+)\s*(>=|<=|!=|>|<|=)\s*(\S+)(?:\s+for\s+(\d+)([smhd]))?$/;
+
+export const DEFAULT_ACCOUNT_ALERT_RULES =
+  'down=status != active for 5m; unschedulable=schedulable = false for 5m; five-hour=fiveHour >= 90; codex-five-hour=primary >= 90';
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Parses one rule expression: a metric, an operator, a value and an optional
+ * duration the condition must hold, e.g. `status != active for 5m` or
+ * `fiveHour >= 90`.
+ */
+export function parseAlertRule(name: string, source: string): AccountAlertRule {
+  const match = source.trim().match(RULE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid alert rule "${name}": expected e.g. "fiveHour >= 90" or "status != active for 5m"`);
+  }
+
+  const [, metric = '', rawOperator, value = '', amount, unit] = match;
+  const operator = rawOperator as Operator;
+  const forMs = amount && unit ? parseInt(amount) * DURATION_UNITS_MS[unit]! : 0;
+
+  if (metric === 'status' || metric === 'schedulable') {
+    if (operator !== '=' && operator !== '!=') {
+      throw new Error(`Alert rule "${name}" can only compare ${metric} with = or !=`);
+    }
+    if (metric === 'schedulable' && value !== 'true' && value !== 'false') {
+      throw new Error(`Alert rule "${name}" must compare schedulable with true or false`);
+    }
+    return { name, source: source.trim(), metric, operator, value, forMs };
+  }
+
+  if (!(metric in UTILIZATION_COLUMNS)) {
+    throw new Error(`Unknown metric "${metric}" in alert rule "${name}", expected status, schedulable or one of: ${Object.keys(UTILIZATION_COLUMNS).join(', ')}`);
+  }
+  if (!Number.isFinite(parseFloat(value))) {
+    throw new Error(`Alert rule "${name}" must compare ${metric} with a number`);
+  }
+  return { name, source: source.trim(), metric: metric as UtilizationMetric, operator, value, forMs };
+}
+
+// Same `name=expression; ...` format as SNAPSHOT_SCHEDULES
+export function parseAlertRuleList(source: string): AccountAlertRule[] {
+  const rules: AccountAlertRule[] = [];
+
+  for (const entry of source.split(';')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid alert rule "${entry.trim()}", expected "name=expression"`);
+    }
+
+    const name = entry.slice(0, separator).trim();
+    if (rules.some(rule => rule.name === name)) {
+      throw new Error(`Duplicate alert rule name "${name}"`);
+    }
+    rules.push(parseAlertRule(name, entry.slice(separator + 1)));
+  }
+
+  return rules;
+}
+
+function compare(actual: number | string, operator: Operator, expected: number | string): boolean {
+  switch (operator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+// Whether the account currently meets the rule's condition, and what it looks like
+function check(rule: AccountAlertRule, { state, reading }: AccountObservation): { matches: boolean; detail: string } {
+  if (rule.metric === 'status') {
+    const detail = `status is ${state.status}${state.stopped_reason ? ` (${state.stopped_reason})` : ''}`;
+    return { matches: compare(state.status, rule.operator, rule.value), detail };
+  }
+
+  if (rule.metric === 'schedulable') {
+    // Accounts that don't report schedulability never match
+    if (state.schedulable === null) return { matches: false, detail: 'schedulability unknown' };
+    const schedulable = state.schedulable === 1;
+    const detail = schedulable ? 'schedulable' : `not schedulable${state.stopped_reason ? ` (${state.stopped_reason})` : ''}`;
+    return { matches: compare(String(schedulable), rule.operator, rule.value), detail };
+  }
+
+  const { column, label } = UTILIZATION_COLUMNS[rule.metric];
+  const value = reading[column] as number | null;
+  if (value === null) return { matches: false, detail: `${label} not reported` };
+  return { matches: compare(value, rule.operator, parseFloat(rule.value)), detail: `${label} at ${value}%` };
+}
+
+/**
+ * Evaluates alert rules against every account poll. A rule fires once its
+ * condition has held for the rule's duration, stays quiet while it keeps
+ * holding, and sends a recovery notice when it clears. Open alerts are stored,
+ * so restarts neither repeat nor lose them.
+ */
+export class AccountAlertWatcher {
+  private readonly recentMs = 60 * 60 * 1000;
+
+  constructor(private readonly rules: AccountAlertRule[]) {}
+
+  async evaluate(observations: AccountObservation[], checkedAt: string): Promise<void> {
+    const now = Date.parse(checkedAt);
+    const open = new Map(db.getOpenAccountAlerts().map(alert => [`${alert.rule}\0${alert.account_id}`, alert]));
+
+    for (const observation of observations) {
+      for (const rule of this.rules) {
+        const key = `${rule.name}\0${observation.state.account_id}`;
+        const existing = open.get(key);
+        open.delete(key);
+
+        const { matches, detail } = check(rule, observation);
+        const name = observation.state.name;
+
+        if (matches && !existing) {
+          const alert: Omit<AccountAlertRecord, 'id'> = {
+            rule: rule.name,
+            account_id: observation.state.account_id,
+            platform: observation.state.platform,
+            name,
+            detail,
+            condition_since: checkedAt,
+            fired_at: rule.forMs === 0 ? checkedAt : null,
+            resolved_at: null,
+          };
+          db.insertAccountAlert(alert);
+          if (alert.fired_at) {
+            await this.announce(rule, alert, 'firing');
+          }
+        } else if (matches && existing) {
+          const fires = !existing.fired_at && now - Date.parse(existing.condition_since) >= rule.forMs;
+          if (fires || existing.detail !== detail || existing.name !== name) {
+            const updated = { ...existing, name, detail, fired_at: fires ? checkedAt : existing.fired_at };
+            db.updateAccountAlert(existing.id, updated);
+            if (fires) {
+              await this.announce(rule, updated, 'firing');
+            }
+          }
+        } else if (existing) {
+          await this.resolve(existing, rule, detail, checkedAt);
+        }
+      }
+    }
+
+    // Accounts that left the relay and rules that were removed from the configuration
+    for (const alert of open.values()) {
+      const rule = this.rules.find(r => r.name === alert.rule);
+      await this.resolve(alert, rule, rule ? 'account no longer reported' : alert.detail, checkedAt);
+    }
+  }
+
+  private async resolve(alert: AccountAlertRecord, rule: AccountAlertRule | undefined, detail: string, resolvedAt: string) {
+    // A condition that cleared before its duration was never announced
+    if (!alert.fired_at) {
+      db.deleteAccountAlert(alert.id);
+      return;
+    }
+
+    const resolved = { ...alert, detail, resolved_at: resolvedAt };
+    db.updateAccountAlert(alert.id, resolved);
+    if (rule) {
+      await this.announce(rule, resolved, 'resolved');
+    }
+  }
+
+  private async announce(rule: AccountAlertRule, alert: Omit<AccountAlertRecord, 'id'>, state: 'firing' | 'resolved') {
+    const platform = alert.platform === 'openai' ? 'OpenAI' : 'Claude';
+    const subject = `"${rule.name}" on ${platform} account "${alert.name}"`;
+    const lastedMs = Date.parse(alert.resolved_at ?? alert.fired_at!) - Date.parse(alert.condition_since);
+
+    await alertNotifier.send({
+      type: 'account.alert',
+      title: state === 'firing' ? `Alert ${subject}` : `Resolved ${subject}`,
+      lines: [
+        `Condition: ${rule.source}`,
+        state === 'firing' ? `Now: ${alert.detail}` : `Recovered: ${alert.detail}`,
+        state === 'firing'
+          ? (rule.forMs > 0 ? `Held for ${formatDuration(lastedMs)}.` : 'Triggered on the latest check.')
+          : `Lasted ${formatDuration(lastedMs)}.`,
+      ],
+      data: {
+        state,
+        rule: rule.name,
+        condition: rule.source,
+        accountId: alert.account_id,
+        platform: alert.platform,
+        name: alert.name,
+        detail: alert.detail,
+        since: alert.condition_since,
+        firedAt: alert.fired_at,
+        resolvedAt: alert.resolved_at,
+      },
+    });
+  }
+
+  // Fired alerts that are still open, and those resolved within the last hour
+  listAlerts(): { active: AccountAlert[]; resolved: AccountAlert[] } {
+    const since = new Date(Date.now() - this.recentMs).toISOString();
+    const alerts = db.getFiredAccountAlerts(since).map(alert => ({
+      id: alert.id,
+      rule: alert.rule,
+      condition: this.rules.find(rule => rule.name === alert.rule)?.source ?? null,
+      accountId: alert.account_id,
+      platform: alert.platform,
+      name: alert.name,
+      detail: alert.detail,
+      since: alert.condition_since,
+      firedAt: alert.fired_at!,
+      resolvedAt: alert.resolved_at,
+    }));
+
+    return {
+      active: alerts.filter(alert => alert.resolvedAt === null),
+      resolved: alerts.filter(alert => alert.resolvedAt !== null),
+    };
+  }
+}
+
+export const accountAlertWatcher = new AccountAlertWatcher(
+  parseAlertRuleList(process.env.ACCOUNT_ALERT_RULES ?? DEFAULT_ACCOUNT_ALERT_RULES)
+);
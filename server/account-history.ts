@@ -0,0 +1,225 @@
+import { db, type AccountReadingRecord, type AccountStatusChangeRecord } from './database';
+
+export interface AccountTimelineSegment {
+  status: string;
+  schedulable: boolean | null;
+  stoppedReason: string | null;
+  startedAt: string;
+  // null while the state is still current
+  endedAt: string | null;
+  durationMs: number;
+  healthy: boolean;
+}
+
+export interface AccountTimeline {
+  accountId: string;
+  platform: string;
+  name: string;
+  current: AccountTimelineSegment | null;
+  segments: AccountTimelineSegment[];
+  // Unhealthy time in the window, keyed by status ('unschedulable' for active accounts that are not schedulable)
+  downtimeMs: Record<string, number>;
+  observedMs: number;
+  availability: number | null;
+}
+
+export interface AccountHistoryResponse {
+  from: string;
+  to: string;
+  days: number;
+  accounts: AccountTimeline[];
+}
+
+export interface UtilizationPoint {
+  // Start of the hour the readings were taken in
+  at: string;
+  max: number;
+  avg: number;
+}
+
+export interface UtilizationWindow {
+  key: string;
+  label: string;
+  points: UtilizationPoint[];
+  // Reset times reported during the range, oldest first
+  resets: string[];
+}
+
+export interface AccountUtilizationResponse {
+  accountId: string;
+  platform: string;
+  from: string;
+  to: string;
+  days: number;
+  windows: UtilizationWindow[];
+}
+
+type ReadingColumn = 'five_hour' | 'seven_day' | 'seven_day_opus' | 'codex_primary' | 'codex_secondary';
+
+// Labels match the usage bars in the accounts table
+const UTILIZATION_WINDOWS: { key: string; label: string; column: ReadingColumn; resets: `${ReadingColumn}_resets_at` }[] = [
+  { key: 'fiveHour', label: '5h Window', column: 'five_hour', resets: 'five_hour_resets_at' },
+  { key: 'sevenDay', label: '7d Window', column: 'seven_day', resets: 'seven_day_resets_at' },
+  { key: 'sevenDayOpus', label: 'Opus Window', column: 'seven_day_opus', resets: 'seven_day_opus_resets_at' },
+  { key: 'primary', label: '5h Window', column: 'codex_primary', resets: 'codex_primary_resets_at' },
+  { key: 'secondary', label: '7d Window', column: 'codex_secondary', resets: 'codex_secondary_resets_at' },
+];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+function downtimeKey(status: string, schedulable: boolean | null): string {
+  return status === 'active' && schedulable === false ? 'unschedulable' : status;
+}
+
+/**
+ * Rebuilds each shared account's state intervals from the recorded status
+ * changes. A state lasts until the account's next change; the latest one runs
+ * until the account was last seen, which is "now" for accounts still reported
+ * by the relay.
+ */
+export class AccountHistory {
+  getTimeline(days: number, now: Date = new Date()): AccountHistoryResponse {
+    const to = now.getTime();
+    const from = to - days * DAY_MS;
+    const states = db.getAccountStates();
+    const lastSeen = new Map(states.map(state => [state.account_id, state]));
+    // Accounts missing from the latest poll were removed from the relay
+    const latestPoll = states.reduce((max, state) => state.checked_at > max ? state.checked_at : max, '');
+
+    const byAccount = new Map<string, AccountStatusChangeRecord[]>();
+    for (const change of db.getAccountStatusChanges()) {
+      const list = byAccount.get(change.account_id) ?? [];
+      list.push(change);
+      byAccount.set(change.account_id, list);
+    }
+
+    const accounts: AccountTimeline[] = [];
+    for (const [accountId, changes] of byAccount) {
+      const state = lastSeen.get(accountId);
+      const stillReported = state !== undefined && state.checked_at === latestPoll;
+      const seenAt = state && !stillReported ? Math.min(to, Date.parse(state.checked_at)) : to;
+      const segments: AccountTimelineSegment[] = [];
+      const downtimeMs: Record<string, number> = {};
+      let observedMs = 0;
+
+      changes.forEach((change, index) => {
+        const next = changes[index + 1];
+        const start = Date.parse(change.changed_at);
+        const end = next ? Date.parse(next.changed_at) : seenAt;
+        const clippedStart = Math.max(start, from);
+        const clippedEnd = Math.min(end, to);
+        if (clippedEnd <= clippedStart) return;
+
+        const schedulable = change.schedulable === null ? null : change.schedulable === 1;
+        const healthy = change.status === 'active' && schedulable !== false;
+        const durationMs = clippedEnd - clippedStart;
+        segments.push({
+          status: change.status,
+          schedulable,
+          stoppedReason: change.stopped_reason,
+          startedAt: new Date(clippedStart).toISOString(),
+          endedAt: next || !stillReported ? new Date(clippedEnd).toISOString() : null,
+          durationMs,
+          healthy,
+        });
+
+        observedMs += durationMs;
+        if (!healthy) {
+          const key = downtimeKey(change.status, schedulable);
+          downtimeMs[key] = (downtimeMs[key] ?? 0) + durationMs;
+        }
+      });
+
+      if (segments.length === 0) continue;
+
+      const latest = changes[changes.length - 1]!;
+      const unhealthyMs = Object.values(downtimeMs).reduce((sum, ms) => sum + ms, 0);
+      const last = segments[segments.length - 1]!;
+      accounts.push({
+        accountId,
+        platform: latest.platform,
+        name: state?.name ?? latest.name,
+        current: last.endedAt === null ? last : null,
+        segments,
+        downtimeMs,
+        observedMs,
+        availability: observedMs > 0 ? 1 - unhealthyMs / observedMs : null,
+      });
+    }
+
+    accounts.sort((a, b) => a.platform.localeCompare(b.platform) || a.name.localeCompare(b.name));
+
+    return {
+      from: new Date(from).toISOString(),
+      to: now.toISOString(),
+      days,
+      accounts,
+    };
+  }
+
+  /**
+   * Hourly peak and average of each rate-limit window's utilization for one
+   * account, plus the reset times seen in the range. Returns null when the
+   * account has no readings in the range.
+   */
+  getUtilization(accountId: string, days: number, now: Date = new Date()): AccountUtilizationResponse | null {
+    const to = now.getTime();
+    const from = to - days * DAY_MS;
+    const readings = db.getAccountReadings(accountId, new Date(from).toISOString());
+    if (readings.length === 0) {
+      return null;
+    }
+
+    const windows: UtilizationWindow[] = [];
+    for (const window of UTILIZATION_WINDOWS) {
+      const points = this.bucketByHour(readings, window.column);
+      if (points.length === 0) continue;
+
+      const resets = new Set<string>();
+      for (const reading of readings) {
+        const resetAt = reading[window.resets];
+        // Reset times can drift by seconds between polls
+        const time = resetAt ? Math.round(Date.parse(resetAt) / MINUTE_MS) * MINUTE_MS : NaN;
+        if (time >= from && time <= to) {
+          resets.add(new Date(time).toISOString());
+        }
+      }
+
+      windows.push({ key: window.key, label: window.label, points, resets: [...resets].sort() });
+    }
+
+    return {
+      accountId,
+      platform: readings[readings.length - 1]!.platform,
+      from: new Date(from).toISOString(),
+      to: now.toISOString(),
+      days,
+      windows,
+    };
+  }
+
+  private bucketByHour(readings: AccountReadingRecord[], column: ReadingColumn): UtilizationPoint[] {
+    const buckets = new Map<number, number[]>();
+    for (const reading of readings) {
+      const value = reading[column];
+      if (value === null) continue;
+
+      const hour = Math.floor(Date.parse(reading.checked_at) / HOUR_MS) * HOUR_MS;
+      const values = buckets.get(hour) ?? [];
+      values.push(value);
+      buckets.set(hour, values);
+    }
+
+    return [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([hour, values]) => ({
+        at: new Date(hour).toISOString(),
+        max: Math.max(...values),
+        avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+      }));
+  }
+}
+
+export const accountHistory = new AccountHistory();
@@ -0,0 +1,167 @@
+import { apiClient } from './api-client';
+import { db, type AccountReadingRecord, type AccountStateRecord } from './database';
+import { alertNotifier } from './alert-notifier';
+import { accountAlertWatcher, formatDuration, type AccountObservation } from './account-alerts';
+
+const SECOND_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * SECOND_MS;
+
+function describe(status: string, schedulable: number | null): string {
+  return schedulable === 0 ? `${status} (not schedulable)` : status;
+}
+
+function orNull(value: string | undefined): string | null {
+  return value || null;
+}
+
+/**
+ * Polls the relay's shared AI accounts and announces status or schedulability
+ * changes. The last observed state is persisted, so a restart neither repeats
+ * nor misses a change. Every state change and every poll's utilization
+ * readings are also kept as history for the outage timeline; readings older
+ * than ACCOUNT_HISTORY_RETENTION_DAYS are pruned. Each poll is also checked
+ * against the account alert rules.
+ */
+export class AccountMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private readonly intervalMs: number, private readonly retentionDays: number) {}
+
+  start() {
+    if (this.timer || this.intervalMs <= 0) return;
+
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.poll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async poll(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const response = await apiClient.getAIAccounts({ fresh: true });
+      const checkedAt = new Date().toISOString();
+      const accounts = [
+        ...response.claude.map(acc => ({ ...acc, platform: 'claude' })),
+        ...response.openai.map(acc => ({ ...acc, platform: 'openai' })),
+      ];
+
+      const previous = new Map(db.getAccountStates().map(state => [state.account_id, state]));
+      const observations: AccountObservation[] = [];
+      let changes = 0;
+
+      for (const account of accounts) {
+        const state: AccountStateRecord = {
+          account_id: account.id,
+          platform: account.platform,
+          name: account.name,
+          status: account.status || 'unknown',
+          schedulable: account.schedulable === undefined ? null : account.schedulable ? 1 : 0,
+          stopped_reason: account.stoppedReason ?? null,
+          changed_at: checkedAt,
+          checked_at: checkedAt,
+        };
+
+        const claude = 'claudeUsage' in account ? account.claudeUsage : undefined;
+        const codex = 'codexUsage' in account ? account.codexUsage : undefined;
+        const reading: AccountReadingRecord = {
+          account_id: state.account_id,
+          platform: state.platform,
+          checked_at: checkedAt,
+          status: state.status,
+          schedulable: state.schedulable,
+          five_hour: claude?.fiveHour?.utilization ?? null,
+          five_hour_resets_at: orNull(claude?.fiveHour?.resetsAt),
+          seven_day: claude?.sevenDay?.utilization ?? null,
+          seven_day_resets_at: orNull(claude?.sevenDay?.resetsAt),
+          seven_day_opus: claude?.sevenDayOpus?.utilization ?? null,
+          seven_day_opus_resets_at: orNull(claude?.sevenDayOpus?.resetsAt),
+          codex_primary: codex?.primary?.usedPercent ?? null,
+          codex_primary_resets_at: orNull(codex?.primary?.resetAt),
+          codex_secondary: codex?.secondary?.usedPercent ?? null,
+          codex_secondary_resets_at: orNull(codex?.secondary?.resetAt),
+        };
+        observations.push({ state, reading });
+
+        const last = previous.get(account.id);
+        const changed = last && (last.status !== state.status || last.schedulable !== state.schedulable);
+        if (last && !changed) {
+          state.changed_at = last.changed_at;
+        }
+        db.upsertAccountState(state);
+
+        // The first sighting opens the account's history without an announcement
+        if (!last || changed) {
+          db.insertAccountStatusChange({
+            account_id: state.account_id,
+            platform: state.platform,
+            name: state.name,
+            status: state.status,
+            schedulable: state.schedulable,
+            stopped_reason: state.stopped_reason,
+            changed_at: state.changed_at,
+          });
+        }
+
+        if (changed) {
+          changes += 1;
+          await this.announce(last, state);
+        }
+      }
+
+      db.insertAccountReadings(observations.map(observation => observation.reading));
+      if (this.retentionDays > 0) {
+        db.deleteAccountReadingsBefore(new Date(Date.parse(checkedAt) - this.retentionDays * DAY_MS).toISOString());
+      }
+      await accountAlertWatcher.evaluate(observations, checkedAt);
+
+      return changes;
+    } catch (error) {
+      console.error('AI account poll failed:', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async announce(previous: AccountStateRecord, current: AccountStateRecord) {
+    const platform = current.platform === 'openai' ? 'OpenAI' : 'Claude';
+    const from = describe(previous.status, previous.schedulable);
+    const to = describe(current.status, current.schedulable);
+    const lastedMs = Date.parse(current.checked_at) - Date.parse(previous.changed_at);
+
+    await alertNotifier.send({
+      type: 'account.status',
+      title: `${platform} account "${current.name}" is now ${to}`,
+      lines: [
+        `Status changed from ${from} to ${to}.`,
+        ...(current.stopped_reason ? [`Reason: ${current.stopped_reason}`] : []),
+        `Previous state lasted ${formatDuration(lastedMs)}.`,
+      ],
+      data: {
+        accountId: current.account_id,
+        platform: current.platform,
+        name: current.name,
+        previousStatus: previous.status,
+        previousSchedulable: previous.schedulable === null ? null : previous.schedulable === 1,
+        status: current.status,
+        schedulable: current.schedulable === null ? null : current.schedulable === 1,
+        stoppedReason: current.stopped_reason,
+        changedAt: current.changed_at,
+      },
+    });
+  }
+}
+
+export const accountMonitor = new AccountMonitor(
+  parseInt(process.env.ACCOUNT_POLL_INTERVAL_SECONDS || '60') * SECOND_MS,
+  parseInt(process.env.ACCOUNT_HISTORY_RETENTION_DAYS || '90')
+);
@@ -0,0 +1,25 @@
+import { mailer } from './mailer';
+import { webhookDispatcher, type WebhookEvent } from './webhooks';
+
+/**
+ * Delivers alerts to every channel: subscribed webhooks through the
+ * dispatcher, and email to ALERT_EMAIL_TO through the SMTP mailer. A failing
+ * channel is logged and does not stop the others.
+ */
+export class AlertNotifier {
+  private readonly emailTo = (process.env.ALERT_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean);
+
+  async send(alert: WebhookEvent): Promise<void> {
+    webhookDispatcher.emit(alert);
+
+    if (mailer && this.emailTo.length > 0) {
+      try {
+        await mailer.send({ to: this.emailTo, subject: `[Billing] ${alert.title}`, text: alert.lines.join('\n') });
+      } catch (error) {
+        console.error(`Failed to email alert "${alert.title}":`, error);
+      }
+    }
+  }
+}
+
+export const alertNotifier = new AlertNotifier();
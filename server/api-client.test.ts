@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { ApiClient } from './api-client';
+
+const keysPage = (page: number, totalPages: number) => Response.json({
+  success: true,
+  data: {
+    items: [{ id: `k${page}`, name: `Key ${page}`, tags: [] }],
+    pagination: { page, pageSize: 50, total: totalPages, totalPages },
+    availableTags: [],
+  },
+});
+
+// Answers the relay login and hands every other request to `handle`
+function mockRelay(handle: (url: URL) => Promise<Response>) {
+  return spyOn(globalThis, 'fetch').mockImplementation((async (input: string | URL | Request) => {
+    const url = new URL(String(input));
+    if (url.pathname === '/web/auth/login') {
+      return Response.json({ success: true, token: 'token', expiresIn: 3_600_000 });
+    }
+    return handle(url);
+  }) as typeof fetch);
+}
+
+describe('ApiClient', () => {
+  afterEach(() => {
+    delete process.env.RELAY_CONCURRENCY;
+    delete process.env.RELAY_MAX_RETRIES;
+  });
+
+  test('refuses concurrency and retry settings that are not whole numbers of at least 1', () => {
+    process.env.RELAY_CONCURRENCY = 'four';
+    expect(() => new ApiClient()).toThrow('Invalid RELAY_CONCURRENCY "four"');
+    process.env.RELAY_CONCURRENCY = '0';
+    expect(() => new ApiClient()).toThrow('expected a whole number of at least 1');
+    delete process.env.RELAY_CONCURRENCY;
+
+    process.env.RELAY_MAX_RETRIES = '2.5';
+    expect(() => new ApiClient()).toThrow('Invalid RELAY_MAX_RETRIES "2.5"');
+  });
+
+  test('shares one relay rescan between unknown keys and failed logins for a few seconds', async () => {
+    let scans = 0;
+    const fetch = mockRelay(async url => {
+      if (url.pathname === '/apiStats/api/get-key-id') return new Response('not found', { status: 404 });
+      if (url.searchParams.get('page') === '1') scans++;
+      return keysPage(1, 1);
+    });
+    const client = new ApiClient();
+
+    // The first miss loads the key list, then rescans it
+    expect(await client.getKeyInfo('unknown-1')).toBeNull();
+    expect(scans).toBe(2);
+    expect(await client.getKeyInfo('unknown-2')).toBeNull();
+    await expect(client.getKeyId('cr_wrong')).rejects.toThrow('Invalid API key');
+    expect(scans).toBe(2);
+    expect(await client.getKeyInfo('k1')).toMatchObject({ id: 'k1' });
+
+    setSystemTime(new Date(Date.now() + 11_000));
+    expect(await client.getKeyInfo('unknown-1')).toBeNull();
+    expect(scans).toBe(3);
+    setSystemTime();
+    fetch.mockRestore();
+  });
+
+  test('fetches key pages with at most RELAY_CONCURRENCY requests in flight', async () => {
+    process.env.RELAY_CONCURRENCY = '2';
+    let inFlight = 0;
+    let peak = 0;
+    const fetch = mockRelay(async url => {
+      const page = Number(url.searchParams.get('page'));
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Bun.sleep(5);
+      inFlight--;
+      return keysPage(page, 6);
+    });
+
+    const keys = await new ApiClient().listApiKeys();
+
+    expect(keys.map(key => key.id)).toEqual(['k1', 'k2', 'k3', 'k4', 'k5', 'k6']);
+    expect(peak).toBe(2);
+    fetch.mockRestore();
+  });
+
+  test('gives up on a page after RELAY_MAX_RETRIES attempts', async () => {
+    process.env.RELAY_MAX_RETRIES = '3';
+    // Skip the backoff between attempts
+    const timeout = spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    let attempts = 0;
+    const fetch = mockRelay(async () => {
+      attempts++;
+      return new Response('unavailable', { status: 503, statusText: 'Service Unavailable' });
+    });
+
+    await expect(new ApiClient().listApiKeys()).rejects.toThrow('API key page 1 failed after 3 attempts');
+    expect(attempts).toBe(3);
+    fetch.mockRestore();
+    timeout.mockRestore();
+  });
+});
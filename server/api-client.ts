@@ -1,3 +1,6 @@
+import { readIntEnv } from './env';
+import { TtlCache } from './ttl-cache';
+
 interface LoginResponse {
   success: boolean;
   token: string;
@@ -44,12 +47,31 @@ interface ApiKeyUsageTotals {
   formattedCost: string;
 }
 
+// A key's all-time usage of one model
+export interface ModelUsage {
+  cost: number;
+  tokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreateTokens: number;
+  cacheReadTokens: number;
+  requests: number;
+}
+
 interface ApiKeyWithUsage extends ApiKeyListItem {
   usage: {
     total: ApiKeyUsageTotals;
+    // Keyed by model name; absent when the relay's model stats could not be fetched
+    models?: Record<string, ModelUsage>;
   };
 }
 
+export interface CurrentCosts {
+  keys: ApiKeyWithUsage[];
+  // Keys whose usage could not be fetched after retries; they are left out of `keys`
+  failed: Array<{ id: string; name: string }>;
+}
+
 interface BatchStatsResponse {
   success: boolean;
   data: Record<string, ApiKeyBatchStats>;
@@ -67,6 +89,37 @@ interface ApiKeyBatchStats {
   [key: string]: any;
 }
 
+interface ModelStatsResponse {
+  success: boolean;
+  data: Array<{
+    model: string;
+    requests?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    cacheCreateTokens?: number;
+    cacheReadTokens?: number;
+    allTokens?: number;
+    costs?: { total?: number };
+    [key: string]: any;
+  }>;
+}
+
+interface DeletedApiKeysResponse {
+  success: boolean;
+  apiKeys: Array<{
+    id: string;
+    name: string;
+    deletedAt?: string | null;
+    [key: string]: any;
+  }>;
+}
+
+export interface DeletedApiKey {
+  id: string;
+  name: string;
+  deletedAt: string | null;
+}
+
 // AI Account types
 interface ClaudeAccount {
   id: string;
@@ -149,6 +202,40 @@ interface AIAccountsResponse {
   openai: OpenAIAccount[];
 }
 
+const SECOND_MS = 1000;
+
+// Keys tagged `noshare` stay on the relay but are left out of billing
+const isExcluded = (item: ApiKeyListItem) => !!item.tags?.includes('noshare');
+const USAGE_BATCH_SIZE = 10;
+const API_KEYS_PAGE_SIZE = 50;
+// Unknown keys and failed logins share one relay rescan within this window
+const RESCAN_INTERVAL_MS = 10 * SECOND_MS;
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight and returns the
+ * results in input order.
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+// Relay responses are shared by every dashboard user; see TtlCache for the refresh rules
+const relayCacheOptions = {
+  ttlMs: readIntEnv('RELAY_CACHE_TTL_SECONDS', 60) * SECOND_MS,
+  staleMs: readIntEnv('RELAY_CACHE_STALE_SECONDS', 600) * SECOND_MS,
+};
+
 export class ApiClient {
   private baseUrl: string;
   private username: string;
@@ -156,6 +243,17 @@ export class ApiClient {
   private token: string | null = null;
   private expiresAt: number = 0;
   private readonly skewMs = 10000; // 10 seconds
+  private readonly concurrency = readIntEnv('RELAY_CONCURRENCY', 4, 1);
+  private readonly maxRetries = readIntEnv('RELAY_MAX_RETRIES', 3, 1);
+  // Turned off by RELAY_MODEL_STATS=false, or on the first 404 from a relay without the endpoint
+  private modelStats = process.env.RELAY_MODEL_STATS !== 'false';
+  // Turned off on the first 404 from a relay that doesn't list deleted keys
+  private deletedKeys = true;
+  private readonly keyListCache = new TtlCache<ApiKeyListItem[]>(relayCacheOptions);
+  private readonly costsCache = new TtlCache<CurrentCosts>(relayCacheOptions);
+  private readonly accountsCache = new TtlCache<AIAccountsResponse>(relayCacheOptions);
+  private readonly deletedKeysCache = new TtlCache<DeletedApiKey[]>(relayCacheOptions);
+  private lastRescan: { startedAt: number; keys: Promise<ApiKeyListItem[]> } | null = null;
 
   constructor() {
     this.baseUrl = process.env.BASE_URL || '';
@@ -219,6 +317,25 @@ export class ApiClient {
     }
   }
 
+  // Retries a relay call with the same exponential backoff as login()
+  private async withRetries<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    let retries = 0;
+
+    while (true) {
+      try {
+        return await fn();
+      } catch (error) {
+        retries++;
+        if (retries >= this.maxRetries) {
+          throw new Error(`${label} failed after ${retries} attempts: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const delay = Math.pow(2, retries - 1) * 1000;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
   private async fetchApiKeysPage(page: number, pageSize: number): Promise<ApiKeysResponse['data']> {
     await this.ensureValidToken();
 
@@ -279,40 +396,220 @@ export class ApiClient {
     return data.data;
   }
 
-  private async getUsageStats(keyIds: string[]): Promise<Map<string, ApiKeyBatchStats>> {
-    const usageMap = new Map<string, ApiKeyBatchStats>();
-    const batchSize = 10;
+  // Batches are fetched in parallel; a batch that keeps failing only loses its own keys
+  private async getUsageStats(keyIds: string[]): Promise<{ stats: Map<string, ApiKeyBatchStats>; failedKeyIds: string[] }> {
+    const batches: string[][] = [];
+    for (let i = 0; i < keyIds.length; i += USAGE_BATCH_SIZE) {
+      batches.push(keyIds.slice(i, i + USAGE_BATCH_SIZE));
+    }
+
+    const stats = new Map<string, ApiKeyBatchStats>();
+    const failedKeyIds: string[] = [];
+
+    await mapWithConcurrency(batches, this.concurrency, async (batch) => {
+      try {
+        const batchData = await this.withRetries('Usage batch', () => this.fetchUsageBatch(batch));
+        for (const [id, batchStats] of Object.entries(batchData)) {
+          stats.set(id, batchStats);
+        }
+      } catch (error) {
+        console.error(`Usage for ${batch.length} key(s) unavailable:`, error);
+        failedKeyIds.push(...batch);
+      }
+    });
+
+    return { stats, failedKeyIds };
+  }
+
+  // Null when the relay has no model stats endpoint
+  private async fetchModelStats(keyId: string): Promise<Record<string, ModelUsage> | null> {
+    await this.ensureValidToken();
+
+    const response = await fetch(`${this.baseUrl}/admin/api-keys/${encodeURIComponent(keyId)}/model-stats?period=alltime`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model stats: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as ModelStatsResponse;
+
+    if (!data.success || !Array.isArray(data.data)) {
+      throw new Error('Invalid response format from admin/api-keys/model-stats');
+    }
+
+    const models: Record<string, ModelUsage> = {};
+    for (const item of data.data) {
+      if (!item.model) continue;
+
+      const inputTokens = Number(item.inputTokens ?? 0);
+      const outputTokens = Number(item.outputTokens ?? 0);
+      const cacheCreateTokens = Number(item.cacheCreateTokens ?? 0);
+      const cacheReadTokens = Number(item.cacheReadTokens ?? 0);
+      models[item.model] = {
+        cost: Number(item.costs?.total ?? 0),
+        tokens: Number(item.allTokens ?? inputTokens + outputTokens + cacheCreateTokens + cacheReadTokens),
+        inputTokens,
+        outputTokens,
+        cacheCreateTokens,
+        cacheReadTokens,
+        requests: Number(item.requests ?? 0),
+      };
+    }
+
+    return models;
+  }
+
+  // Per-model usage is a breakdown on top of the totals, so a key whose model stats fail just goes without
+  private async getModelStats(keyIds: string[]): Promise<Map<string, Record<string, ModelUsage>>> {
+    const stats = new Map<string, Record<string, ModelUsage>>();
+    if (!this.modelStats) return stats;
 
-    for (let i = 0; i < keyIds.length; i += batchSize) {
-      const batch = keyIds.slice(i, i + batchSize);
-      if (batch.length === 0) continue;
+    let failures = 0;
+    await mapWithConcurrency(keyIds, this.concurrency, async (keyId) => {
+      if (!this.modelStats) return;
 
-      const batchData = await this.fetchUsageBatch(batch);
-      for (const [id, stats] of Object.entries(batchData)) {
-        usageMap.set(id, stats);
+      try {
+        const models = await this.withRetries('Model stats', () => this.fetchModelStats(keyId));
+        if (models) {
+          stats.set(keyId, models);
+        } else if (this.modelStats) {
+          this.modelStats = false;
+          console.warn('Relay has no model stats endpoint; per-model breakdowns are disabled');
+        }
+      } catch (error) {
+        if (failures++ === 0) {
+          console.error('Model stats unavailable:', error);
+        }
       }
+    });
+
+    if (failures > 0) {
+      console.error(`Model stats missing for ${failures} of ${keyIds.length} key(s)`);
+    }
+    return stats;
+  }
+
+  // Null when the relay has no deleted keys endpoint
+  private async fetchDeletedApiKeys(): Promise<DeletedApiKey[] | null> {
+    await this.ensureValidToken();
+
+    const response = await fetch(`${this.baseUrl}/admin/api-keys/deleted`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (response.status === 404) {
+      return null;
     }
 
-    return usageMap;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch deleted api keys: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as DeletedApiKeysResponse;
+
+    if (!data.success || !Array.isArray(data.apiKeys)) {
+      throw new Error('Invalid response format from admin/api-keys/deleted');
+    }
+
+    return data.apiKeys.map(item => ({
+      id: item.id,
+      name: item.name,
+      deletedAt: item.deletedAt && Number.isFinite(Date.parse(item.deletedAt)) ? new Date(item.deletedAt).toISOString() : null,
+    }));
   }
 
-  async getCurrentCosts(): Promise<ApiKeyWithUsage[]> {
-    const pageSize = 50;
-    let page = 1;
-    let totalPages = 1;
-    const allItems: ApiKeyListItem[] = [];
-
-    while (page <= totalPages) {
-      const data = await this.fetchApiKeysPage(page, pageSize);
-      allItems.push(...data.items);
-      totalPages = data.pagination.totalPages || page;
-      page += 1;
+  /**
+   * Keys deleted on the relay, with when they were deleted. Empty on relays
+   * that don't keep deleted keys; failures are left to the caller.
+   */
+  listDeletedApiKeys(): Promise<DeletedApiKey[]> {
+    if (!this.deletedKeys) return Promise.resolve([]);
+
+    return this.deletedKeysCache.get('deleted', async () => {
+      const keys = await this.withRetries('Deleted API keys', () => this.fetchDeletedApiKeys());
+      if (keys) return keys;
+
+      this.deletedKeys = false;
+      console.warn('Relay does not list deleted keys; deletion times are unavailable');
+      return [];
+    });
+  }
+
+  private fetchAllApiKeys({ fresh = false }: { fresh?: boolean } = {}): Promise<ApiKeyListItem[]> {
+    return this.keyListCache.get('keys', () => this.fetchAllApiKeysFromRelay(), { fresh });
+  }
+
+  // A fresh key list, reused for RESCAN_INTERVAL_MS so a burst of unknown keys can't each scan the whole relay
+  private rescanApiKeys(): Promise<ApiKeyListItem[]> {
+    if (this.lastRescan && Date.now() - this.lastRescan.startedAt < RESCAN_INTERVAL_MS) {
+      return this.lastRescan.keys;
     }
 
-    const shareableItems = allItems.filter(user => !user.tags?.includes("noshare"));
-    const usageStats = await this.getUsageStats(shareableItems.map(item => item.id));
+    const rescan = { startedAt: Date.now(), keys: this.fetchAllApiKeys({ fresh: true }) };
+    this.lastRescan = rescan;
+    // A failed rescan is retried by the next caller
+    rescan.keys.catch(() => {
+      if (this.lastRescan === rescan) this.lastRescan = null;
+    });
+    return rescan.keys;
+  }
 
-    return shareableItems.map((item) => {
+  // The first page gives the page count; the rest are fetched in parallel
+  private async fetchAllApiKeysFromRelay(): Promise<ApiKeyListItem[]> {
+    const first = await this.withRetries('API key page 1', () => this.fetchApiKeysPage(1, API_KEYS_PAGE_SIZE));
+    const totalPages = first.pagination.totalPages || 1;
+    const pages = Array.from({ length: totalPages - 1 }, (_, i) => i + 2);
+
+    const rest = await mapWithConcurrency(pages, this.concurrency, page =>
+      this.withRetries(`API key page ${page}`, () => this.fetchApiKeysPage(page, API_KEYS_PAGE_SIZE))
+    );
+
+    return [first, ...rest].flatMap(data => data.items);
+  }
+
+  // Keys the relay still lists but getCurrentCosts leaves out
+  async listExcludedKeyIds(): Promise<string[]> {
+    const allItems = await this.fetchAllApiKeys();
+    return allItems.filter(isExcluded).map(item => item.id);
+  }
+
+  async listApiKeys(): Promise<Array<{ id: string; name: string; tags: string[] }>> {
+    const allItems = await this.fetchAllApiKeys();
+    return allItems.map(item => ({ id: item.id, name: item.name, tags: item.tags ?? [] }));
+  }
+
+  /**
+   * Every shareable key with its all-time usage. Served from the cache unless
+   * `fresh` is set, which callers recording exact totals (snapshots, samples)
+   * use to always read the relay. Keys whose usage could not be fetched are
+   * reported in `failed` instead of failing the whole call.
+   */
+  getCurrentCosts({ fresh = false }: { fresh?: boolean } = {}): Promise<CurrentCosts> {
+    return this.costsCache.get('costs', () => this.fetchCurrentCosts(fresh), { fresh });
+  }
+
+  private async fetchCurrentCosts(fresh: boolean): Promise<CurrentCosts> {
+    const allItems = await this.fetchAllApiKeys({ fresh });
+    const shareableItems = allItems.filter(item => !isExcluded(item));
+    const { stats: usageStats, failedKeyIds } = await this.getUsageStats(shareableItems.map(item => item.id));
+    const failed = new Set(failedKeyIds);
+    const modelStats = await this.getModelStats(shareableItems.filter(item => !failed.has(item.id)).map(item => item.id));
+
+    const keys = shareableItems.filter(item => !failed.has(item.id)).map((item) => {
       const sanitizedItem = this.sanitizeApiKeyItem(item);
       const stats = usageStats.get(item.id);
       const cost = Number(stats?.cost ?? 0);
@@ -331,9 +628,15 @@ export class ApiClient {
             requests: Number(stats?.requests ?? 0),
             formattedCost,
           },
+          ...(modelStats.has(item.id) && { models: modelStats.get(item.id) }),
         },
       };
     });
+
+    return {
+      keys,
+      failed: shareableItems.filter(item => failed.has(item.id)).map(item => ({ id: item.id, name: item.name })),
+    };
   }
 
   private async getKeyIdFromLegacy(apiKey: string): Promise<string> {
@@ -360,25 +663,28 @@ export class ApiClient {
     return data.data.id;
   }
 
-  private async getKeyIdFromList(apiKey: string): Promise<string> {
-    const pageSize = 50;
-    let page = 1;
-    let totalPages = 1;
-
-    while (page <= totalPages) {
-      const data = await this.fetchApiKeysPage(page, pageSize);
-      const match = data.items.find(item => item.apiKey === apiKey);
-      if (match?.id) {
-        return match.id;
-      }
+  // Looks in the cached key list first and rescans the relay on a miss, e.g. for a key created since
+  private async findApiKey(predicate: (item: ApiKeyListItem) => boolean): Promise<ApiKeyListItem | null> {
+    const match = (await this.fetchAllApiKeys()).find(predicate)
+      ?? (await this.rescanApiKeys()).find(predicate);
+    return match?.id ? match : null;
+  }
 
-      totalPages = data.pagination.totalPages || page;
-      page += 1;
+  // Read from a rescan, so a key deleted on the relay stops working within RESCAN_INTERVAL_MS
+  private async getKeyIdFromList(apiKey: string): Promise<string> {
+    const match = (await this.rescanApiKeys()).find(item => item.apiKey === apiKey && item.id);
+    if (!match) {
+      throw new Error('Invalid API key or response format');
     }
 
-    throw new Error('Invalid API key or response format');
+    return match.id;
   }
 
+  /**
+   * Resolves an API key at login. Asks the relay rather than the key list
+   * cache, so deleted and rotated keys can't log in beyond a few seconds;
+   * sessions carry the ID from then on.
+   */
   async getKeyId(apiKey: string): Promise<string> {
     try {
       return await this.getKeyIdFromLegacy(apiKey);
@@ -387,7 +693,20 @@ export class ApiClient {
     }
   }
 
-  async getAIAccounts(): Promise<AIAccountsResponse> {
+  async getKeyInfo(keyId: string): Promise<{ id: string; name: string; tags: string[] } | null> {
+    const match = await this.findApiKey(item => item.id === keyId);
+    if (!match) {
+      return null;
+    }
+
+    return { id: match.id, name: match.name, tags: match.tags ?? [] };
+  }
+
+  getAIAccounts({ fresh = false }: { fresh?: boolean } = {}): Promise<AIAccountsResponse> {
+    return this.accountsCache.get('accounts', () => this.fetchAIAccounts(), { fresh });
+  }
+
+  private async fetchAIAccounts(): Promise<AIAccountsResponse> {
     await this.ensureValidToken();
 
     // Fetch Claude accounts
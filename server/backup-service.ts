@@ -0,0 +1,100 @@
+import { mkdirSync, readdirSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { getZonedParts, parseSchedule, type Schedule } from './cron';
+import { db } from './database';
+
+const MINUTE_MS = 60 * 1000;
+const BACKUP_PREFIX = 'app-';
+const BACKUP_SUFFIX = '.db';
+
+/**
+ * Online SQLite backups: `VACUUM INTO` writes a consistent copy while the
+ * server keeps running, into `dir`, keeping only the newest `retention` files.
+ * With a schedule, a backup is taken at every slot while the server runs.
+ */
+export class BackupService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastSlot: number | null = null;
+
+  constructor(
+    private readonly dir: string,
+    private readonly retention: number,
+    private readonly schedule: Schedule | null
+  ) {}
+
+  start() {
+    if (this.timer || !this.schedule) return;
+
+    console.log(`Backup schedule: ${this.schedule.expression} (${this.schedule.timezone}), keeping ${this.retention} in ${this.dir}`);
+    this.timer = setInterval(() => this.tick(), MINUTE_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  backup(): { path: string; pruned: string[] } {
+    mkdirSync(this.dir, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const path = join(this.dir, `${BACKUP_PREFIX}${stamp}${BACKUP_SUFFIX}`);
+    db.backupTo(path);
+
+    return { path, pruned: this.prune() };
+  }
+
+  list(): string[] {
+    try {
+      // Timestamps in the names sort chronologically
+      return readdirSync(this.dir)
+        .filter(name => name.startsWith(BACKUP_PREFIX) && name.endsWith(BACKUP_SUFFIX))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private prune(): string[] {
+    const files = this.list();
+    const expired = files.slice(0, Math.max(0, files.length - this.retention));
+
+    for (const name of expired) {
+      unlinkSync(join(this.dir, name));
+    }
+
+    return expired;
+  }
+
+  private tick() {
+    const slot = Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS;
+    if (slot === this.lastSlot || !this.schedule!.matches(getZonedParts(new Date(slot), this.schedule!.timezone))) {
+      return;
+    }
+    this.lastSlot = slot;
+
+    try {
+      const { path, pruned } = this.backup();
+      console.log(`Database backed up to ${path}${pruned.length > 0 ? `, removed ${pruned.length} old backup(s)` : ''}`);
+    } catch (error) {
+      console.error('Scheduled database backup failed:', error);
+    }
+  }
+}
+
+export function createBackupServiceFromEnv(): BackupService {
+  const expression = process.env.BACKUP_SCHEDULE?.trim();
+  const schedule = expression
+    ? parseSchedule('backup', expression, process.env.SNAPSHOT_TIMEZONE || 'Asia/Shanghai')
+    : null;
+
+  return new BackupService(
+    process.env.BACKUP_DIR || './backups',
+    Math.max(1, parseInt(process.env.BACKUP_RETENTION || '14')),
+    schedule
+  );
+}
+
+export const backupService = createBackupServiceFromEnv();
@@ -1,5 +1,9 @@
-import { db } from './database';
-import { apiClient } from './api-client';
+import { db, type UsageSample } from './database';
+import { apiClient, type ModelUsage } from './api-client';
+import { getZonedParts } from './cron';
+import { splitByPlatform, type PlatformCost, type PlatformTotal } from './platforms';
+import { identityService } from './identity-service';
+import { counterIncrease, readingFromSample, type CounterReading, type ReconciliationEntry } from './reconciliation';
 
 export interface UserData {
   id: string;
@@ -15,13 +19,30 @@ export interface UserData {
       requests: number;
       formattedCost: string;
     };
+    // Per-model totals, when they were recorded
+    models?: Record<string, ModelUsage>;
   };
   [key: string]: any;
 }
 
+export interface ModelBreakdown {
+  model: string;
+  cost: number;
+  tokens: number;
+  requests: number;
+}
+
 export interface PeriodInfo {
+  // Position in snapshot order; changes when boundaries are added or removed
   index: number;
+  // `<start snapshot>-<end snapshot>`, with 0 for the beginning and `current` for now
+  id: string;
+  // Month the period starts in, e.g. `2026-09`, with `-2`, `-3` for further periods starting that month
+  slug: string | null;
+  label: string | null;
+  note: string | null;
   startSnapshotId: number | null;
+  endSnapshotId: number | null;
   startAt: string | null;
   endAt: string | null;
   isCurrent: boolean;
@@ -37,6 +58,11 @@ export interface UserRanking {
   rawEnd: UserData | null;
   periodTokens: number;
   periodRequests: number;
+  // Most expensive model first; null when either end lacks per-model usage
+  models: ModelBreakdown[] | null;
+  platforms?: PlatformCost[];
+  // Keys billed in this row; more than one when they belong to the same person
+  keyIds: string[];
 }
 
 export interface PeriodSummary {
@@ -45,7 +71,15 @@ export interface PeriodSummary {
     totalCost: number;
     userCount: number;
   };
+  // Platforms in use this period, each with its share of the total cost
+  platforms: PlatformTotal[];
   ranking: UserRanking[];
+  // Deleted and reset keys, whose usage is not simply their end minus start totals
+  reconciliation: ReconciliationEntry[];
+  // Set when live usage for some keys could not be fetched; they are missing from the ranking
+  incomplete?: {
+    failedKeys: string[];
+  };
 }
 
 export interface UserDetail {
@@ -54,45 +88,193 @@ export interface UserDetail {
   startCost: number;
   endCost: number;
   deltaCost: number;
+  models: ModelBreakdown[] | null;
+  keyCount: number;
+  keyIds: string[];
   raw: {
     start: UserData | null;
     end: UserData | null;
   };
 }
 
+// A snapshot's stored entries in the shape the relay returns them
+export function snapshotUsers(snapshotId: number): UserData[] {
+  const models = new Map<string, Record<string, ModelUsage>>();
+  for (const row of db.getSnapshotModels(snapshotId)) {
+    const keyModels = models.get(row.key_id) ?? {};
+    keyModels[row.model] = {
+      cost: row.cost,
+      tokens: row.tokens,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheCreateTokens: row.cache_create_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      requests: row.requests,
+    };
+    models.set(row.key_id, keyModels);
+  }
+
+  return db.getSnapshotEntries(snapshotId).map(entry => ({
+    id: entry.key_id,
+    name: entry.name,
+    tags: JSON.parse(entry.tags),
+    usage: {
+      total: {
+        cost: entry.cost,
+        tokens: entry.tokens,
+        inputTokens: entry.input_tokens,
+        outputTokens: entry.output_tokens,
+        cacheCreateTokens: entry.cache_create_tokens,
+        cacheReadTokens: entry.cache_read_tokens,
+        requests: entry.requests,
+        formattedCost: `$${entry.cost.toFixed(2)}`,
+      },
+      ...(entry.has_models && { models: models.get(entry.key_id) ?? {} }),
+    },
+  }));
+}
+
+/**
+ * Usage samples taken between the period's boundary snapshots, oldest first.
+ * Bounded by when the snapshots were taken rather than their effective times,
+ * since a moved boundary keeps the totals it recorded.
+ */
+export function periodUsageSamples(period: PeriodInfo): UsageSample[] {
+  const takenAt = (snapshotId: number | null) => snapshotId !== null ? db.getSnapshotById(snapshotId)?.created_at ?? null : null;
+  return db.getUsageSamples(takenAt(period.startSnapshotId), takenAt(period.endSnapshotId));
+}
+
 function mapFromDataArray(data: UserData[]): Map<string, UserData> {
   const m = new Map<string, UserData>();
   for (const u of data ?? []) m.set(u.id, u);
   return m;
 }
 
-function computePeriodDelta(startData: UserData[], endData: UserData[], meId?: string) {
+// A key that didn't exist at the start contributes all of its usage to the period
+function computeModelDelta(startU: UserData | undefined, endU: UserData): ModelBreakdown[] | null {
+  const endModels = endU.usage?.models;
+  const startModels = startU ? startU.usage?.models : {};
+  if (!endModels || !startModels) return null;
+
+  const breakdown: ModelBreakdown[] = [];
+  for (const [model, end] of Object.entries(endModels)) {
+    const start = startModels[model];
+    const cost = Math.max(0, end.cost - (start?.cost ?? 0));
+    const tokens = Math.max(0, end.tokens - (start?.tokens ?? 0));
+    const requests = Math.max(0, end.requests - (start?.requests ?? 0));
+
+    if (cost > 0 || tokens > 0 || requests > 0) {
+      breakdown.push({ model, cost: +cost.toFixed(6), tokens, requests });
+    }
+  }
+
+  return breakdown.sort((a, b) => b.cost - a.cost);
+}
+
+interface UsageHistory {
+  // Each key's usage samples taken between the period's boundary snapshots, oldest first
+  samples: Map<string, UsageSample[]>;
+  // Relay deletion times of deleted keys
+  deletedAt: Map<string, string | null>;
+  // Keys still on the relay but tagged `noshare`, so missing from the end data without being deleted
+  excluded: Set<string>;
+  // Keys left out of the end data for reasons other than deletion, e.g. a failed fetch
+  unavailable: Set<string>;
+  // Time of the end data
+  endAt: string;
+}
+
+const NO_HISTORY: UsageHistory = { samples: new Map(), deletedAt: new Map(), excluded: new Set(), unavailable: new Set(), endAt: '' };
+
+function readingFromUser(user: UserData | undefined, at: string | null): CounterReading {
+  return {
+    at,
+    cost: Number(user?.usage?.total?.cost ?? 0),
+    tokens: Number(user?.usage?.total?.tokens ?? 0),
+    requests: Number(user?.usage?.total?.requests ?? 0),
+  };
+}
+
+// A missing key's last sample, in the shape of live data
+function userFromSample(sample: UsageSample, startU: UserData | undefined): UserData {
+  return {
+    id: sample.key_id,
+    name: sample.name,
+    tags: startU?.tags ?? [],
+    usage: {
+      total: {
+        cost: sample.cost,
+        tokens: sample.tokens,
+        inputTokens: sample.input_tokens,
+        outputTokens: sample.output_tokens,
+        cacheCreateTokens: sample.cache_create_tokens,
+        cacheReadTokens: sample.cache_read_tokens,
+        requests: sample.requests,
+        formattedCost: `$${sample.cost.toFixed(2)}`,
+      },
+    },
+  };
+}
+
+/**
+ * Each key's usage between the start and end data. A key missing at the end
+ * was deleted or tagged `noshare` during the period and is charged up to its
+ * last usage sample; counters that went down were reset, and are counted
+ * through the reset using the samples in between. All of these are reported
+ * in `reconciliation`.
+ */
+function computePeriodDelta(startData: UserData[], endData: UserData[], meId?: string, history: UsageHistory = NO_HISTORY) {
   const start = mapFromDataArray(startData);
   const end = mapFromDataArray(endData);
 
-  const ids = new Set<string>([...Array.from(start.keys()), ...Array.from(end.keys())]);
+  const ids = new Set<string>([...Array.from(start.keys()), ...Array.from(end.keys()), ...Array.from(history.samples.keys())]);
   const users: UserRanking[] = [];
+  const reconciliation: ReconciliationEntry[] = [];
   
   for (const id of Array.from(ids)) {
-    const endU = end.get(id);
-    if (!endU) continue; // 删除用户：不计入
-
     const startU = start.get(id);
-    const startCost = Number(startU?.usage?.total?.cost ?? 0);
-    const endCost = Number(endU?.usage?.total?.cost ?? 0);
-    const startTokens = Number(startU?.usage?.total?.tokens ?? 0);
-    const endTokens = Number(endU?.usage?.total?.tokens ?? 0);
-    const startRequests = Number(startU?.usage?.total?.requests ?? 0);
-    const endRequests = Number(endU?.usage?.total?.requests ?? 0);
-
-    let delta = endCost - startCost;
-    if (!Number.isFinite(delta) || delta < 0) delta = 0;
-    
-    let deltaTokens = endTokens - startTokens;
-    if (!Number.isFinite(deltaTokens) || deltaTokens < 0) deltaTokens = 0;
-    
-    let deltaRequests = endRequests - startRequests;
-    if (!Number.isFinite(deltaRequests) || deltaRequests < 0) deltaRequests = 0;
+    let endU = end.get(id);
+    let samples = history.samples.get(id) ?? [];
+    let missing: ReconciliationEntry | null = null;
+    let endAt: string | null = history.endAt || null;
+
+    if (!endU) {
+      if (history.unavailable.has(id)) continue;
+
+      // Excluded keys stop being sampled once tagged, so their last sample is about when that happened
+      const excluded = history.excluded.has(id);
+      // Samples taken after the relay's deletion time would be stale reads
+      const deletedAt = excluded ? null : history.deletedAt.get(id) ?? null;
+      if (deletedAt) samples = samples.filter(sample => sample.sampled_at <= deletedAt);
+
+      const last = samples[samples.length - 1];
+      missing = {
+        name: last?.name ?? startU?.name ?? 'User',
+        kind: excluded ? 'excluded' : 'deleted',
+        cost: 0,
+        at: excluded ? last?.sampled_at ?? null : deletedAt,
+        basis: last ? 'samples' : 'boundaries',
+      };
+      reconciliation.push(missing);
+      if (!last) continue;
+
+      endU = userFromSample(last, startU);
+      endAt = last.sampled_at;
+      samples = samples.slice(0, -1);
+    }
+
+    const usage = counterIncrease([
+      readingFromUser(startU, null),
+      ...samples.map(readingFromSample),
+      readingFromUser(endU, endAt),
+    ]);
+    const delta = usage.cost;
+
+    if (missing) {
+      missing.cost = +delta.toFixed(6);
+    } else if (usage.reset) {
+      reconciliation.push({ name: endU.name || 'User', kind: 'reset', cost: +delta.toFixed(6), at: usage.reset.at, basis: samples.length > 0 ? 'samples' : 'boundaries' });
+    }
 
     users.push({
       id: meId === id ? id : '', // Only include ID for current user
@@ -102,8 +284,11 @@ function computePeriodDelta(startData: UserData[], endData: UserData[], meId?: s
       isMe: meId === id,
       rawStart: start.get(id) ?? null,
       rawEnd: endU,
-      periodTokens: deltaTokens,
-      periodRequests: deltaRequests
+      periodTokens: usage.tokens,
+      periodRequests: usage.requests,
+      // After a reset the per-model counters hold only usage since the reset
+      models: computeModelDelta(usage.reset ? undefined : startU, endU),
+      keyIds: [id]
     });
   }
 
@@ -113,19 +298,142 @@ function computePeriodDelta(startData: UserData[], endData: UserData[], meId?: s
 
   const me = meId ? users.find(u => u.id === meId) : null;
 
-  return { users, totalCost: +totalCost.toFixed(6), me };
+  return { users, totalCost: +totalCost.toFixed(6), me, reconciliation };
+}
+
+// Derived from the models on every read, so stored summaries don't need rebuilding when the mapping changes
+function withPlatforms(ranking: UserRanking[]): { ranking: UserRanking[]; platforms: PlatformTotal[] } {
+  const { platforms, users } = splitByPlatform(ranking);
+  return {
+    ranking: ranking.map((user, i) => ({ ...user, platforms: users[i] ?? [] })),
+    platforms,
+  };
+}
+
+// Summed usage of several keys, in the shape of a single key's
+function mergeUserData(id: string, name: string, users: Array<UserData | null>): UserData | null {
+  const present = users.filter((u): u is UserData => !!u);
+  if (present.length === 0) return null;
+
+  const total = { cost: 0, tokens: 0, inputTokens: 0, outputTokens: 0, cacheCreateTokens: 0, cacheReadTokens: 0, requests: 0 };
+  const tags = new Set<string>();
+  let models: Record<string, ModelUsage> | undefined = {};
+
+  for (const user of present) {
+    for (const field of Object.keys(total) as Array<keyof typeof total>) {
+      total[field] += Number(user.usage?.total?.[field] ?? 0);
+    }
+    for (const tag of Array.isArray(user.tags) ? user.tags : []) tags.add(tag);
+
+    const userModels = user.usage?.models;
+    if (!models || !userModels) {
+      models = undefined;
+      continue;
+    }
+    for (const [model, usage] of Object.entries(userModels)) {
+      const sum = models[model] ?? { cost: 0, tokens: 0, inputTokens: 0, outputTokens: 0, cacheCreateTokens: 0, cacheReadTokens: 0, requests: 0 };
+      for (const field of Object.keys(sum) as Array<keyof ModelUsage>) {
+        sum[field] += Number(usage[field] ?? 0);
+      }
+      models[model] = sum;
+    }
+  }
+
+  return {
+    id,
+    name,
+    tags: Array.from(tags),
+    usage: {
+      total: { ...total, cost: +total.cost.toFixed(6), formattedCost: `$${total.cost.toFixed(2)}` },
+      ...(models && { models }),
+    },
+  };
+}
+
+function mergeModels(breakdowns: Array<ModelBreakdown[] | null>): ModelBreakdown[] | null {
+  if (breakdowns.some(models => !models)) return null;
+
+  const byModel = new Map<string, ModelBreakdown>();
+  for (const model of breakdowns.flat() as ModelBreakdown[]) {
+    const sum = byModel.get(model.model) ?? { model: model.model, cost: 0, tokens: 0, requests: 0 };
+    sum.cost = +(sum.cost + model.cost).toFixed(6);
+    sum.tokens += model.tokens;
+    sum.requests += model.requests;
+    byModel.set(model.model, sum);
+  }
+
+  return Array.from(byModel.values()).sort((a, b) => b.cost - a.cost);
+}
+
+// Summaries stored before people were added have one key per row and no keyIds
+function withKeyIds(user: UserRanking): UserRanking {
+  if (user.keyIds) return user;
+
+  const keyId = user.rawEnd?.id ?? user.rawStart?.id ?? '';
+  return { ...user, keyIds: keyId ? [keyId] : [] };
+}
+
+/**
+ * One ranking row per person for the period, keys without a person keeping
+ * their own. A merged row's raw usage carries the ID of its most expensive key.
+ * Closed periods store the rows as merged when they closed, like their
+ * settlements, so later mapping changes only affect the current period.
+ */
+function mergePeople(period: PeriodInfo, ranking: UserRanking[]): UserRanking[] {
+  const ownerOf = identityService.resolver(period.startAt, period.endAt);
+  const rows = new Map<string, { name: string | null; users: UserRanking[] }>();
+
+  ranking.forEach((user, index) => {
+    const keyId = user.rawEnd?.id ?? user.rawStart?.id ?? '';
+    const keyed = withKeyIds(user);
+    const owner = keyId ? ownerOf(keyId) : null;
+    const group = owner ? `person:${owner.personId}` : `key:${keyId || index}`;
+
+    const row = rows.get(group) ?? { name: owner?.name ?? null, users: [] };
+    row.users.push(keyed);
+    rows.set(group, row);
+  });
+
+  return Array.from(rows.values())
+    .map(({ name, users }) => {
+      if (users.length === 1) {
+        return name ? { ...users[0]!, name } : users[0]!;
+      }
+
+      const primary = users.reduce((a, b) => (b.cost > a.cost ? b : a));
+      const id = primary.rawEnd?.id ?? primary.rawStart?.id ?? '';
+      const merged: UserRanking = {
+        ...primary,
+        name: name ?? primary.name,
+        cost: +users.reduce((sum, u) => sum + u.cost, 0).toFixed(6),
+        share: users.reduce((sum, u) => sum + u.share, 0),
+        rawStart: mergeUserData(id, name ?? primary.name, users.map(u => u.rawStart)),
+        rawEnd: mergeUserData(id, name ?? primary.name, users.map(u => u.rawEnd)),
+        periodTokens: users.reduce((sum, u) => sum + u.periodTokens, 0),
+        periodRequests: users.reduce((sum, u) => sum + u.periodRequests, 0),
+        models: mergeModels(users.map(u => u.models)),
+        keyIds: users.flatMap(u => u.keyIds),
+      };
+      return merged;
+    })
+    .sort((a, b) => b.cost - a.cost);
 }
 
+type PeriodBounds = Omit<PeriodInfo, 'id' | 'slug' | 'label' | 'note'>;
+
 export class BillingCalculator {
+  private readonly timezone = process.env.SNAPSHOT_TIMEZONE || 'Asia/Shanghai';
+
   async getPeriods(): Promise<PeriodInfo[]> {
-    const snapshots = db.getSnapshots();
-    const periods: PeriodInfo[] = [];
+    const snapshots = db.getBoundarySnapshots();
+    const periods: PeriodBounds[] = [];
 
     if (snapshots.length === 0) {
       // No snapshots case: only current period from beginning
       periods.push({
         index: 0,
         startSnapshotId: null,
+        endSnapshotId: null,
         startAt: null,
         endAt: null,
         isCurrent: true
@@ -137,7 +445,8 @@ export class BillingCalculator {
         periods.push({
           index: snapshots.length,
           startSnapshotId: lastSnapshot.id,
-          startAt: lastSnapshot.created_at,
+          endSnapshotId: null,
+          startAt: lastSnapshot.effective_at,
           endAt: null,
           isCurrent: true
         });
@@ -149,8 +458,9 @@ export class BillingCalculator {
         periods.push({
           index: 0,
           startSnapshotId: null,
+          endSnapshotId: firstSnapshot.id,
           startAt: null,
-          endAt: firstSnapshot.created_at,
+          endAt: firstSnapshot.effective_at,
           isCurrent: false
         });
       }
@@ -164,15 +474,67 @@ export class BillingCalculator {
           periods.push({
             index: i,
             startSnapshotId: startSnapshot.id,
-            startAt: startSnapshot.created_at,
-            endAt: endSnapshot.created_at,
+            endSnapshotId: endSnapshot.id,
+            startAt: startSnapshot.effective_at,
+            endAt: endSnapshot.effective_at,
             isCurrent: false
           });
         }
       }
     }
 
-    return periods;
+    return this.identify(periods);
+  }
+
+  /**
+   * Looks a period up by ID, slug, `current`, or (for old links) index. An ID
+   * whose end snapshot is gone still finds the period with the same start.
+   */
+  async findPeriod(ref: string): Promise<PeriodInfo> {
+    const periods = await this.getPeriods();
+
+    const period = ref === 'current'
+      ? periods.find(p => p.isCurrent)
+      : periods.find(p => p.id === ref)
+        ?? periods.find(p => p.slug === ref)
+        ?? (/^\d+$/.test(ref) ? periods.find(p => p.index === parseInt(ref)) : undefined)
+        ?? periods.find(p => p.id.split('-')[0] === ref.match(/^(\d+)-(\d+|current)$/)?.[1]);
+
+    if (!period) {
+      throw new Error(`Period ${ref} not found`);
+    }
+    return period;
+  }
+
+  setPeriodLabel(period: PeriodInfo, label: string | null, note: string | null) {
+    db.setPeriodLabel(period.startSnapshotId ?? 0, label, note);
+  }
+
+  private identify(periods: PeriodBounds[]): PeriodInfo[] {
+    const labels = new Map(db.getPeriodLabels().map(l => [l.start_snapshot_id, l]));
+    const slugCounts = new Map<string, number>();
+    const slugs = new Map<number, string>();
+
+    for (const period of [...periods].sort((a, b) => a.index - b.index)) {
+      if (!period.startAt) continue;
+
+      const { year, month } = getZonedParts(new Date(period.startAt), this.timezone);
+      const base = `${year}-${String(month).padStart(2, '0')}`;
+      const count = (slugCounts.get(base) ?? 0) + 1;
+      slugCounts.set(base, count);
+      slugs.set(period.index, count === 1 ? base : `${base}-${count}`);
+    }
+
+    return periods.map((period) => {
+      const label = labels.get(period.startSnapshotId ?? 0);
+      return {
+        ...period,
+        id: `${period.startSnapshotId ?? 0}-${period.endSnapshotId ?? 'current'}`,
+        slug: slugs.get(period.index) ?? null,
+        label: label?.label ?? null,
+        note: label?.note ?? null,
+      };
+    });
   }
 
   async getPeriodSummary(periodIndex: number, meId?: string): Promise<PeriodSummary> {
@@ -183,69 +545,116 @@ export class BillingCalculator {
       throw new Error(`Period ${periodIndex} not found`);
     }
 
+    if (period.isCurrent || period.endSnapshotId === null) {
+      const summary = await this.computeSummary(period);
+      return {
+        ...this.personalize(summary.period, summary.totals.totalCost, mergePeople(summary.period, summary.ranking), summary.reconciliation, meId),
+        ...(summary.incomplete && { incomplete: summary.incomplete })
+      };
+    }
+
+    // Closed periods are served from their stored summary, computing it on first use
+    const stored = db.getPeriodSummary(period.endSnapshotId);
+    if (stored && stored.start_snapshot_id === period.startSnapshotId) {
+      // Summaries stored before reconciliation was recorded have none
+      const reconciliation = stored.reconciliation_json ? JSON.parse(stored.reconciliation_json) : [];
+      return this.personalize(period, stored.total_cost, JSON.parse(stored.ranking_json), reconciliation, meId);
+    }
+
+    const summary = await this.materialize(period);
+    return this.personalize(period, summary.totals.totalCost, summary.ranking, summary.reconciliation, meId);
+  }
+
+  // Computes and stores the summary of the closed period ending at `endSnapshotId`
+  async materializePeriodEndingAt(endSnapshotId: number): Promise<PeriodSummary | null> {
+    const periods = await this.getPeriods();
+    const period = periods.find(p => p.endSnapshotId === endSnapshotId);
+    return period ? this.materialize(period) : null;
+  }
+
+  // Recomputes every closed period's stored summary from the snapshots
+  async rebuildPeriodSummaries(): Promise<number> {
+    const closed = (await this.getPeriods()).filter(p => !p.isCurrent && p.endSnapshotId !== null);
+
+    db.deletePeriodSummaries();
+    for (const period of closed) {
+      await this.materialize(period);
+    }
+
+    return closed.length;
+  }
+
+  // The ranking is stored merged into people, so the period keeps the grouping it was settled with
+  private async materialize(period: PeriodInfo): Promise<PeriodSummary> {
+    const computed = await this.computeSummary(period);
+    const split = withPlatforms(mergePeople(period, computed.ranking));
+    const summary: PeriodSummary = {
+      ...computed,
+      totals: { ...computed.totals, userCount: split.ranking.length },
+      platforms: split.platforms,
+      ranking: split.ranking,
+    };
+
+    db.savePeriodSummary({
+      end_snapshot_id: period.endSnapshotId!,
+      start_snapshot_id: period.startSnapshotId,
+      total_cost: summary.totals.totalCost,
+      user_count: summary.totals.userCount,
+      ranking_json: JSON.stringify(summary.ranking),
+      reconciliation_json: JSON.stringify(summary.reconciliation),
+    });
+
+    return summary;
+  }
+
+  // Stored rankings are anonymous; only the viewer's own row gets its ID back, whichever of its keys they used
+  private personalize(period: PeriodInfo, totalCost: number, ranking: UserRanking[], reconciliation: ReconciliationEntry[], meId?: string): PeriodSummary {
+    const users = ranking.map(withKeyIds).map((user) => {
+      const isMe = !!meId && user.keyIds.includes(meId);
+      return { ...user, id: isMe ? meId! : '', isMe };
+    });
+    const split = withPlatforms(users);
+
+    return {
+      period,
+      totals: {
+        totalCost,
+        userCount: users.length
+      },
+      platforms: split.platforms,
+      ranking: split.ranking,
+      reconciliation
+    };
+  }
+
+  private async computeSummary(period: PeriodInfo, meId?: string): Promise<PeriodSummary> {
     let startData: UserData[] = [];
     let endData: UserData[] = [];
+    let failedKeys: string[] = [];
+    let unavailable = new Set<string>();
 
-    if (period.index === 0) {
-      // First historical period: start from 0, end with first snapshot
-      if (period.endAt) {
-        // There is a snapshot - find it and use it as endData
-        const snapshots = db.getSnapshots();
-        const endSnapshot = snapshots.find(s => s.created_at === period.endAt);
-        if (endSnapshot) {
-          // Handle double JSON encoding issue
-          let rawData = endSnapshot.raw_json;
-          if (typeof rawData === 'string' && rawData.startsWith('"')) {
-            rawData = JSON.parse(rawData);
-          }
-          endData = JSON.parse(rawData);
-        }
-      } else {
-        // No snapshots case: start from 0, end with current data
-        endData = await apiClient.getCurrentCosts();
-      }
-    } else if (period.isCurrent) {
-      // Current period: start from latest snapshot data, end with current data
-      const startSnapshot = db.getSnapshotById(period.startSnapshotId!);
-      if (startSnapshot) {
-        // Handle double JSON encoding issue
-        let rawData = startSnapshot.raw_json;
-        if (typeof rawData === 'string' && rawData.startsWith('"')) {
-          rawData = JSON.parse(rawData);
-        }
-        startData = JSON.parse(rawData);
-      }
-      endData = await apiClient.getCurrentCosts();
-    } else {
-      // Historical period: both start and end from snapshots
-      const startSnapshot = db.getSnapshotById(period.startSnapshotId!);
-      if (startSnapshot) {
-        // Handle double JSON encoding issue
-        let rawData = startSnapshot.raw_json;
-        if (typeof rawData === 'string' && rawData.startsWith('"')) {
-          rawData = JSON.parse(rawData);
-        }
-        startData = JSON.parse(rawData);
-      }
+    if (period.startSnapshotId !== null) {
+      startData = snapshotUsers(period.startSnapshotId);
+    }
 
-      const snapshots = db.getSnapshots();
-      const endSnapshotIndex = snapshots.findIndex(s => s.created_at === period.endAt);
-      if (endSnapshotIndex !== -1 && snapshots[endSnapshotIndex]) {
-        // Handle double JSON encoding issue
-        let rawData = snapshots[endSnapshotIndex]!.raw_json;
-        if (typeof rawData === 'string' && rawData.startsWith('"')) {
-          rawData = JSON.parse(rawData);
-        }
-        endData = JSON.parse(rawData);
-      }
+    if (period.endSnapshotId !== null) {
+      endData = snapshotUsers(period.endSnapshotId);
+    } else {
+      // Current period (or no snapshots yet): end with live data
+      const current = await apiClient.getCurrentCosts();
+      endData = current.keys;
+      failedKeys = current.failed.map(key => key.name);
+      unavailable = new Set(current.failed.map(key => key.id));
     }
 
-    const result = computePeriodDelta(startData, endData, meId);
+    const history = await this.getUsageHistory(period, startData, endData);
+    const result = computePeriodDelta(startData, endData, meId, { ...history, unavailable });
 
     // Filter out users with zero activity (cost, requests, and tokens all 0)
     const activeUsers = result.users.filter(u => 
       u.cost > 0 || u.periodTokens > 0 || u.periodRequests > 0
     );
+    const split = withPlatforms(activeUsers);
 
     return {
       period: {
@@ -256,10 +665,47 @@ export class BillingCalculator {
         totalCost: result.totalCost,
         userCount: activeUsers.length
       },
-      ranking: activeUsers
+      platforms: split.platforms,
+      ranking: split.ranking,
+      reconciliation: result.reconciliation,
+      ...(failedKeys.length > 0 && { incomplete: { failedKeys } })
     };
   }
 
+  /**
+   * The period's usage samples by key, and the relay's deletion times and
+   * excluded keys when some keys are missing from the end data.
+   */
+  private async getUsageHistory(period: PeriodInfo, startData: UserData[], endData: UserData[]): Promise<Omit<UsageHistory, 'unavailable'>> {
+    const samples = new Map<string, UsageSample[]>();
+    for (const sample of periodUsageSamples(period)) {
+      const keySamples = samples.get(sample.key_id) ?? [];
+      keySamples.push(sample);
+      samples.set(sample.key_id, keySamples);
+    }
+
+    const present = new Set(endData.map(user => user.id));
+    const missing = [...startData.map(user => user.id), ...Array.from(samples.keys())].some(id => !present.has(id));
+
+    // Both only tell missing keys apart, so the period is still computed without them
+    const deletedAt = new Map<string, string | null>();
+    const excluded = new Set<string>();
+    if (missing) {
+      try {
+        for (const key of await apiClient.listDeletedApiKeys()) deletedAt.set(key.id, key.deletedAt);
+      } catch (error) {
+        console.error('Deleted keys unavailable:', error);
+      }
+      try {
+        for (const id of await apiClient.listExcludedKeyIds()) excluded.add(id);
+      } catch (error) {
+        console.error('Excluded keys unavailable:', error);
+      }
+    }
+
+    return { samples, deletedAt, excluded, endAt: period.endAt || new Date().toISOString() };
+  }
+
   async getUserDetail(periodIndex: number, meId: string): Promise<UserDetail> {
     const summary = await this.getPeriodSummary(periodIndex, meId);
     const me = summary.ranking.find(u => u.id === meId);
@@ -274,6 +720,10 @@ export class BillingCalculator {
       startCost: Number(me.rawStart?.usage?.total?.cost ?? 0),
       endCost: Number(me.rawEnd?.usage?.total?.cost ?? 0),
       deltaCost: me.cost,
+      // Stored summaries from before per-model usage was recorded have no models field
+      models: me.models ?? null,
+      keyCount: me.keyIds.length,
+      keyIds: me.keyIds,
       raw: {
         start: me.rawStart,
         end: me.rawEnd
@@ -0,0 +1,234 @@
+import { db, type BudgetRecord, type BudgetScope } from './database';
+import { billingCalculator, type PeriodSummary } from './billing-calculator';
+import { alertNotifier } from './alert-notifier';
+import { groupRanking, type GroupRanking } from './tag-groups';
+import { readIntEnv } from './env';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface Budget {
+  id: number;
+  scope: BudgetScope;
+  keyId: string | null;
+  // Tag of a group budget
+  tag: string | null;
+  name: string | null;
+  amount: number;
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+export interface BudgetStatus {
+  amount: number;
+  spent: number;
+  remaining: number;
+  ratio: number;
+}
+
+export type BudgetedPeriodSummary<T extends PeriodSummary> = Omit<T, 'ranking'> & {
+  budget: BudgetStatus | null;
+  ranking: Array<T['ranking'][number] & { budget: BudgetStatus | null }>;
+};
+
+function toBudget(record: BudgetRecord): Budget {
+  return {
+    id: record.id,
+    scope: record.scope,
+    keyId: record.scope === 'user' ? record.key_id : null,
+    tag: record.scope === 'group' ? record.key_id : null,
+    name: record.name,
+    amount: record.amount,
+    updatedAt: record.updated_at,
+    updatedBy: record.updated_by,
+  };
+}
+
+export class BudgetService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private readonly thresholds: number[];
+
+  constructor(private readonly checkIntervalMs: number) {
+    this.thresholds = (process.env.BUDGET_ALERT_THRESHOLDS || '50,80,100')
+      .split(',')
+      .map(value => parseInt(value.trim()))
+      .filter(value => Number.isFinite(value) && value > 0)
+      .sort((a, b) => a - b);
+  }
+
+  getThresholds(): number[] {
+    return this.thresholds;
+  }
+
+  listBudgets(): Budget[] {
+    return db.getBudgets().map(toBudget);
+  }
+
+  setBudget(keyId: string | null, name: string | null, amount: number, updatedBy: string): Budget {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Budget amount must be a positive number');
+    }
+
+    const record = keyId === null
+      ? db.upsertBudget('global', '', null, amount, updatedBy)
+      : db.upsertBudget('user', keyId, name, amount, updatedBy);
+    return toBudget(record);
+  }
+
+  setGroupBudget(tag: string, amount: number, updatedBy: string): Budget {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Budget amount must be a positive number');
+    }
+    if (!/^[^:]+:.+$/.test(tag)) {
+      throw new Error('Budget tag must look like <grouping>:<group>, e.g. team:infra');
+    }
+
+    return toBudget(db.upsertBudget('group', tag, tag, amount, updatedBy));
+  }
+
+  deleteBudget(id: number): boolean {
+    return db.deleteBudget(id);
+  }
+
+  private status(amount: number, spent: number): BudgetStatus {
+    return {
+      amount,
+      spent: +spent.toFixed(6),
+      remaining: +(amount - spent).toFixed(6),
+      ratio: +(spent / amount).toFixed(4),
+    };
+  }
+
+  // A person's budget is the sum of their keys' budgets; null when none of them has one
+  private amountFor(keyIds: string[], budgets: BudgetRecord[]): number | null {
+    const amounts = budgets.filter(b => b.scope === 'user' && keyIds.includes(b.key_id)).map(b => b.amount);
+    return amounts.length > 0 ? +amounts.reduce((sum, amount) => sum + amount, 0).toFixed(6) : null;
+  }
+
+  getUserBudgetStatus(keyIds: string[], spent: number): BudgetStatus | null {
+    const amount = this.amountFor(keyIds, db.getBudgets());
+    return amount !== null ? this.status(amount, spent) : null;
+  }
+
+  /**
+   * Adds budget consumption to a period summary: `budget` for the global
+   * budget against the period total, and `budget` on each ranking entry.
+   */
+  withBudgets<T extends PeriodSummary>(summary: T): BudgetedPeriodSummary<T> {
+    const budgets = db.getBudgets();
+    const global = budgets.find(b => b.scope === 'global');
+
+    const ranking = summary.ranking.map((user) => {
+      const amount = this.amountFor(user.keyIds, budgets);
+      return { ...user, budget: amount !== null ? this.status(amount, user.cost) : null };
+    });
+
+    return {
+      ...summary,
+      ranking,
+      budget: global ? this.status(global.amount, summary.totals.totalCost) : null,
+    };
+  }
+
+  // Adds each group's budget consumption, for groups with a budget on their tag
+  withGroupBudgets(groups: GroupRanking[]): Array<GroupRanking & { budget: BudgetStatus | null }> {
+    const byTag = new Map(db.getBudgets().filter(b => b.scope === 'group').map(b => [b.key_id, b.amount]));
+
+    return groups.map((group) => {
+      const amount = group.tag ? byTag.get(group.tag) : undefined;
+      return { ...group, budget: amount !== undefined ? this.status(amount, group.cost) : null };
+    });
+  }
+
+  private formatCurrency(amount: number): string {
+    return `$${amount.toFixed(2)}`;
+  }
+
+  private async alert(scope: BudgetScope, name: string, threshold: number, status: BudgetStatus, periodIndex: number) {
+    const who = scope === 'global' ? 'Team' : scope === 'group' ? `Group ${name}` : name;
+
+    await alertNotifier.send({
+      type: 'budget.threshold',
+      title: `${who} reached ${threshold}% of the period budget`,
+      lines: [
+        `${who} has spent ${this.formatCurrency(status.spent)} of the ${this.formatCurrency(status.amount)} budget for the current billing period (${(status.ratio * 100).toFixed(1)}%).`,
+        status.remaining > 0 ? `Remaining: ${this.formatCurrency(status.remaining)}` : `Over budget by ${this.formatCurrency(-status.remaining)}`,
+      ],
+      data: { scope, name: scope === 'global' ? null : name, threshold, periodIndex, ...status },
+    });
+  }
+
+  /**
+   * Compares current period costs against every budget and alerts once per
+   * period for each newly crossed threshold. When several thresholds are
+   * crossed at once only the highest is announced.
+   */
+  async checkThresholds(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const budgets = db.getBudgets();
+      if (budgets.length === 0 || this.thresholds.length === 0) return 0;
+
+      const periods = await billingCalculator.getPeriods();
+      const current = periods.find(p => p.isCurrent);
+      if (!current) return 0;
+
+      const summary = this.withBudgets(await billingCalculator.getPeriodSummary(current.index));
+      const periodKey = current.startSnapshotId ?? 0;
+      let fired = 0;
+
+      const check = async (scope: BudgetScope, keyId: string, name: string, status: BudgetStatus | null) => {
+        if (!status) return;
+        const crossed = this.thresholds.filter(t => status.ratio * 100 >= t);
+        if (crossed.length === 0) return;
+
+        const claimed = db.claimBudgetAlerts(periodKey, scope, keyId, crossed, status.amount, status.spent);
+        if (claimed.length === 0) return;
+
+        await this.alert(scope, name, Math.max(...claimed), status, current.index);
+        fired += 1;
+      };
+
+      await check('global', '', 'Team', summary.budget);
+      for (const user of summary.ranking) {
+        // Claimed under the keys whose budgets make up the person's, as the status above adds them up
+        const budgeted = user.keyIds.filter(id => budgets.some(b => b.scope === 'user' && b.key_id === id));
+        await check('user', budgeted.sort().join(','), user.name, user.budget);
+      }
+
+      const groupPrefixes = new Set(budgets.filter(b => b.scope === 'group').map(b => b.key_id.split(':')[0]!));
+      for (const prefix of groupPrefixes) {
+        for (const group of this.withGroupBudgets(groupRanking(summary.ranking, prefix))) {
+          if (group.tag) await check('group', group.tag, group.tag, group.budget);
+        }
+      }
+
+      return fired;
+    } catch (error) {
+      console.error('Budget check failed:', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  start() {
+    if (this.timer || this.checkIntervalMs <= 0) return;
+
+    this.timer = setInterval(() => this.checkThresholds(), this.checkIntervalMs);
+    this.checkThresholds();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const budgetService = new BudgetService(
+  readIntEnv('BUDGET_CHECK_INTERVAL_MINUTES', 15) * MINUTE_MS
+);
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test';
+import { getZonedParts, nextRun, parseSchedule, parseScheduleList } from './cron';
+
+const matches = (source: string, at: string, timezone = 'UTC') => {
+  const schedule = parseSchedule('test', source, timezone);
+  return schedule.matches(getZonedParts(new Date(at), schedule.timezone));
+};
+
+const next = (source: string, from: string, horizonDays?: number) =>
+  nextRun(parseSchedule('test', source, 'UTC'), new Date(from), horizonDays)?.toISOString() ?? null;
+
+describe('parseSchedule', () => {
+  test('expands macros and reads a trailing timezone', () => {
+    const schedule = parseSchedule('monthly', '@monthly Asia/Shanghai');
+    expect(schedule.expression).toBe('0 0 1 * *');
+    expect(schedule.timezone).toBe('Asia/Shanghai');
+  });
+
+  test('rejects out-of-range fields, wrong field counts and unknown timezones', () => {
+    expect(() => parseSchedule('bad', '0 0 32 * *')).toThrow('allowed range 1-31');
+    expect(() => parseSchedule('bad', '0 0 1 *')).toThrow('must have 5 fields');
+    expect(() => parseSchedule('bad', '0 0 1 * * Mars/Olympus')).toThrow('Invalid timezone "Mars/Olympus"');
+    expect(() => parseSchedule('bad', '@every 0d')).toThrow('Invalid interval');
+  });
+});
+
+describe('parseScheduleList', () => {
+  test('reads named schedules separated by semicolons', () => {
+    const schedules = parseScheduleList('monthly=0 0 1 * * Asia/Shanghai; fortnightly=@every 14d', 'UTC');
+    expect(schedules.map(s => [s.name, s.expression, s.timezone])).toEqual([
+      ['monthly', '0 0 1 * *', 'Asia/Shanghai'],
+      ['fortnightly', '@every 14d', 'UTC'],
+    ]);
+  });
+
+  test('rejects entries without a name and duplicate names', () => {
+    expect(() => parseScheduleList('0 0 1 * *')).toThrow('expected "name=expression"');
+    expect(() => parseScheduleList('a=@daily; a=@weekly')).toThrow('Duplicate schedule name "a"');
+  });
+});
+
+describe('getZonedParts', () => {
+  test('reads wall-clock fields in the timezone', () => {
+    expect(getZonedParts(new Date('2026-01-31T16:30:00.000Z'), 'Asia/Shanghai')).toEqual({
+      year: 2026, month: 2, day: 1, hour: 0, minute: 30, weekday: 0,
+    });
+  });
+
+  test('follows daylight saving changes', () => {
+    // Clocks go forward on 8 March 2026 in New York
+    expect(getZonedParts(new Date('2026-03-08T05:00:00.000Z'), 'America/New_York').hour).toBe(0);
+    expect(getZonedParts(new Date('2026-03-09T04:00:00.000Z'), 'America/New_York').hour).toBe(0);
+  });
+});
+
+describe('matches', () => {
+  test('matches a month start in the schedule timezone', () => {
+    expect(matches('@monthly', '2026-01-31T16:00:00.000Z', 'Asia/Shanghai')).toBe(true);
+    expect(matches('@monthly', '2026-02-01T00:00:00.000Z', 'Asia/Shanghai')).toBe(false);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 3 April 2026 is a Friday and 13 April a Monday
+    expect(matches('0 0 13 * 5', '2026-04-03T00:00:00.000Z')).toBe(true);
+    expect(matches('0 0 13 * 5', '2026-04-13T00:00:00.000Z')).toBe(true);
+    expect(matches('0 0 13 * 5', '2026-04-14T00:00:00.000Z')).toBe(false);
+  });
+
+  test('treats weekday 7 as Sunday', () => {
+    // 5 April 2026 is a Sunday
+    expect(matches('0 0 * * 7', '2026-04-05T00:00:00.000Z')).toBe(true);
+  });
+
+  test('matches @every intervals at midnight on every Nth day counted from 1970-01-01', () => {
+    // 2026-03-05 is day 20517 = 14 * 1465 + 7, so 2026-02-26 and 2026-03-12 are slots
+    expect(matches('@every 14d', '2026-02-26T00:00:00.000Z')).toBe(true);
+    expect(matches('@every 14d', '2026-03-12T00:00:00.000Z')).toBe(true);
+    expect(matches('@every 14d', '2026-03-05T00:00:00.000Z')).toBe(false);
+    expect(matches('@every 14d', '2026-02-26T00:01:00.000Z')).toBe(false);
+  });
+});
+
+describe('nextRun', () => {
+  test('returns the first slot strictly after the given time', () => {
+    expect(next('0 0 * * *', '2026-03-01T00:00:00.000Z')).toBe('2026-03-02T00:00:00.000Z');
+    expect(next('0 0 * * *', '2026-02-28T23:59:30.000Z')).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  test('skips months too short for the day of month', () => {
+    expect(next('0 0 31 * *', '2026-04-01T00:00:00.000Z')).toBe('2026-05-31T00:00:00.000Z');
+    expect(next('0 0 30 * *', '2026-02-01T00:00:00.000Z')).toBe('2026-03-30T00:00:00.000Z');
+  });
+
+  test('finds 29 February only within the horizon', () => {
+    expect(next('0 0 29 2 *', '2026-01-01T00:00:00.000Z')).toBeNull();
+    expect(next('0 0 29 2 *', '2026-01-01T00:00:00.000Z', 1000)).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  test('places month starts in the schedule timezone', () => {
+    const monthly = parseSchedule('monthly', '@monthly', 'Asia/Shanghai');
+    expect(nextRun(monthly, new Date('2026-01-31T16:30:00.000Z'))?.toISOString()).toBe('2026-02-28T16:00:00.000Z');
+  });
+
+  test('keeps local midnight across daylight saving changes', () => {
+    const daily = parseSchedule('daily', '@daily America/New_York');
+    // Clocks go forward on 8 March and back on 1 November 2026
+    expect(nextRun(daily, new Date('2026-03-07T06:00:00.000Z'))?.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(nextRun(daily, new Date('2026-03-08T05:00:00.000Z'))?.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(nextRun(daily, new Date('2026-11-01T05:00:00.000Z'))?.toISOString()).toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  test('skips a time that does not exist when clocks go forward', () => {
+    const schedule = parseSchedule('night', '30 2 * * * America/New_York');
+    expect(nextRun(schedule, new Date('2026-03-07T12:00:00.000Z'))?.toISOString()).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  test('takes the first of a time repeated when clocks go back', () => {
+    const schedule = parseSchedule('night', '30 1 * * * America/New_York');
+    expect(nextRun(schedule, new Date('2026-11-01T00:00:00.000Z'))?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // 13 April 2026 is a Monday
+    expect(next('0 0 13 * 5', '2026-04-01T00:00:00.000Z')).toBe('2026-04-03T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2026-04-10T00:00:00.000Z')).toBe('2026-04-13T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2026-04-13T00:00:00.000Z')).toBe('2026-04-17T00:00:00.000Z');
+  });
+
+  test('runs @every intervals on local calendar days counted from 1970-01-01', () => {
+    const at = new Date(next('@every 14d', '2026-03-01T00:00:00.000Z')!);
+    const parts = getZonedParts(at, 'UTC');
+    expect(parts.hour).toBe(0);
+    expect(Math.floor(Date.UTC(parts.year, parts.month - 1, parts.day) / 86400000) % 14).toBe(0);
+    expect(next('@every 14d', at.toISOString())).toBe(new Date(at.getTime() + 14 * 86400000).toISOString());
+  });
+});
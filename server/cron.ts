@@ -0,0 +1,240 @@
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+export interface Schedule {
+  name: string;
+  expression: string;
+  timezone: string;
+  matches(parts: ZonedParts): boolean;
+  // Coarser check that lets nextRun skip whole hours
+  matchesHour(parts: ZonedParts): boolean;
+}
+
+type Matchers = Pick<Schedule, 'matches' | 'matchesHour'>;
+
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const MACROS: Record<string, string> = {
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 1',
+  '@daily': '0 0 * * *',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock fields of `date` as seen in `timezone`
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday ?? ''] ?? 0,
+  };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!range || !Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}" (allowed range ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): Matchers {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields as [string, string, string, string, string];
+  const minutes = parseField(minuteField, 0, 59);
+  const hours = parseField(hourField, 0, 23);
+  const days = parseField(dayField, 1, 31);
+  const months = parseField(monthField, 1, 12);
+  const weekdays = parseField(weekdayField, 0, 7);
+  if (weekdays.has(7)) weekdays.add(0);
+
+  const dayRestricted = dayField !== '*';
+  const weekdayRestricted = weekdayField !== '*';
+
+  const matchesDay = (parts: ZonedParts) => {
+    if (!months.has(parts.month)) {
+      return false;
+    }
+
+    // Standard cron semantics: when both day fields are restricted, either may match
+    const dayMatch = days.has(parts.day);
+    const weekdayMatch = weekdays.has(parts.weekday);
+    if (dayRestricted && weekdayRestricted) return dayMatch || weekdayMatch;
+    if (dayRestricted) return dayMatch;
+    if (weekdayRestricted) return weekdayMatch;
+    return true;
+  };
+  const matchesHour = (parts: ZonedParts) => hours.has(parts.hour) && matchesDay(parts);
+
+  return {
+    matchesHour,
+    matches: (parts) => minutes.has(parts.minute) && matchesHour(parts),
+  };
+}
+
+// "@every 14d": midnight on every Nth local calendar day, counted from 1970-01-01
+function parseEvery(expression: string): Matchers {
+  const match = expression.match(/^@every\s+(\d+)d$/);
+  const interval = match ? Number(match[1]) : 0;
+  if (!interval) {
+    throw new Error(`Invalid interval "${expression}", expected e.g. "@every 14d"`);
+  }
+
+  const matchesDay = (parts: ZonedParts) => {
+    const dayNumber = Math.floor(Date.UTC(parts.year, parts.month - 1, parts.day) / 86400000);
+    return dayNumber % interval === 0;
+  };
+  const matchesHour = (parts: ZonedParts) => parts.hour === 0 && matchesDay(parts);
+
+  return {
+    matchesHour,
+    matches: (parts) => parts.minute === 0 && matchesHour(parts),
+  };
+}
+
+/**
+ * Parses a schedule expression: a 5-field cron expression (`0 0 1 * *`), a macro
+ * (`@monthly`, `@weekly`, `@daily`) or an interval (`@every 14d`), optionally
+ * followed by an IANA timezone (`0 0 1 * * Asia/Shanghai`).
+ */
+export function parseSchedule(name: string, source: string, defaultTimezone: string = DEFAULT_TIMEZONE): Schedule {
+  const tokens = source.trim().split(/\s+/);
+  let timezone = defaultTimezone;
+
+  const lastToken = tokens[tokens.length - 1];
+  if (tokens.length > 1 && lastToken && /[A-Za-z]/.test(lastToken) && !lastToken.startsWith('@') && !/^\d+d$/.test(lastToken)) {
+    timezone = lastToken;
+    tokens.pop();
+  }
+
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid timezone "${timezone}" in schedule "${name}"`);
+  }
+
+  let expression = tokens.join(' ');
+  expression = MACROS[expression] ?? expression;
+  const matchers = expression.startsWith('@every') ? parseEvery(expression) : parseCron(expression);
+
+  return { name, expression, timezone, ...matchers };
+}
+
+/**
+ * First slot of `schedule` strictly after `from`, searching up to `horizonDays` ahead.
+ */
+export function nextRun(schedule: Schedule, from: Date, horizonDays: number = 400): Date | null {
+  const minuteMs = 60 * 1000;
+  let t = (Math.floor(from.getTime() / minuteMs) + 1) * minuteMs;
+  const limit = t + horizonDays * 24 * 60 * minuteMs;
+
+  while (t < limit) {
+    const parts = getZonedParts(new Date(t), schedule.timezone);
+    if (!schedule.matchesHour(parts)) {
+      // Jump to the start of the next local hour
+      t += (60 - parts.minute) * minuteMs;
+      continue;
+    }
+    if (schedule.matches(parts)) {
+      return new Date(t);
+    }
+    t += minuteMs;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a list of named schedules separated by semicolons, e.g.
+ * `monthly=0 0 1 * * Asia/Shanghai; fortnightly=@every 14d`.
+ */
+export function parseScheduleList(source: string, defaultTimezone: string = DEFAULT_TIMEZONE): Schedule[] {
+  const schedules: Schedule[] = [];
+
+  for (const entry of source.split(';')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid schedule "${entry.trim()}", expected "name=expression"`);
+    }
+
+    const name = entry.slice(0, separator).trim();
+    if (schedules.some(s => s.name === name)) {
+      throw new Error(`Duplicate schedule name "${name}"`);
+    }
+    schedules.push(parseSchedule(name, entry.slice(separator + 1), defaultTimezone));
+  }
+
+  return schedules;
+}
@@ -1,52 +1,402 @@
 import { Database } from "bun:sqlite";
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { Migrator } from "./migrations";
 
 export interface BillingSnapshot {
   id: number;
   created_at: string;
+  // When the snapshot bounds its periods: created_at unless an admin moved it
+  effective_at: string;
   timezone: string;
-  raw_json: string;
+  schedule: string | null;
+  scheduled_for: string | null;
+  note: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
 }
 
+export interface SnapshotEntry {
+  snapshot_id: number;
+  key_id: string;
+  name: string;
+  tags: string;
+  cost: number;
+  tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_create_tokens: number;
+  cache_read_tokens: number;
+  requests: number;
+  // 1 when the key's per-model usage was recorded, even if it had none
+  has_models: number;
+}
+
+export interface SnapshotModelEntry {
+  snapshot_id: number;
+  key_id: string;
+  model: string;
+  cost: number;
+  tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_create_tokens: number;
+  cache_read_tokens: number;
+  requests: number;
+}
+
+export type NewSnapshotModelEntry = Omit<SnapshotModelEntry, 'snapshot_id' | 'key_id'>;
+
+export type NewSnapshotEntry = Omit<SnapshotEntry, 'snapshot_id' | 'has_models'> & {
+  // Left out when per-model usage is unknown
+  models?: NewSnapshotModelEntry[];
+};
+
+export interface SnapshotTotals {
+  snapshot_id: number;
+  user_count: number;
+  total_cost: number;
+}
+
+export interface SnapshotOrigin {
+  schedule?: string;
+  scheduledFor?: string;
+  note?: string;
+  // Only set when importing a snapshot taken elsewhere
+  createdAt?: string;
+}
+
+export interface SettlementRecord {
+  id: number;
+  start_snapshot_id: number | null;
+  end_snapshot_id: number;
+  fee: number;
+  currency: string;
+  total_cost: number;
+  created_at: string;
+}
+
+export interface PeriodSummaryRecord {
+  end_snapshot_id: number;
+  start_snapshot_id: number | null;
+  total_cost: number;
+  user_count: number;
+  ranking_json: string;
+  reconciliation_json: string | null;
+  created_at: string;
+}
+
+export interface PeriodLabelRecord {
+  start_snapshot_id: number;
+  label: string | null;
+  note: string | null;
+  updated_at: string;
+}
+
+export interface PersonRecord {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PersonKeyRecord {
+  id: number;
+  person_id: number;
+  key_id: string;
+  effective_from: string | null;
+  effective_to: string | null;
+  created_at: string;
+}
+
+export interface SettlementEntryRecord {
+  id: number;
+  settlement_id: number;
+  key_id: string;
+  name: string;
+  cost: number;
+  share: number;
+  amount: number;
+  status: 'paid' | 'unpaid';
+  paid_at: string | null;
+  marked_by: string | null;
+  marked_by_name: string | null;
+  pool_amounts: string | null;
+}
+
+export interface NewSettlementEntry {
+  keyId: string;
+  name: string;
+  cost: number;
+  share: number;
+  amount: number;
+  // Amount owed to each fee pool, keyed by platform
+  poolAmounts?: Record<string, number>;
+}
+
+export interface UsageSample {
+  sampled_at: string;
+  key_id: string;
+  name: string;
+  cost: number;
+  tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_create_tokens: number;
+  cache_read_tokens: number;
+  requests: number;
+}
+
+// A sample with what only snapshot interpolation needs
+export interface DetailedUsageSample extends UsageSample {
+  tags: string;
+  // JSON of model -> usage, in the relay's shape; null when per-model usage wasn't fetched
+  models_json: string | null;
+}
+
+// A group budget's key_id is the tag it applies to, e.g. `team:infra`
+export type BudgetScope = 'global' | 'user' | 'group';
+
+export interface BudgetRecord {
+  id: number;
+  scope: BudgetScope;
+  key_id: string;
+  name: string | null;
+  amount: number;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface WebhookRecord {
+  id: number;
+  name: string;
+  url: string;
+  format: string;
+  events: string;
+  secret: string | null;
+  enabled: number;
+  created_at: string;
+}
+
+export interface WebhookDeliveryRecord {
+  id: number;
+  webhook_id: number;
+  event: string;
+  payload_json: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface AccountStateRecord {
+  account_id: string;
+  platform: string;
+  name: string;
+  status: string;
+  schedulable: number | null;
+  stopped_reason: string | null;
+  changed_at: string;
+  checked_at: string;
+}
+
+export interface AccountStatusChangeRecord {
+  account_id: string;
+  platform: string;
+  name: string;
+  status: string;
+  schedulable: number | null;
+  stopped_reason: string | null;
+  changed_at: string;
+}
+
+export interface AccountReadingRecord {
+  account_id: string;
+  platform: string;
+  checked_at: string;
+  status: string;
+  schedulable: number | null;
+  five_hour: number | null;
+  five_hour_resets_at: string | null;
+  seven_day: number | null;
+  seven_day_resets_at: string | null;
+  seven_day_opus: number | null;
+  seven_day_opus_resets_at: string | null;
+  codex_primary: number | null;
+  codex_primary_resets_at: string | null;
+  codex_secondary: number | null;
+  codex_secondary_resets_at: string | null;
+}
+
+export interface AccountAlertRecord {
+  id: number;
+  rule: string;
+  account_id: string;
+  platform: string;
+  name: string;
+  detail: string;
+  condition_since: string;
+  fired_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface SessionRecord {
+  id: string;
+  key_id: string;
+  is_admin: number;
+  user_agent: string | null;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+const SNAPSHOT_COLUMNS = `
+  id, created_at, COALESCE(effective_at, created_at) AS effective_at, timezone, schedule, scheduled_for, note,
+  voided_at, voided_by
+`;
+
 export class DatabaseManager {
   private db: Database;
+  private readonly pidPath: string | null;
 
   constructor(dbPath: string = "./app.db") {
     this.db = new Database(dbPath);
-    this.initDatabase();
+
+    // Tells `bun run restore` the database is open; removed on close or exit
+    this.pidPath = dbPath === ':memory:' ? null : `${dbPath}.pid`;
+    if (this.pidPath) {
+      writeFileSync(this.pidPath, String(process.pid));
+      process.on('exit', () => this.releasePidFile());
+    }
+
+    const { applied, backupPath } = new Migrator(this.db, dbPath).run();
+    if (applied.length > 0) {
+      console.log(`Applied ${applied.length} database migration(s)${backupPath ? `; backup saved to ${backupPath}` : ''}`);
+    }
   }
 
-  private initDatabase() {
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS billing_snapshots (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        created_at TEXT NOT NULL,
-        timezone TEXT NOT NULL DEFAULT 'Asia/Shanghai',
-        raw_json TEXT NOT NULL
+  private insertSnapshotEntries(snapshotId: number, entries: NewSnapshotEntry[]) {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO billing_snapshot_entries (
+        snapshot_id, key_id, name, tags, cost, tokens, input_tokens, output_tokens,
+        cache_create_tokens, cache_read_tokens, requests, has_models
       )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
-    this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_billing_snapshots_created_at ON billing_snapshots(created_at)
+    const modelStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO billing_snapshot_models (
+        snapshot_id, key_id, model, cost, tokens, input_tokens, output_tokens,
+        cache_create_tokens, cache_read_tokens, requests
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+
+    for (const entry of entries) {
+      stmt.run(
+        snapshotId,
+        entry.key_id,
+        entry.name,
+        entry.tags,
+        entry.cost,
+        entry.tokens,
+        entry.input_tokens,
+        entry.output_tokens,
+        entry.cache_create_tokens,
+        entry.cache_read_tokens,
+        entry.requests,
+        entry.models ? 1 : 0
+      );
+
+      for (const model of entry.models ?? []) {
+        modelStmt.run(
+          snapshotId,
+          entry.key_id,
+          model.model,
+          model.cost,
+          model.tokens,
+          model.input_tokens,
+          model.output_tokens,
+          model.cache_create_tokens,
+          model.cache_read_tokens,
+          model.requests
+        );
+      }
+    }
   }
 
-  insertSnapshot(rawJson: string, timezone: string = 'Asia/Shanghai'): number {
+  insertSnapshot(entries: NewSnapshotEntry[], timezone: string = 'Asia/Shanghai', origin: SnapshotOrigin = {}): number {
     const stmt = this.db.prepare(`
-      INSERT INTO billing_snapshots (created_at, timezone, raw_json)
-      VALUES (?, ?, ?)
+      INSERT INTO billing_snapshots (created_at, timezone, raw_json, schedule, scheduled_for, note)
+      VALUES (?, ?, '', ?, ?, ?)
     `);
-    
-    const result = stmt.run(
-      new Date().toISOString(),
-      timezone,
-      rawJson
-    );
-    
-    return result.lastInsertRowid as number;
+
+    return this.db.transaction(() => {
+      const result = stmt.run(
+        origin.createdAt ?? new Date().toISOString(),
+        timezone,
+        origin.schedule ?? null,
+        origin.scheduledFor ?? null,
+        origin.note ?? null
+      );
+      const id = result.lastInsertRowid as number;
+
+      this.insertSnapshotEntries(id, entries);
+      return id;
+    })();
+  }
+
+  // Consistent copy of the live database, safe to take while the server is writing
+  backupTo(path: string) {
+    this.db.run('VACUUM INTO ?', [path]);
+  }
+
+  getSnapshotEntries(snapshotId: number): SnapshotEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT snapshot_id, key_id, name, tags, cost, tokens, input_tokens, output_tokens,
+             cache_create_tokens, cache_read_tokens, requests, has_models
+      FROM billing_snapshot_entries
+      WHERE snapshot_id = ?
+      ORDER BY cost DESC
+    `);
+
+    return stmt.all(snapshotId) as SnapshotEntry[];
+  }
+
+  getSnapshotModels(snapshotId: number): SnapshotModelEntry[] {
+    const stmt = this.db.prepare(`
+      SELECT snapshot_id, key_id, model, cost, tokens, input_tokens, output_tokens,
+             cache_create_tokens, cache_read_tokens, requests
+      FROM billing_snapshot_models
+      WHERE snapshot_id = ?
+      ORDER BY key_id, cost DESC
+    `);
+
+    return stmt.all(snapshotId) as SnapshotModelEntry[];
+  }
+
+  getSnapshotTotals(): SnapshotTotals[] {
+    const stmt = this.db.prepare(`
+      SELECT snapshot_id, COUNT(*) AS user_count, SUM(cost) AS total_cost
+      FROM billing_snapshot_entries
+      GROUP BY snapshot_id
+    `);
+
+    return stmt.all() as SnapshotTotals[];
+  }
+
+  hasSnapshotForSlot(scheduledFor: string): boolean {
+    const stmt = this.db.prepare(`
+      SELECT 1 FROM billing_snapshots WHERE scheduled_for = ? LIMIT 1
+    `);
+
+    return stmt.get(scheduledFor) != null;
   }
 
   getSnapshots(): BillingSnapshot[] {
     const stmt = this.db.prepare(`
-      SELECT id, created_at, timezone, raw_json 
+      SELECT ${SNAPSHOT_COLUMNS}
       FROM billing_snapshots 
       ORDER BY datetime(created_at) ASC
     `);
@@ -54,9 +404,21 @@ export class DatabaseManager {
     return stmt.all() as BillingSnapshot[];
   }
 
+  // The snapshots that bound periods, in the order they bound them
+  getBoundarySnapshots(): BillingSnapshot[] {
+    const stmt = this.db.prepare(`
+      SELECT ${SNAPSHOT_COLUMNS}
+      FROM billing_snapshots
+      WHERE voided_at IS NULL
+      ORDER BY datetime(COALESCE(effective_at, created_at)) ASC, id ASC
+    `);
+
+    return stmt.all() as BillingSnapshot[];
+  }
+
   getSnapshotById(id: number): BillingSnapshot | null {
     const stmt = this.db.prepare(`
-      SELECT id, created_at, timezone, raw_json 
+      SELECT ${SNAPSHOT_COLUMNS}
       FROM billing_snapshots 
       WHERE id = ?
     `);
@@ -66,17 +428,756 @@ export class DatabaseManager {
 
   getLatestSnapshot(): BillingSnapshot | null {
     const stmt = this.db.prepare(`
-      SELECT id, created_at, timezone, raw_json 
+      SELECT ${SNAPSHOT_COLUMNS}
       FROM billing_snapshots 
-      ORDER BY datetime(created_at) DESC 
+      WHERE voided_at IS NULL
+      ORDER BY datetime(COALESCE(effective_at, created_at)) DESC 
       LIMIT 1
     `);
     
     return stmt.get() as BillingSnapshot | null;
   }
 
+  updateSnapshotNote(id: number, note: string | null): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE billing_snapshots SET note = ? WHERE id = ?
+    `);
+
+    return stmt.run(note, id).changes > 0;
+  }
+
+  // A null `voidedBy` restores the snapshot
+  setSnapshotVoided(id: number, voidedBy: string | null, voidedAt: string = new Date().toISOString()): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE billing_snapshots SET voided_at = ?, voided_by = ? WHERE id = ?
+    `);
+
+    return stmt.run(voidedBy !== null ? voidedAt : null, voidedBy, id).changes > 0;
+  }
+
+  setSnapshotEffectiveAt(id: number, effectiveAt: string | null): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE billing_snapshots SET effective_at = ? WHERE id = ?
+    `);
+
+    return stmt.run(effectiveAt, id).changes > 0;
+  }
+
+  deleteSnapshot(id: number): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM billing_snapshot_models WHERE snapshot_id = ?').run(id);
+      this.db.prepare('DELETE FROM billing_snapshot_entries WHERE snapshot_id = ?').run(id);
+      return this.db.prepare('DELETE FROM billing_snapshots WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  getPeriodLabels(): PeriodLabelRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT start_snapshot_id, label, note, updated_at FROM period_labels
+    `);
+
+    return stmt.all() as PeriodLabelRecord[];
+  }
+
+  setPeriodLabel(startSnapshotId: number, label: string | null, note: string | null) {
+    if (label === null && note === null) {
+      this.db.prepare('DELETE FROM period_labels WHERE start_snapshot_id = ?').run(startSnapshotId);
+      return;
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO period_labels (start_snapshot_id, label, note, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(start_snapshot_id) DO UPDATE SET
+        label = excluded.label,
+        note = excluded.note,
+        updated_at = excluded.updated_at
+    `);
+
+    stmt.run(startSnapshotId, label, note, new Date().toISOString());
+  }
+
+  getPeople(): PersonRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, name, created_at, updated_at FROM people ORDER BY name ASC
+    `);
+
+    return stmt.all() as PersonRecord[];
+  }
+
+  insertPerson(name: string): PersonRecord {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO people (name, created_at, updated_at)
+      VALUES (?, ?, ?)
+      RETURNING id, name, created_at, updated_at
+    `);
+
+    return stmt.get(name, now, now) as PersonRecord;
+  }
+
+  renamePerson(id: number, name: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE people SET name = ?, updated_at = ? WHERE id = ?
+    `);
+
+    return stmt.run(name, new Date().toISOString(), id).changes > 0;
+  }
+
+  deletePerson(id: number): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM person_keys WHERE person_id = ?').run(id);
+      return this.db.prepare('DELETE FROM people WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+
+  getPersonKeys(): PersonKeyRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, person_id, key_id, effective_from, effective_to, created_at
+      FROM person_keys
+      ORDER BY person_id ASC, COALESCE(effective_from, '') ASC
+    `);
+
+    return stmt.all() as PersonKeyRecord[];
+  }
+
+  insertPersonKey(personId: number, keyId: string, effectiveFrom: string | null, effectiveTo: string | null): PersonKeyRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO person_keys (person_id, key_id, effective_from, effective_to, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      RETURNING id, person_id, key_id, effective_from, effective_to, created_at
+    `);
+
+    return stmt.get(personId, keyId, effectiveFrom, effectiveTo, new Date().toISOString()) as PersonKeyRecord;
+  }
+
+  deletePersonKey(id: number): boolean {
+    const stmt = this.db.prepare(`
+      DELETE FROM person_keys WHERE id = ?
+    `);
+
+    return stmt.run(id).changes > 0;
+  }
+
+  getSettlementByEndSnapshot(endSnapshotId: number): SettlementRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT id, start_snapshot_id, end_snapshot_id, fee, currency, total_cost, created_at
+      FROM settlements
+      WHERE end_snapshot_id = ?
+    `);
+
+    return stmt.get(endSnapshotId) as SettlementRecord | null;
+  }
+
+  insertSettlement(
+    settlement: { startSnapshotId: number | null; endSnapshotId: number; fee: number; currency: string; totalCost: number },
+    entries: NewSettlementEntry[]
+  ): number {
+    const insertSettlement = this.db.prepare(`
+      INSERT INTO settlements (start_snapshot_id, end_snapshot_id, fee, currency, total_cost, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertEntry = this.db.prepare(`
+      INSERT INTO settlement_entries (settlement_id, key_id, name, cost, share, amount, pool_amounts)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    return this.db.transaction(() => {
+      const result = insertSettlement.run(
+        settlement.startSnapshotId,
+        settlement.endSnapshotId,
+        settlement.fee,
+        settlement.currency,
+        settlement.totalCost,
+        new Date().toISOString()
+      );
+      const settlementId = result.lastInsertRowid as number;
+
+      for (const entry of entries) {
+        insertEntry.run(
+          settlementId,
+          entry.keyId,
+          entry.name,
+          entry.cost,
+          entry.share,
+          entry.amount,
+          entry.poolAmounts ? JSON.stringify(entry.poolAmounts) : null
+        );
+      }
+
+      return settlementId;
+    })();
+  }
+
+  getSettlementEntries(settlementId: number): SettlementEntryRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, settlement_id, key_id, name, cost, share, amount, status, paid_at, marked_by, marked_by_name,
+             pool_amounts
+      FROM settlement_entries
+      WHERE settlement_id = ?
+      ORDER BY amount DESC
+    `);
+
+    return stmt.all(settlementId) as SettlementEntryRecord[];
+  }
+
+  getSettlementEntriesForKey(keyId: string): (SettlementEntryRecord & { end_snapshot_id: number; currency: string })[] {
+    const stmt = this.db.prepare(`
+      SELECT e.id, e.settlement_id, e.key_id, e.name, e.cost, e.share, e.amount, e.status, e.paid_at,
+             e.marked_by, e.marked_by_name, e.pool_amounts, s.end_snapshot_id, s.currency
+      FROM settlement_entries e
+      JOIN settlements s ON s.id = e.settlement_id
+      WHERE e.key_id = ?
+      ORDER BY s.end_snapshot_id ASC
+    `);
+
+    return stmt.all(keyId) as (SettlementEntryRecord & { end_snapshot_id: number; currency: string })[];
+  }
+
+  updateSettlementEntryStatus(entryId: number, status: 'paid' | 'unpaid', markedBy: string, markedByName: string | null): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE settlement_entries
+      SET status = ?, paid_at = ?, marked_by = ?, marked_by_name = ?
+      WHERE id = ?
+    `);
+
+    const paidAt = status === 'paid' ? new Date().toISOString() : null;
+    return stmt.run(status, paidAt, markedBy, markedByName, entryId).changes > 0;
+  }
+
+  hasPaidSettlementEntries(endSnapshotIds: number[]): boolean {
+    if (endSnapshotIds.length === 0) return false;
+
+    const placeholders = endSnapshotIds.map(() => '?').join(', ');
+    const stmt = this.db.prepare(`
+      SELECT 1
+      FROM settlement_entries e
+      JOIN settlements s ON s.id = e.settlement_id
+      WHERE s.end_snapshot_id IN (${placeholders}) AND e.status = 'paid'
+      LIMIT 1
+    `);
+
+    return stmt.get(...endSnapshotIds) != null;
+  }
+
+  deleteSettlements(endSnapshotIds: number[]) {
+    if (endSnapshotIds.length === 0) return;
+
+    const placeholders = endSnapshotIds.map(() => '?').join(', ');
+    this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM settlement_entries
+        WHERE settlement_id IN (SELECT id FROM settlements WHERE end_snapshot_id IN (${placeholders}))
+      `).run(...endSnapshotIds);
+      this.db.prepare(`
+        DELETE FROM settlements WHERE end_snapshot_id IN (${placeholders})
+      `).run(...endSnapshotIds);
+    })();
+  }
+
+  getPeriodSummary(endSnapshotId: number): PeriodSummaryRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT end_snapshot_id, start_snapshot_id, total_cost, user_count, ranking_json, reconciliation_json, created_at
+      FROM period_summaries
+      WHERE end_snapshot_id = ?
+    `);
+
+    return stmt.get(endSnapshotId) as PeriodSummaryRecord | null;
+  }
+
+  savePeriodSummary(summary: Omit<PeriodSummaryRecord, 'created_at'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO period_summaries (end_snapshot_id, start_snapshot_id, total_cost, user_count, ranking_json, reconciliation_json, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(end_snapshot_id) DO UPDATE SET
+        start_snapshot_id = excluded.start_snapshot_id,
+        total_cost = excluded.total_cost,
+        user_count = excluded.user_count,
+        ranking_json = excluded.ranking_json,
+        reconciliation_json = excluded.reconciliation_json,
+        created_at = excluded.created_at
+    `);
+
+    stmt.run(
+      summary.end_snapshot_id,
+      summary.start_snapshot_id,
+      summary.total_cost,
+      summary.user_count,
+      summary.ranking_json,
+      summary.reconciliation_json,
+      new Date().toISOString()
+    );
+  }
+
+  deletePeriodSummaries(endSnapshotIds?: number[]): number {
+    if (!endSnapshotIds) {
+      return this.db.prepare('DELETE FROM period_summaries').run().changes;
+    }
+    if (endSnapshotIds.length === 0) return 0;
+
+    const placeholders = endSnapshotIds.map(() => '?').join(', ');
+    const stmt = this.db.prepare(`
+      DELETE FROM period_summaries WHERE end_snapshot_id IN (${placeholders})
+    `);
+
+    return stmt.run(...endSnapshotIds).changes;
+  }
+
+  insertUsageSamples(sampledAt: string, samples: Omit<DetailedUsageSample, 'sampled_at'>[]) {
+    const stmt = this.db.prepare(`
+      INSERT INTO usage_samples (
+        sampled_at, key_id, name, cost, tokens, input_tokens, output_tokens,
+        cache_create_tokens, cache_read_tokens, requests, tags, models_json
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const s of samples) {
+        stmt.run(
+          sampledAt, s.key_id, s.name, s.cost, s.tokens, s.input_tokens, s.output_tokens,
+          s.cache_create_tokens, s.cache_read_tokens, s.requests, s.tags, s.models_json
+        );
+      }
+    })();
+  }
+
+  // Samples in the half-open range (from, to]; null bounds are unbounded
+  getUsageSamples(from: string | null, to: string | null): UsageSample[] {
+    const stmt = this.db.prepare(`
+      SELECT sampled_at, key_id, name, cost, tokens, input_tokens, output_tokens,
+             cache_create_tokens, cache_read_tokens, requests
+      FROM usage_samples
+      WHERE (?1 IS NULL OR sampled_at > ?1) AND (?2 IS NULL OR sampled_at <= ?2)
+      ORDER BY sampled_at ASC
+    `);
+
+    return stmt.all(from, to) as UsageSample[];
+  }
+
+  /**
+   * Each key's last sample at or before `at` and first sample after it, for
+   * keys sampled on both sides; a key missing on one side didn't exist yet or
+   * had been deleted by then.
+   */
+  getUsageSamplesAround(at: string): { before: DetailedUsageSample[]; after: DetailedUsageSample[] } {
+    const columns = `s.sampled_at, s.key_id, s.name, s.cost, s.tokens, s.input_tokens, s.output_tokens,
+      s.cache_create_tokens, s.cache_read_tokens, s.requests, s.tags, s.models_json`;
+
+    const before = this.db.prepare(`
+      SELECT ${columns}
+      FROM usage_samples s
+      JOIN (SELECT key_id, MAX(sampled_at) AS t FROM usage_samples WHERE sampled_at <= ? GROUP BY key_id) b
+        ON b.key_id = s.key_id AND b.t = s.sampled_at
+    `).all(at) as DetailedUsageSample[];
+
+    const after = this.db.prepare(`
+      SELECT ${columns}
+      FROM usage_samples s
+      JOIN (SELECT key_id, MIN(sampled_at) AS t FROM usage_samples WHERE sampled_at > ? GROUP BY key_id) a
+        ON a.key_id = s.key_id AND a.t = s.sampled_at
+    `).all(at) as DetailedUsageSample[];
+
+    const beforeKeys = new Set(before.map(sample => sample.key_id));
+    const afterKeys = new Set(after.map(sample => sample.key_id));
+    return {
+      before: before.filter(sample => afterKeys.has(sample.key_id)),
+      after: after.filter(sample => beforeKeys.has(sample.key_id)),
+    };
+  }
+
+  deleteUsageSamplesBefore(cutoff: string): number {
+    const stmt = this.db.prepare(`
+      DELETE FROM usage_samples WHERE sampled_at < ?
+    `);
+
+    return stmt.run(cutoff).changes;
+  }
+
+  getLatestUsageSampleTime(): string | null {
+    const stmt = this.db.prepare(`
+      SELECT MAX(sampled_at) AS sampled_at FROM usage_samples
+    `);
+
+    return (stmt.get() as { sampled_at: string | null } | null)?.sampled_at ?? null;
+  }
+
+  getBudgets(): BudgetRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, scope, key_id, name, amount, updated_at, updated_by
+      FROM budgets
+      ORDER BY scope ASC, name ASC
+    `);
+
+    return stmt.all() as BudgetRecord[];
+  }
+
+  upsertBudget(scope: BudgetScope, keyId: string, name: string | null, amount: number, updatedBy: string | null): BudgetRecord {
+    const stmt = this.db.prepare(`
+      INSERT INTO budgets (scope, key_id, name, amount, updated_at, updated_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (scope, key_id) DO UPDATE SET
+        name = excluded.name,
+        amount = excluded.amount,
+        updated_at = excluded.updated_at,
+        updated_by = excluded.updated_by
+      RETURNING id, scope, key_id, name, amount, updated_at, updated_by
+    `);
+
+    return stmt.get(scope, keyId, name, amount, new Date().toISOString(), updatedBy) as BudgetRecord;
+  }
+
+  deleteBudget(id: number): boolean {
+    const stmt = this.db.prepare(`
+      DELETE FROM budgets WHERE id = ?
+    `);
+
+    return stmt.run(id).changes > 0;
+  }
+
+  /**
+   * Records that `thresholds` were crossed in the period starting at
+   * `periodStartSnapshotId` (0 before the first snapshot) and returns the ones
+   * not recorded before, so each alert fires once per period.
+   */
+  claimBudgetAlerts(
+    periodStartSnapshotId: number,
+    scope: BudgetScope,
+    keyId: string,
+    thresholds: number[],
+    budget: number,
+    cost: number
+  ): number[] {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO budget_alerts (period_start_snapshot_id, scope, key_id, threshold, budget, cost, fired_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const firedAt = new Date().toISOString();
+
+    return this.db.transaction(() => thresholds.filter(threshold =>
+      stmt.run(periodStartSnapshotId, scope, keyId, threshold, budget, cost, firedAt).changes > 0
+    ))();
+  }
+
+  getWebhooks(): WebhookRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, name, url, format, events, secret, enabled, created_at
+      FROM webhooks
+      ORDER BY id ASC
+    `);
+
+    return stmt.all() as WebhookRecord[];
+  }
+
+  getWebhookById(id: number): WebhookRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT id, name, url, format, events, secret, enabled, created_at
+      FROM webhooks
+      WHERE id = ?
+    `);
+
+    return stmt.get(id) as WebhookRecord | null;
+  }
+
+  insertWebhook(webhook: Omit<WebhookRecord, 'id' | 'created_at'>): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO webhooks (name, url, format, events, secret, enabled, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      webhook.name, webhook.url, webhook.format, webhook.events, webhook.secret, webhook.enabled, new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  updateWebhook(id: number, webhook: Omit<WebhookRecord, 'id' | 'created_at'>): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE webhooks SET name = ?, url = ?, format = ?, events = ?, secret = ?, enabled = ?
+      WHERE id = ?
+    `);
+
+    return stmt.run(webhook.name, webhook.url, webhook.format, webhook.events, webhook.secret, webhook.enabled, id).changes > 0;
+  }
+
+  deleteWebhook(id: number): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`).run(id);
+      return this.db.prepare(`DELETE FROM webhooks WHERE id = ?`).run(id).changes > 0;
+    })();
+  }
+
+  insertWebhookDelivery(webhookId: number, event: string, payloadJson: string): number {
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, payload_json, status, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, 'pending', 0, ?, ?)
+    `);
+
+    return Number(stmt.run(webhookId, event, payloadJson, now, now).lastInsertRowid);
+  }
+
+  getDueWebhookDeliveries(now: string, limit: number): WebhookDeliveryRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, webhook_id, event, payload_json, status, attempts, next_attempt_at,
+             last_status_code, last_error, created_at, delivered_at
+      FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC, id ASC
+      LIMIT ?
+    `);
+
+    return stmt.all(now, limit) as WebhookDeliveryRecord[];
+  }
+
+  /**
+   * Leases a due delivery by pushing its next attempt to `leaseUntil`, so other
+   * processes sharing the database skip it while it is being sent. Only one
+   * caller wins for the same `dueAt`; a sender that dies leaves the delivery
+   * to be retried once the lease runs out.
+   */
+  claimWebhookDelivery(id: number, dueAt: string, leaseUntil: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries SET next_attempt_at = ?
+      WHERE id = ? AND status = 'pending' AND next_attempt_at = ?
+    `);
+
+    return stmt.run(leaseUntil, id, dueAt).changes > 0;
+  }
+
+  getWebhookDeliveries(limit: number, webhookId?: number): WebhookDeliveryRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT id, webhook_id, event, payload_json, status, attempts, next_attempt_at,
+             last_status_code, last_error, created_at, delivered_at
+      FROM webhook_deliveries
+      WHERE (?1 IS NULL OR webhook_id = ?1)
+      ORDER BY id DESC
+      LIMIT ?2
+    `);
+
+    return stmt.all(webhookId ?? null, limit) as WebhookDeliveryRecord[];
+  }
+
+  recordWebhookAttempt(
+    id: number,
+    result: { status: 'pending' | 'delivered' | 'failed'; statusCode: number | null; error: string | null; nextAttemptAt: string | null }
+  ) {
+    const stmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = attempts + 1, last_status_code = ?, last_error = ?, next_attempt_at = ?,
+          delivered_at = CASE WHEN ? = 'delivered' THEN ? ELSE delivered_at END
+      WHERE id = ?
+    `);
+
+    stmt.run(result.status, result.statusCode, result.error, result.nextAttemptAt, result.status, new Date().toISOString(), id);
+  }
+
+  getAccountStates(): AccountStateRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT account_id, platform, name, status, schedulable, stopped_reason, changed_at, checked_at
+      FROM ai_account_states
+    `);
+
+    return stmt.all() as AccountStateRecord[];
+  }
+
+  upsertAccountState(state: AccountStateRecord) {
+    const stmt = this.db.prepare(`
+      INSERT INTO ai_account_states (account_id, platform, name, status, schedulable, stopped_reason, changed_at, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (account_id) DO UPDATE SET
+        platform = excluded.platform,
+        name = excluded.name,
+        status = excluded.status,
+        schedulable = excluded.schedulable,
+        stopped_reason = excluded.stopped_reason,
+        changed_at = excluded.changed_at,
+        checked_at = excluded.checked_at
+    `);
+
+    stmt.run(
+      state.account_id, state.platform, state.name, state.status, state.schedulable,
+      state.stopped_reason, state.changed_at, state.checked_at
+    );
+  }
+
+  insertAccountStatusChange(change: AccountStatusChangeRecord) {
+    const stmt = this.db.prepare(`
+      INSERT INTO ai_account_status_changes (account_id, platform, name, status, schedulable, stopped_reason, changed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      change.account_id, change.platform, change.name, change.status,
+      change.schedulable, change.stopped_reason, change.changed_at
+    );
+  }
+
+  getAccountStatusChanges(): AccountStatusChangeRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT account_id, platform, name, status, schedulable, stopped_reason, changed_at
+      FROM ai_account_status_changes
+      ORDER BY account_id ASC, changed_at ASC, id ASC
+    `);
+
+    return stmt.all() as AccountStatusChangeRecord[];
+  }
+
+  insertAccountReadings(readings: AccountReadingRecord[]) {
+    const stmt = this.db.prepare(`
+      INSERT INTO ai_account_readings (
+        account_id, platform, checked_at, status, schedulable,
+        five_hour, five_hour_resets_at, seven_day, seven_day_resets_at,
+        seven_day_opus, seven_day_opus_resets_at, codex_primary, codex_primary_resets_at,
+        codex_secondary, codex_secondary_resets_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const r of readings) {
+        stmt.run(
+          r.account_id, r.platform, r.checked_at, r.status, r.schedulable,
+          r.five_hour, r.five_hour_resets_at, r.seven_day, r.seven_day_resets_at,
+          r.seven_day_opus, r.seven_day_opus_resets_at, r.codex_primary, r.codex_primary_resets_at,
+          r.codex_secondary, r.codex_secondary_resets_at
+        );
+      }
+    })();
+  }
+
+  getAccountReadings(accountId: string, since: string): AccountReadingRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT account_id, platform, checked_at, status, schedulable,
+        five_hour, five_hour_resets_at, seven_day, seven_day_resets_at,
+        seven_day_opus, seven_day_opus_resets_at, codex_primary, codex_primary_resets_at,
+        codex_secondary, codex_secondary_resets_at
+      FROM ai_account_readings
+      WHERE account_id = ? AND checked_at >= ?
+      ORDER BY checked_at ASC
+    `);
+
+    return stmt.all(accountId, since) as AccountReadingRecord[];
+  }
+
+  deleteAccountReadingsBefore(cutoff: string): number {
+    const stmt = this.db.prepare(`
+      DELETE FROM ai_account_readings WHERE checked_at < ?
+    `);
+
+    return stmt.run(cutoff).changes;
+  }
+
+  getOpenAccountAlerts(): AccountAlertRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM account_alerts WHERE resolved_at IS NULL ORDER BY condition_since ASC
+    `);
+
+    return stmt.all() as AccountAlertRecord[];
+  }
+
+  // Fired alerts that are still open or were resolved at or after `resolvedSince`
+  getFiredAccountAlerts(resolvedSince: string): AccountAlertRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM account_alerts
+      WHERE fired_at IS NOT NULL AND (resolved_at IS NULL OR resolved_at >= ?)
+      ORDER BY fired_at DESC
+    `);
+
+    return stmt.all(resolvedSince) as AccountAlertRecord[];
+  }
+
+  insertAccountAlert(alert: Omit<AccountAlertRecord, 'id'>): number {
+    const stmt = this.db.prepare(`
+      INSERT INTO account_alerts (rule, account_id, platform, name, detail, condition_since, fired_at, resolved_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      alert.rule, alert.account_id, alert.platform, alert.name, alert.detail,
+      alert.condition_since, alert.fired_at, alert.resolved_at
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  updateAccountAlert(id: number, fields: Pick<AccountAlertRecord, 'name' | 'detail' | 'fired_at' | 'resolved_at'>) {
+    const stmt = this.db.prepare(`
+      UPDATE account_alerts SET name = ?, detail = ?, fired_at = ?, resolved_at = ? WHERE id = ?
+    `);
+
+    stmt.run(fields.name, fields.detail, fields.fired_at, fields.resolved_at, id);
+  }
+
+  deleteAccountAlert(id: number) {
+    const stmt = this.db.prepare(`
+      DELETE FROM account_alerts WHERE id = ?
+    `);
+
+    stmt.run(id);
+  }
+
+  insertSession(session: Omit<SessionRecord, 'revoked_at'>) {
+    const stmt = this.db.prepare(`
+      INSERT INTO sessions (id, key_id, is_admin, user_agent, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(session.id, session.key_id, session.is_admin, session.user_agent, session.created_at, session.expires_at);
+  }
+
+  getSession(id: string): SessionRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sessions WHERE id = ?
+    `);
+
+    return (stmt.get(id) as SessionRecord | null) ?? null;
+  }
+
+  getActiveSessions(now: string): SessionRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM sessions
+      WHERE revoked_at IS NULL AND expires_at > ?
+      ORDER BY created_at DESC
+    `);
+
+    return stmt.all(now) as SessionRecord[];
+  }
+
+  revokeSession(id: string, revokedAt: string): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+    `);
+
+    return stmt.run(revokedAt, id).changes > 0;
+  }
+
+  revokeSessionsForKey(keyId: string, revokedAt: string): number {
+    const stmt = this.db.prepare(`
+      UPDATE sessions SET revoked_at = ? WHERE key_id = ? AND revoked_at IS NULL
+    `);
+
+    return stmt.run(revokedAt, keyId).changes;
+  }
+
+  deleteExpiredSessions(before: string): number {
+    const stmt = this.db.prepare(`
+      DELETE FROM sessions WHERE expires_at < ?
+    `);
+
+    return stmt.run(before).changes;
+  }
+
   close() {
     this.db.close();
+    this.releasePidFile();
+  }
+
+  private releasePidFile() {
+    if (!this.pidPath || !existsSync(this.pidPath)) return;
+    // Another process may have opened the database since
+    if (readFileSync(this.pidPath, 'utf8').trim() === String(process.pid)) {
+      unlinkSync(this.pidPath);
+    }
   }
 }
 
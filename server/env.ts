@@ -0,0 +1,14 @@
+/**
+ * Reads a whole-number setting, or `fallback` when it is unset. Anything else
+ * throws at startup: parseInt would turn it into NaN, which timers, loops and
+ * limits then silently misbehave on.
+ */
+export function readIntEnv(name: string, fallback: number, min: number = 0): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+
+  if (!/^\d+$/.test(value) || parseInt(value) < min) {
+    throw new Error(`Invalid ${name} "${value}", expected a whole number${min > 0 ? ` of at least ${min}` : ''}`);
+  }
+  return parseInt(value);
+}
@@ -0,0 +1,225 @@
+import type { PeriodSummary, UserRanking } from './billing-calculator';
+import { increase } from './reconciliation';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  jsonl: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+export interface ExportRow {
+  rank: number;
+  name: string;
+  cost: number;
+  share: number;
+  periodRequests: number;
+  periodTokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreateTokens: number;
+  cacheReadTokens: number;
+}
+
+const COLUMNS: Array<{ key: keyof ExportRow; header: string }> = [
+  { key: 'rank', header: 'Rank' },
+  { key: 'name', header: 'Name' },
+  { key: 'cost', header: 'Cost (USD)' },
+  { key: 'share', header: 'Share' },
+  { key: 'periodRequests', header: 'Requests' },
+  { key: 'periodTokens', header: 'Tokens' },
+  { key: 'inputTokens', header: 'Input Tokens' },
+  { key: 'outputTokens', header: 'Output Tokens' },
+  { key: 'cacheCreateTokens', header: 'Cache Create Tokens' },
+  { key: 'cacheReadTokens', header: 'Cache Read Tokens' },
+];
+
+function tokenDelta(user: UserRanking, field: 'inputTokens' | 'outputTokens' | 'cacheCreateTokens' | 'cacheReadTokens'): number {
+  return increase(Number(user.rawStart?.usage?.total?.[field] ?? 0), Number(user.rawEnd?.usage?.total?.[field] ?? 0));
+}
+
+export function toExportRows(summary: PeriodSummary): ExportRow[] {
+  return summary.ranking.map((user, index) => ({
+    rank: index + 1,
+    name: user.name,
+    cost: user.cost,
+    share: +user.share.toFixed(6),
+    periodRequests: user.periodRequests,
+    periodTokens: user.periodTokens,
+    inputTokens: tokenDelta(user, 'inputTokens'),
+    outputTokens: tokenDelta(user, 'outputTokens'),
+    cacheCreateTokens: tokenDelta(user, 'cacheCreateTokens'),
+    cacheReadTokens: tokenDelta(user, 'cacheReadTokens'),
+  }));
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function streamLines(lines: Iterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = lines[Symbol.iterator]();
+
+  return new ReadableStream({
+    pull(controller) {
+      const next = iterator.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+}
+
+export function toCsvStream(rows: ExportRow[]): ReadableStream<Uint8Array> {
+  return streamLines((function* () {
+    // BOM so Excel opens UTF-8 names correctly
+    yield '\uFEFF' + COLUMNS.map(c => csvCell(c.header)).join(',') + '\r\n';
+    for (const row of rows) {
+      yield COLUMNS.map(c => csvCell(row[c.key])).join(',') + '\r\n';
+    }
+  })());
+}
+
+export function toJsonLinesStream(rows: ExportRow[]): ReadableStream<Uint8Array> {
+  return streamLines((function* () {
+    for (const row of rows) {
+      yield JSON.stringify(row) + '\n';
+    }
+  })());
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: ExportRow[]): string {
+  const cell = (value: string | number, ref: string) =>
+    typeof value === 'number'
+      ? `<c r="${ref}"><v>${value}</v></c>`
+      : `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(value)}</t></is></c>`;
+
+  const lines = [COLUMNS.map(c => c.header), ...rows.map(row => COLUMNS.map(c => row[c.key]))];
+  const body = lines
+    .map((values, r) => `<row r="${r + 1}">${values.map((v, c) => cell(v, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+// Minimal ZIP archive with uncompressed ("stored") entries
+function zip(files: Array<{ name: string; data: Uint8Array }>): Uint8Array<ArrayBuffer> {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = new TextEncoder().encode(file.name);
+    const crc = Bun.hash.crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, file.data.length, true);
+    central.setUint32(24, file.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+export function toXlsx(rows: ExportRow[], sheetName: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const safeSheetName = xmlEscape(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>'
+      ),
+    },
+    {
+      name: '_rels/.rels',
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+      ),
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+      ),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: encoder.encode(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>'
+      ),
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: encoder.encode(sheetXml(rows)) },
+  ]);
+}
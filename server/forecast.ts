@@ -0,0 +1,160 @@
+import { db } from './database';
+import { billingCalculator, type PeriodSummary, type UserRanking } from './billing-calculator';
+import { snapshotScheduler } from './scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface CostProjection {
+  current: number;
+  projected: number;
+  low: number;
+  high: number;
+  ratePerDay: number;
+}
+
+export interface PeriodForecast {
+  expectedEndAt: string;
+  // Where the expected end comes from: the snapshot schedule, past period lengths, or a 30 day default
+  basis: 'schedule' | 'history' | 'default';
+  schedule: string | null;
+  elapsedDays: number;
+  remainingDays: number;
+  total: CostProjection;
+  me: CostProjection | null;
+}
+
+export type ForecastedPeriodSummary = PeriodSummary & {
+  forecast: PeriodForecast | null;
+  ranking: Array<UserRanking & { forecast?: CostProjection }>;
+};
+
+type Reading = { t: number; cost: number };
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+}
+
+export class CostForecaster {
+  private readonly windowMs = parseInt(process.env.FORECAST_WINDOW_HOURS || '72') * HOUR_MS;
+
+  private async getExpectedEnd(startMs: number, now: number): Promise<Pick<PeriodForecast, 'basis' | 'schedule'> & { endMs: number }> {
+    const next = snapshotScheduler.getNextRun(new Date(now));
+    if (next) {
+      return { basis: 'schedule', schedule: next.schedule, endMs: next.at.getTime() };
+    }
+
+    // Without a schedule, assume the period lasts as long as past periods did on average
+    const periods = await billingCalculator.getPeriods();
+    const lengths = periods
+      .filter(p => !p.isCurrent && p.startAt && p.endAt)
+      .map(p => Date.parse(p.endAt!) - Date.parse(p.startAt!));
+    if (lengths.length > 0) {
+      const average = lengths.reduce((s, l) => s + l, 0) / lengths.length;
+      return { basis: 'history', schedule: null, endMs: startMs + average };
+    }
+
+    return { basis: 'default', schedule: null, endMs: startMs + 30 * DAY_MS };
+  }
+
+  /**
+   * Projects period cost to `remainingMs` from now. The burn rate blends the
+   * period-to-date average with the rate over the recent window; the range is
+   * one standard deviation of day-over-day rates (or ±50% with too little data).
+   */
+  private project(readings: Reading[], current: number, elapsedMs: number, remainingMs: number, now: number): CostProjection {
+    const overallRate = elapsedMs > 0 ? current / elapsedMs : 0;
+
+    let rate = overallRate;
+    const recent = readings.filter(r => r.t >= now - this.windowMs);
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    if (first && last && last.t - first.t >= HOUR_MS) {
+      const recentRate = Math.max(0, (last.cost - first.cost) / (last.t - first.t));
+      rate = (recentRate + overallRate) / 2;
+    }
+
+    const dailyRates: number[] = [];
+    let anchor = readings[0];
+    for (const reading of readings) {
+      if (anchor && reading.t - anchor.t >= DAY_MS) {
+        dailyRates.push(Math.max(0, (reading.cost - anchor.cost) / (reading.t - anchor.t)));
+        anchor = reading;
+      }
+    }
+    const spread = dailyRates.length >= 2 ? standardDeviation(dailyRates) : rate * 0.5;
+
+    return {
+      current: +current.toFixed(6),
+      projected: +(current + rate * remainingMs).toFixed(6),
+      low: +(current + Math.max(0, rate - spread) * remainingMs).toFixed(6),
+      high: +(current + (rate + spread) * remainingMs).toFixed(6),
+      ratePerDay: +(rate * DAY_MS).toFixed(6),
+    };
+  }
+
+  async forecast(summary: PeriodSummary): Promise<ForecastedPeriodSummary> {
+    if (!summary.period.isCurrent) {
+      return { ...summary, forecast: null };
+    }
+
+    const now = Date.now();
+    const samples = db.getUsageSamples(summary.period.startAt, null);
+    const startMs = summary.period.startAt ? Date.parse(summary.period.startAt) : samples[0] ? Date.parse(samples[0].sampled_at) : NaN;
+    if (!Number.isFinite(startMs)) {
+      return { ...summary, forecast: null };
+    }
+
+    const expectedEnd = await this.getExpectedEnd(startMs, now);
+    const elapsedMs = now - startMs;
+    const remainingMs = Math.max(0, expectedEnd.endMs - now);
+
+    // Cumulative all-time cost readings per key and in total, ending with the live values.
+    // The total only sums the ranked keys, the same ones the live reading adds up.
+    const ranked = new Set(summary.ranking.flatMap(u => u.keyIds));
+    const byKey = new Map<string, Map<string, number>>();
+    const totals = new Map<string, number>();
+    for (const sample of samples) {
+      if (!ranked.has(sample.key_id)) continue;
+
+      const readings = byKey.get(sample.key_id) ?? new Map<string, number>();
+      readings.set(sample.sampled_at, sample.cost);
+      byKey.set(sample.key_id, readings);
+      totals.set(sample.sampled_at, (totals.get(sample.sampled_at) ?? 0) + sample.cost);
+    }
+
+    const liveTotal = summary.ranking.reduce((sum, u) => sum + Number(u.rawEnd?.usage?.total?.cost ?? 0), 0);
+    const totalReadings = Array.from(totals.entries()).map(([at, cost]) => ({ t: Date.parse(at), cost }));
+    totalReadings.push({ t: now, cost: liveTotal });
+
+    const ranking = summary.ranking.map((user) => {
+      // A person's readings are the sums over their keys at each sampling
+      const sums = new Map<string, number>();
+      for (const keyId of user.keyIds) {
+        for (const [at, cost] of byKey.get(keyId) ?? []) sums.set(at, (sums.get(at) ?? 0) + cost);
+      }
+      const readings = Array.from(sums.entries())
+        .map(([at, cost]) => ({ t: Date.parse(at), cost }))
+        .sort((a, b) => a.t - b.t);
+      readings.push({ t: now, cost: Number(user.rawEnd?.usage?.total?.cost ?? 0) });
+      return { ...user, forecast: this.project(readings, user.cost, elapsedMs, remainingMs, now) };
+    });
+
+    return {
+      ...summary,
+      ranking,
+      forecast: {
+        expectedEndAt: new Date(expectedEnd.endMs).toISOString(),
+        basis: expectedEnd.basis,
+        schedule: expectedEnd.schedule,
+        elapsedDays: +(elapsedMs / DAY_MS).toFixed(2),
+        remainingDays: +(remainingMs / DAY_MS).toFixed(2),
+        total: this.project(totalReadings, summary.totals.totalCost, elapsedMs, remainingMs, now),
+        me: ranking.find(u => u.isMe)?.forecast ?? null,
+      },
+    };
+  }
+}
+
+export const costForecaster = new CostForecaster();
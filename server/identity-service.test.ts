@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { billingCalculator } from './billing-calculator';
+import { budgetService } from './budget-service';
+import { db, type NewSnapshotEntry } from './database';
+import { identityService } from './identity-service';
+
+const entry = (keyId: string, cost: number): NewSnapshotEntry => ({
+  key_id: keyId,
+  name: `Key ${keyId}`,
+  tags: '[]',
+  cost,
+  tokens: cost * 100,
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_create_tokens: 0,
+  cache_read_tokens: 0,
+  requests: cost,
+});
+
+// Alice holds id-a1, id-a2 and, until 15 January, id-x; Bob holds id-b1 and id-x from then on
+let alice = 0;
+let bob = 0;
+let endSnapshotId = 0;
+
+beforeAll(() => {
+  alice = identityService.createPerson('Alice').id;
+  bob = identityService.createPerson('Bob').id;
+  identityService.addKey(alice, 'id-a1');
+  identityService.addKey(alice, ' id-a2 ');
+  identityService.addKey(alice, 'id-x', null, '2024-01-15T00:00:00.000Z');
+  identityService.addKey(bob, 'id-b1');
+  identityService.addKey(bob, 'id-x', '2024-01-15T00:00:00.000Z');
+
+  db.insertSnapshot([entry('id-a1', 1), entry('id-a2', 2), entry('id-b1', 3), entry('id-x', 4), entry('id-free', 1)], undefined, {
+    createdAt: '2024-01-01T00:00:00.000Z',
+  });
+  endSnapshotId = db.insertSnapshot([entry('id-a1', 2), entry('id-a2', 4), entry('id-b1', 6), entry('id-x', 8), entry('id-free', 6)], undefined, {
+    createdAt: '2024-02-01T00:00:00.000Z',
+  });
+});
+
+describe('addKey', () => {
+  test('trims the key ID before storing it', () => {
+    expect(identityService.listPeople().find(p => p.id === alice)!.keys.map(k => k.keyId)).toEqual(['id-a1', 'id-a2', 'id-x']);
+  });
+
+  test('refuses to map a key to two people at once', () => {
+    expect(() => identityService.addKey(alice, ' id-x ', '2024-03-01T00:00:00.000Z')).toThrow('Person key id-x is already mapped for an overlapping time');
+    expect(() => identityService.addKey(alice, 'id-b1', '2023-01-01T00:00:00.000Z', '2023-02-01T00:00:00.000Z')).toThrow('already mapped');
+  });
+});
+
+describe('resolver', () => {
+  test('gives a key reassigned during the period to whoever holds it at the end', () => {
+    const ownerOf = identityService.resolver('2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z');
+    expect(ownerOf('id-x')).toEqual({ personId: bob, name: 'Bob' });
+    expect(ownerOf('id-a2')).toEqual({ personId: alice, name: 'Alice' });
+    expect(ownerOf('id-free')).toBeNull();
+  });
+
+  test('leaves a key with its earlier owner for periods before the handover', () => {
+    expect(identityService.resolver('2023-12-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')('id-x')).toEqual({ personId: alice, name: 'Alice' });
+  });
+});
+
+describe('payerOf', () => {
+  test('covers every key of the person holding the key today', () => {
+    expect(identityService.payerOf('id-x').keyIds.sort()).toEqual(['id-b1', 'id-x']);
+  });
+
+  test('owns entries only for periods the key belonged to the same person', () => {
+    const { owns } = identityService.payerOf('id-b1');
+    expect(owns('id-x', '2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z')).toBe(true);
+    expect(owns('id-x', '2023-12-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z')).toBe(false);
+    expect(owns('id-a1', '2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z')).toBe(false);
+  });
+
+  test('owns an unmapped key only for itself', () => {
+    const payer = identityService.payerOf('id-free');
+    expect(payer.keyIds).toEqual(['id-free']);
+    expect(payer.owns('id-free', null, '2024-01-01T00:00:00.000Z')).toBe(true);
+    expect(payer.owns('id-a1', null, '2024-01-01T00:00:00.000Z')).toBe(false);
+  });
+});
+
+describe('people in period rankings', () => {
+  const summary = async () => {
+    const period = (await billingCalculator.getPeriods()).find(p => p.endSnapshotId === endSnapshotId)!;
+    return billingCalculator.getPeriodSummary(period.index);
+  };
+
+  test('merges each person\'s keys into one row, with a handed over key going to its holder at the end', async () => {
+    const { ranking } = await summary();
+    const rows = ranking.filter(row => row.keyIds.some(id => id.startsWith('id-')));
+
+    expect(rows.map(row => [row.name, row.cost, [...row.keyIds].sort()])).toEqual([
+      ['Bob', 7, ['id-b1', 'id-x']],
+      ['Key id-free', 5, ['id-free']],
+      ['Alice', 3, ['id-a1', 'id-a2']],
+    ]);
+  });
+
+  test('sums the budgets of a merged person\'s keys', async () => {
+    budgetService.setBudget('id-a1', 'Alice', 10, 'test');
+    budgetService.setBudget('id-a2', 'Alice', 5, 'test');
+    budgetService.setBudget('id-x', 'Bob', 20, 'test');
+
+    const { ranking } = budgetService.withBudgets(await summary());
+    const budgetOf = (name: string) => ranking.find(row => row.name === name)!.budget;
+
+    expect(budgetOf('Alice')).toEqual({ amount: 15, spent: 3, remaining: 12, ratio: 0.2 });
+    expect(budgetOf('Bob')).toEqual({ amount: 20, spent: 7, remaining: 13, ratio: 0.35 });
+    expect(budgetOf('Key id-free')).toBeNull();
+    expect(budgetService.getUserBudgetStatus(['id-a1', 'id-a2'], 3)).toEqual(budgetOf('Alice'));
+  });
+});
@@ -0,0 +1,182 @@
+import { db, type PersonKeyRecord } from './database';
+
+export interface PersonKey {
+  id: number;
+  keyId: string;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+}
+
+export interface Person {
+  id: number;
+  name: string;
+  keys: PersonKey[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KeyOwner {
+  personId: number;
+  name: string;
+}
+
+function toPersonKey(record: PersonKeyRecord): PersonKey {
+  return {
+    id: record.id,
+    keyId: record.key_id,
+    effectiveFrom: record.effective_from,
+    effectiveTo: record.effective_to,
+  };
+}
+
+// Open ends compare as the beginning and the end of time
+function overlaps(from: string | null, to: string | null, otherFrom: string | null, otherTo: string | null): boolean {
+  const start = from ? Date.parse(from) : -Infinity;
+  const end = to ? Date.parse(to) : Infinity;
+  const otherStart = otherFrom ? Date.parse(otherFrom) : -Infinity;
+  const otherEnd = otherTo ? Date.parse(otherTo) : Infinity;
+  return start < otherEnd && otherStart < end;
+}
+
+function normalizeDate(value: string | null | undefined, field: string): string | null {
+  if (!value) return null;
+
+  const ms = Date.parse(value);
+  if (!Number.isFinite(ms)) {
+    throw new Error(`Person key ${field} must be a valid date`);
+  }
+  return new Date(ms).toISOString();
+}
+
+/**
+ * Maps relay keys to the people they belong to, so someone with several keys,
+ * or one who rotated a key, is billed as one person. Each mapping has an
+ * optional validity window; a key is never mapped to two people at once.
+ */
+export class IdentityService {
+  listPeople(): Person[] {
+    const keys = db.getPersonKeys();
+
+    return db.getPeople().map(person => ({
+      id: person.id,
+      name: person.name,
+      keys: keys.filter(key => key.person_id === person.id).map(toPersonKey),
+      createdAt: person.created_at,
+      updatedAt: person.updated_at,
+    }));
+  }
+
+  createPerson(name: string): Person {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Person name is required');
+    }
+
+    const person = db.insertPerson(trimmed);
+    return { id: person.id, name: person.name, keys: [], createdAt: person.created_at, updatedAt: person.updated_at };
+  }
+
+  renamePerson(id: number, name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Person name is required');
+    }
+
+    return db.renamePerson(id, trimmed);
+  }
+
+  deletePerson(id: number): boolean {
+    return db.deletePerson(id);
+  }
+
+  addKey(personId: number, rawKeyId: string, effectiveFrom?: string | null, effectiveTo?: string | null): PersonKey {
+    const keyId = rawKeyId.trim();
+    if (!db.getPeople().some(person => person.id === personId)) {
+      throw new Error(`Person ${personId} not found`);
+    }
+    if (!keyId) {
+      throw new Error('Person key ID is required');
+    }
+
+    const from = normalizeDate(effectiveFrom, 'start');
+    const to = normalizeDate(effectiveTo, 'end');
+    if (from && to && Date.parse(from) >= Date.parse(to)) {
+      throw new Error('Person key start must be before its end');
+    }
+
+    const clash = db.getPersonKeys().find(key =>
+      key.key_id === keyId && overlaps(from, to, key.effective_from, key.effective_to)
+    );
+    if (clash) {
+      throw new Error(`Person key ${keyId} is already mapped for an overlapping time (mapping #${clash.id})`);
+    }
+
+    return toPersonKey(db.insertPersonKey(personId, keyId, from, to));
+  }
+
+  removeKey(mappingId: number): boolean {
+    return db.deletePersonKey(mappingId);
+  }
+
+  /**
+   * Owner lookup for a period from `startAt` to `endAt` (null for open ends).
+   * Of the mappings overlapping the period, the one starting last wins, so a
+   * key reassigned mid-period goes to whoever holds it at the end.
+   */
+  resolver(startAt: string | null, endAt: string | null): (keyId: string) => KeyOwner | null {
+    const names = new Map(db.getPeople().map(person => [person.id, person.name]));
+    const owners = new Map<string, { owner: KeyOwner; from: number }>();
+
+    for (const key of db.getPersonKeys()) {
+      if (!overlaps(startAt, endAt, key.effective_from, key.effective_to)) continue;
+
+      const from = key.effective_from ? Date.parse(key.effective_from) : -Infinity;
+      const current = owners.get(key.key_id);
+      if (!current || from > current.from) {
+        owners.set(key.key_id, { owner: { personId: key.person_id, name: names.get(key.person_id) ?? 'Person' }, from });
+      }
+    }
+
+    return keyId => owners.get(keyId)?.owner ?? null;
+  }
+
+  /**
+   * Settlement ownership for whoever holds `keyId` today. `keyIds` are the
+   * keys that may carry their entries; `owns` tells whether an entry settled
+   * under `entryKeyId` for the period from `startAt` to `endAt` is theirs,
+   * resolving both keys' owners for that period the same way rankings do.
+   * A key counts only for the periods it was mapped to the same person, and
+   * an unmapped key only for the periods it belonged to nobody.
+   */
+  payerOf(keyId: string): { keyIds: string[]; owns: (entryKeyId: string, startAt: string | null, endAt: string | null) => boolean } {
+    const now = new Date().toISOString();
+    const holder = this.resolver(now, now)(keyId);
+    const keyIds = new Set([keyId]);
+    for (const key of db.getPersonKeys()) {
+      if (holder && key.person_id === holder.personId) keyIds.add(key.key_id);
+    }
+
+    const payerOfPeriod = new Map<string, (id: string) => string>();
+    const payerIn = (startAt: string | null, endAt: string | null) => {
+      const period = `${startAt}|${endAt}`;
+      let payer = payerOfPeriod.get(period);
+      if (!payer) {
+        const ownerOf = this.resolver(startAt, endAt);
+        payer = (id: string) => {
+          const owner = ownerOf(id);
+          return owner ? `person:${owner.personId}` : `key:${id}`;
+        };
+        payerOfPeriod.set(period, payer);
+      }
+      return payer;
+    };
+
+    const me = holder ? `person:${holder.personId}` : `key:${keyId}`;
+    return {
+      keyIds: Array.from(keyIds),
+      owns: (entryKeyId, startAt, endAt) => payerIn(startAt, endAt)(entryKeyId) === me,
+    };
+  }
+}
+
+export const identityService = new IdentityService();
@@ -1,21 +1,73 @@
 import { apiClient } from './api-client';
 import { billingCalculator } from './billing-calculator';
+import { snapshotScheduler } from './scheduler';
+import { snapshotService } from './snapshot-service';
+import { db } from './database';
+import { settlementService } from './settlement-service';
+import { usageSampler } from './usage-sampler';
+import { costForecaster } from './forecast';
+import { budgetService } from './budget-service';
+import { webhookDispatcher, WEBHOOK_EVENTS, WEBHOOK_FORMATS, type WebhookInput } from './webhooks';
+import { accountMonitor } from './account-monitor';
+import { accountHistory } from './account-history';
+import { accountAlertWatcher } from './account-alerts';
+import { isAdminKey, sessionManager, type Session } from './sessions';
+import { usageTimeSeries, type Granularity } from './usage-timeseries';
+import { backupService } from './backup-service';
+import { groupPrefixes, groupRanking } from './tag-groups';
+import { identityService } from './identity-service';
+import { EXPORT_FORMATS, toCsvStream, toExportRows, toJsonLinesStream, toXlsx, type ExportFormat } from './export';
 import indexHtml from '../client/index.html';
 
-// Middleware to validate API key and get user ID
-const validateApiKey = async (request: Request): Promise<{valid: boolean, userId?: string, error?: string}> => {
-  const apiKey = request.headers.get('x-api-key');
-  
-  if (!apiKey) {
-    return { valid: false, error: 'API key required' };
+// Middleware to resolve the session cookie to the user's key ID
+const validateSession = async (request: Request): Promise<{valid: boolean, userId?: string, session?: Session, error?: string}> => {
+  const session = sessionManager.fromRequest(request);
+  if (!session) {
+    return { valid: false, error: 'Login required' };
   }
 
-  try {
-    const userId = await apiClient.getKeyId(apiKey);
-    return { valid: true, userId };
-  } catch (error) {
-    return { valid: false, error: 'Invalid API key' };
+  return { valid: true, userId: session.keyId, session };
+};
+
+// Middleware to validate the session and require the admin role, checked on every request so removing an admin takes effect at once
+const validateAdmin = async (request: Request): Promise<{valid: boolean, userId?: string, session?: Session, status?: number, error?: string}> => {
+  const validation = await validateSession(request);
+  if (!validation.valid) {
+    return { valid: false, status: 401, error: validation.error };
+  }
+
+  if (!(await isAdminKey(validation.userId!))) {
+    return { valid: false, status: 403, error: 'Admin access required' };
+  }
+
+  return { valid: true, userId: validation.userId, session: validation.session };
+};
+
+// Optional free-text fields in request bodies; anything but a string or null is a 400, not a crash on trim()
+const isOptionalText = (value: unknown): value is string | null | undefined =>
+  value === undefined || value === null || typeof value === 'string';
+
+const textFieldError = (field: string): Response =>
+  new Response(JSON.stringify({ error: `${field} must be a string` }), {
+    status: 400,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+// Maps snapshot correction failures to 404 / 409 / 400, anything else to 500
+const snapshotCorrectionError = (error: unknown, fallback: string): Response => {
+  const message = error instanceof Error ? error.message : '';
+  const status = message.includes('not found') ? 404
+    : message.includes('paid settlements') ? 409
+    : message.startsWith('Snapshot') ? 400
+    : 500;
+
+  if (status === 500) {
+    console.error(`${fallback}:`, error);
   }
+  return new Response(JSON.stringify({ error: status === 500 ? fallback : message }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
 };
 
 const port = parseInt(process.env.PORT || '3000');
@@ -27,7 +79,7 @@ Bun.serve({
     
     '/api/periods': {
       async GET(req) {
-        const validation = await validateApiKey(req);
+        const validation = await validateSession(req);
         if (!validation.valid) {
           return new Response(JSON.stringify({ error: validation.error }), {
             status: 401,
@@ -50,9 +102,9 @@ Bun.serve({
       }
     },
     
-    '/api/periods/:index/summary': {
+    '/api/periods/:period/summary': {
       async GET(req: Request) {
-        const validation = await validateApiKey(req);
+        const validation = await validateSession(req);
         if (!validation.valid) {
           return new Response(JSON.stringify({ error: validation.error }), {
             status: 401,
@@ -62,17 +114,11 @@ Bun.serve({
 
         try {
           const url = new URL(req.url);
-          const periodIndex = parseInt(url.pathname.split('/')[3] || '0');
-          
-          if (isNaN(periodIndex)) {
-            return new Response(JSON.stringify({ error: 'Invalid period index' }), {
-              status: 400,
-              headers: { 'Content-Type': 'application/json' }
-            });
-          }
+          const { index: periodIndex } = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
 
           const summary = await billingCalculator.getPeriodSummary(periodIndex, validation.userId);
-          return new Response(JSON.stringify(summary), {
+          const forecasted = await costForecaster.forecast(summary);
+          return new Response(JSON.stringify(budgetService.withBudgets(forecasted)), {
             headers: { 'Content-Type': 'application/json' }
           });
         } catch (error) {
@@ -91,9 +137,9 @@ Bun.serve({
       }
     },
     
-    '/api/periods/:index/me': {
-      async GET(req) {
-        const validation = await validateApiKey(req);
+    '/api/periods/:period/export': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
         if (!validation.valid) {
           return new Response(JSON.stringify({ error: validation.error }), {
             status: 401,
@@ -103,21 +149,116 @@ Bun.serve({
 
         try {
           const url = new URL(req.url);
-          const periodIndex = parseInt(url.pathname.split('/')[3] || '0');
-          
-          if (isNaN(periodIndex)) {
-            return new Response(JSON.stringify({ error: 'Invalid period index' }), {
+          const format = (url.searchParams.get('format') || 'csv') as ExportFormat;
+
+          if (!(format in EXPORT_FORMATS)) {
+            return new Response(JSON.stringify({ error: 'Invalid export format' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const period = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
+          const summary = await billingCalculator.getPeriodSummary(period.index, validation.userId);
+          const rows = toExportRows(summary);
+          const { contentType, extension } = EXPORT_FORMATS[format];
+          const filename = `period-${period.slug ?? period.id}-${(summary.period.endAt || '').slice(0, 10)}.${extension}`;
+          const body = format === 'xlsx'
+            ? toXlsx(rows, period.label || `Period ${period.slug ?? period.id}`)
+            : format === 'jsonl' ? toJsonLinesStream(rows) : toCsvStream(rows);
+
+          return new Response(body, {
+            headers: {
+              'Content-Type': contentType,
+              'Content-Disposition': `attachment; filename="${filename}"`
+            }
+          });
+        } catch (error) {
+          console.error('Error exporting period summary:', error);
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: 'Period not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          return new Response(JSON.stringify({ error: 'Failed to export period summary' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/periods/:period/timeseries': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const granularity = (url.searchParams.get('granularity') || 'day') as Granularity;
+
+          if (granularity !== 'day' && granularity !== 'hour') {
+            return new Response(JSON.stringify({ error: 'Invalid granularity' }), {
               status: 400,
               headers: { 'Content-Type': 'application/json' }
             });
           }
 
+          const { index: periodIndex } = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
+
+          const timeSeries = await usageTimeSeries.getPeriodTimeSeries(periodIndex, granularity, validation.userId);
+          return new Response(JSON.stringify(timeSeries), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting period time series:', error);
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: 'Period not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          return new Response(JSON.stringify({ error: 'Failed to get period time series' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/periods/:period/me': {
+      async GET(req) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const { index: periodIndex } = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
+
           const userDetail = await billingCalculator.getUserDetail(periodIndex, validation.userId!);
-          return new Response(JSON.stringify(userDetail), {
+          const budget = budgetService.getUserBudgetStatus(userDetail.keyIds, userDetail.deltaCost);
+          return new Response(JSON.stringify({ ...userDetail, budget }), {
             headers: { 'Content-Type': 'application/json' }
           });
         } catch (error) {
           console.error('Error getting user detail:', error);
+          if (error instanceof Error && error.message.startsWith('Period')) {
+            return new Response(JSON.stringify({ error: 'Period not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
           if (error instanceof Error && error.message.includes('not found')) {
             return new Response(JSON.stringify({ error: 'User not found in this period (possibly deleted)' }), {
               status: 404,
@@ -132,7 +273,105 @@ Bun.serve({
       }
     },
     
-    '/api/auth/test': {
+    '/api/periods/:period/settlement': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const { index: periodIndex } = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
+
+          const settlement = await settlementService.getPeriodSettlement(periodIndex, validation.userId);
+          return new Response(JSON.stringify({ enabled: settlementService.isEnabled(), settlement }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting period settlement:', error);
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: 'Period not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          return new Response(JSON.stringify({ error: 'Failed to get period settlement' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    // Period costs aggregated by key tags of one grouping, e.g. `?by=team` for `team:*` tags
+    '/api/periods/:period/groups': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const { index: periodIndex } = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[3] || ''));
+
+          const summary = await billingCalculator.getPeriodSummary(periodIndex, validation.userId);
+          const prefixes = groupPrefixes(summary.ranking);
+          const by = url.searchParams.get('by') || prefixes[0] || null;
+          const groups = by ? budgetService.withGroupBudgets(groupRanking(summary.ranking, by)) : [];
+
+          return new Response(JSON.stringify({ by, prefixes, totals: summary.totals, groups }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting period groups:', error);
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: 'Period not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          return new Response(JSON.stringify({ error: 'Failed to get period groups' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/me/balance': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const balance = await settlementService.getOutstandingBalance(validation.userId!);
+          return new Response(JSON.stringify({ enabled: settlementService.isEnabled(), balance }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting outstanding balance:', error);
+          return new Response(JSON.stringify({ error: 'Failed to get outstanding balance' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/auth/login': {
       async POST(req: Request) {
         try {
           const body = await req.json() as { apiKey?: string };
@@ -146,11 +385,16 @@ Bun.serve({
           }
 
           const userId = await apiClient.getKeyId(apiKey);
-          return new Response(JSON.stringify({ success: true, userId }), {
-            headers: { 'Content-Type': 'application/json' }
+          const isAdmin = await isAdminKey(userId);
+          const { token, session } = sessionManager.create(userId, isAdmin, req.headers.get('user-agent'));
+          return new Response(JSON.stringify({ success: true, userId, isAdmin, expiresAt: session.expiresAt }), {
+            headers: {
+              'Content-Type': 'application/json',
+              'Set-Cookie': sessionManager.cookie(req, token)
+            }
           });
         } catch (error) {
-          console.error('Error testing API key:', error);
+          console.error('Error logging in:', error);
           return new Response(JSON.stringify({ error: 'Invalid API key' }), {
             status: 401,
             headers: { 'Content-Type': 'application/json' }
@@ -159,9 +403,46 @@ Bun.serve({
       }
     },
 
+    '/api/auth/session': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const { session } = validation;
+        return new Response(JSON.stringify({
+          userId: session!.keyId,
+          isAdmin: await isAdminKey(session!.keyId),
+          expiresAt: session!.expiresAt
+        }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    },
+
+    '/api/auth/logout': {
+      async POST(req: Request) {
+        const session = sessionManager.fromRequest(req);
+        if (session) {
+          sessionManager.revoke(session.id);
+        }
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: {
+            'Content-Type': 'application/json',
+            'Set-Cookie': sessionManager.clearCookie(req)
+          }
+        });
+      }
+    },
+
     '/api/ai-accounts': {
       async GET(req: Request) {
-        const validation = await validateApiKey(req);
+        const validation = await validateSession(req);
         if (!validation.valid) {
           return new Response(JSON.stringify({ error: validation.error }), {
             status: 401,
@@ -182,12 +463,1221 @@ Bun.serve({
           });
         }
       }
-    }
-  },
-  development: {
-    hmr: Bun.env.DEV === "development",
-    console: Bun.env.DEV === "development"
-  }
-});
+    },
+
+    '/api/ai-accounts/history': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const url = new URL(req.url);
+        const days = parseInt(url.searchParams.get('days') || '30');
+        if (isNaN(days) || days < 1 || days > 365) {
+          return new Response(JSON.stringify({ error: 'days must be between 1 and 365' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const history = accountHistory.getTimeline(days);
+          return new Response(JSON.stringify(history), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting AI account history:', error);
+          return new Response(JSON.stringify({ error: 'Failed to get AI account history' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/ai-accounts/alerts': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const alerts = accountAlertWatcher.listAlerts();
+          return new Response(JSON.stringify(alerts), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting AI account alerts:', error);
+          return new Response(JSON.stringify({ error: 'Failed to get AI account alerts' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/ai-accounts/:id/utilization': {
+      async GET(req: Request) {
+        const validation = await validateSession(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: 401,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const url = new URL(req.url);
+        const accountId = decodeURIComponent(url.pathname.split('/')[3] || '');
+        const days = parseInt(url.searchParams.get('days') || '7');
+        if (!accountId || isNaN(days) || days < 1 || days > 90) {
+          return new Response(JSON.stringify({ error: 'days must be between 1 and 90' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const utilization = accountHistory.getUtilization(accountId, days);
+          if (!utilization) {
+            return new Response(JSON.stringify({ error: 'No utilization readings for this account' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify(utilization), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error getting AI account utilization:', error);
+          return new Response(JSON.stringify({ error: 'Failed to get AI account utilization' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/snapshots': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const snapshots = snapshotService.listSnapshots();
+          return new Response(JSON.stringify({ snapshots }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing snapshots:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list snapshots' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const body = await req.json().catch(() => ({})) as { note?: unknown };
+          if (!isOptionalText(body.note)) {
+            return textFieldError('Note');
+          }
+
+          const snapshot = await snapshotService.createSnapshot({
+            schedule: 'admin',
+            note: body.note?.trim() || undefined,
+          });
+          console.log(`Snapshot #${snapshot.id} created by admin ${validation.userId}`);
+          return new Response(JSON.stringify(snapshot), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error creating snapshot:', error);
+          return new Response(JSON.stringify({ error: 'Failed to create snapshot' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/snapshots/:id': {
+      async PATCH(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const snapshotId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(snapshotId)) {
+            return new Response(JSON.stringify({ error: 'Invalid snapshot ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          // Refused rather than read as an empty body, which would clear the note
+          const body = await req.json().catch(() => null) as { note?: unknown } | null;
+          if (!body || typeof body !== 'object') {
+            return new Response(JSON.stringify({ error: 'Request body must be a JSON object' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          if (!isOptionalText(body.note)) {
+            return textFieldError('Note');
+          }
+          const note = body.note?.trim() || null;
+
+          if (!db.updateSnapshotNote(snapshotId, note)) {
+            return new Response(JSON.stringify({ error: 'Snapshot not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: snapshotId, note }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error updating snapshot:', error);
+          return new Response(JSON.stringify({ error: 'Failed to update snapshot' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const snapshotId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(snapshotId)) {
+            return new Response(JSON.stringify({ error: 'Invalid snapshot ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          snapshotService.deleteSnapshot(snapshotId);
+
+          console.log(`Snapshot #${snapshotId} deleted by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, id: snapshotId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error deleting snapshot:', error);
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: 'Snapshot not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          if (error instanceof Error && error.message.includes('paid settlements')) {
+            return new Response(JSON.stringify({ error: 'Snapshot bounds a period with paid settlements' }), {
+              status: 409,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          return new Response(JSON.stringify({ error: 'Failed to delete snapshot' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/snapshots/interpolate': {
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const body = (await req.json().catch(() => ({})) ?? {}) as { at?: unknown; note?: unknown };
+          if (!isOptionalText(body.at)) {
+            return textFieldError('Time');
+          }
+          if (!isOptionalText(body.note)) {
+            return textFieldError('Note');
+          }
+
+          const snapshot = await snapshotService.createInterpolatedSnapshot(body.at ?? '', body.note ?? undefined);
+
+          console.log(`Interpolated snapshot #${snapshot.id} at ${snapshot.createdAt} created by admin ${validation.userId}`);
+          return new Response(JSON.stringify(snapshot), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          return snapshotCorrectionError(error, 'Failed to create interpolated snapshot');
+        }
+      }
+    },
+
+    '/api/admin/snapshots/:id/void': {
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const snapshotId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(snapshotId)) {
+            return new Response(JSON.stringify({ error: 'Invalid snapshot ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          snapshotService.voidSnapshot(snapshotId, validation.userId!);
+
+          console.log(`Snapshot #${snapshotId} voided by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, id: snapshotId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          return snapshotCorrectionError(error, 'Failed to void snapshot');
+        }
+      },
+
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const snapshotId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(snapshotId)) {
+            return new Response(JSON.stringify({ error: 'Invalid snapshot ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          snapshotService.restoreSnapshot(snapshotId);
+
+          console.log(`Snapshot #${snapshotId} restored by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, id: snapshotId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          return snapshotCorrectionError(error, 'Failed to restore snapshot');
+        }
+      }
+    },
+
+    '/api/admin/snapshots/:id/effective-at': {
+      async PUT(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const snapshotId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(snapshotId)) {
+            return new Response(JSON.stringify({ error: 'Invalid snapshot ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const body = (await req.json().catch(() => ({})) ?? {}) as { effectiveAt?: unknown };
+          if (!isOptionalText(body.effectiveAt)) {
+            return textFieldError('Effective time');
+          }
+          const effectiveAt = body.effectiveAt?.trim() || null;
+          snapshotService.moveSnapshot(snapshotId, effectiveAt);
+
+          console.log(`Snapshot #${snapshotId} moved to ${effectiveAt ?? 'its creation time'} by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, id: snapshotId, effectiveAt }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          return snapshotCorrectionError(error, 'Failed to move snapshot');
+        }
+      }
+    },
+
+    '/api/admin/periods/:period/label': {
+      async PUT(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const period = await billingCalculator.findPeriod(decodeURIComponent(url.pathname.split('/')[4] || ''));
+          const body = await req.json().catch(() => ({})) as { label?: unknown; note?: unknown };
+          if (!isOptionalText(body.label)) {
+            return textFieldError('Label');
+          }
+          if (!isOptionalText(body.note)) {
+            return textFieldError('Note');
+          }
+          const label = body.label?.trim() || null;
+          const note = body.note?.trim() || null;
+
+          if (label && label.length > 100) {
+            return new Response(JSON.stringify({ error: 'Label must be at most 100 characters' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          billingCalculator.setPeriodLabel(period, label, note);
+
+          return new Response(JSON.stringify({ success: true, id: period.id, label, note }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (message.includes('not found')) {
+            return new Response(JSON.stringify({ error: message }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error updating period label:', error);
+          return new Response(JSON.stringify({ error: 'Failed to update period label' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/settlement-entries/:id': {
+      async PATCH(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const entryId = parseInt(url.pathname.split('/')[4] || '');
+          const body = await req.json() as { status?: string };
+
+          if (isNaN(entryId) || (body.status !== 'paid' && body.status !== 'unpaid')) {
+            return new Response(JSON.stringify({ error: 'Invalid entry ID or status' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const marker = await apiClient.getKeyInfo(validation.userId!).catch(() => null);
+          if (!settlementService.markEntry(entryId, body.status, validation.userId!, marker?.name ?? null)) {
+            return new Response(JSON.stringify({ error: 'Settlement entry not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: entryId, status: body.status }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error updating settlement entry:', error);
+          return new Response(JSON.stringify({ error: 'Failed to update settlement entry' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/keys': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const keys = await apiClient.listApiKeys();
+          return new Response(JSON.stringify({ keys: keys.map(({ id, name, tags }) => ({ id, name, tags })) }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing API keys:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list API keys' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/budgets': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          return new Response(JSON.stringify({
+            budgets: budgetService.listBudgets(),
+            thresholds: budgetService.getThresholds(),
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing budgets:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list budgets' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      // Creates or replaces the budget for a key or a tag group, or the global budget when neither is given
+      async PUT(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const body = (await req.json().catch(() => ({})) ?? {}) as { keyId?: unknown; tag?: unknown; amount?: unknown };
+          const amount = body.amount;
+
+          if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+            return new Response(JSON.stringify({ error: 'Budget amount must be a positive number' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          if (!isOptionalText(body.keyId)) {
+            return textFieldError('Key ID');
+          }
+          if (!isOptionalText(body.tag)) {
+            return textFieldError('Budget tag');
+          }
+
+          if (body.tag) {
+            const tag = body.tag.trim();
+            if (!/^[^:]+:.+$/.test(tag)) {
+              return new Response(JSON.stringify({ error: 'Budget tag must look like <grouping>:<group>, e.g. team:infra' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              });
+            }
+
+            const budget = budgetService.setGroupBudget(tag, amount, validation.userId!);
+            budgetService.checkThresholds();
+            return new Response(JSON.stringify(budget), {
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          let name: string | null = null;
+          if (body.keyId) {
+            const key = await apiClient.getKeyInfo(body.keyId);
+            if (!key) {
+              return new Response(JSON.stringify({ error: 'API key not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' }
+              });
+            }
+            name = key.name;
+          }
+
+          const budget = budgetService.setBudget(body.keyId || null, name, amount, validation.userId!);
+          // Thresholds may already be crossed under the new amount
+          budgetService.checkThresholds();
+          return new Response(JSON.stringify(budget), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error saving budget:', error);
+          return new Response(JSON.stringify({ error: 'Failed to save budget' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/budgets/:id': {
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const budgetId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(budgetId)) {
+            return new Response(JSON.stringify({ error: 'Invalid budget ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          if (!budgetService.deleteBudget(budgetId)) {
+            return new Response(JSON.stringify({ error: 'Budget not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: budgetId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error deleting budget:', error);
+          return new Response(JSON.stringify({ error: 'Failed to delete budget' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/people': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          return new Response(JSON.stringify({ people: identityService.listPeople() }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing people:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list people' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const body = await req.json().catch(() => ({})) as { name?: unknown };
+          const person = identityService.createPerson(typeof body.name === 'string' ? body.name : '');
+          console.log(`Person #${person.id} "${person.name}" created by admin ${validation.userId}`);
+          return new Response(JSON.stringify(person), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Person')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error creating person:', error);
+          return new Response(JSON.stringify({ error: 'Failed to create person' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/people/:id': {
+      async PUT(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const personId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(personId)) {
+            return new Response(JSON.stringify({ error: 'Invalid person ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const body = await req.json().catch(() => ({})) as { name?: unknown };
+          if (!identityService.renamePerson(personId, typeof body.name === 'string' ? body.name : '')) {
+            return new Response(JSON.stringify({ error: 'Person not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: personId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Person')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error renaming person:', error);
+          return new Response(JSON.stringify({ error: 'Failed to rename person' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const personId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(personId)) {
+            return new Response(JSON.stringify({ error: 'Invalid person ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          if (!identityService.deletePerson(personId)) {
+            return new Response(JSON.stringify({ error: 'Person not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          console.log(`Person #${personId} deleted by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, id: personId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error deleting person:', error);
+          return new Response(JSON.stringify({ error: 'Failed to delete person' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/people/:id/keys': {
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const personId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(personId)) {
+            return new Response(JSON.stringify({ error: 'Invalid person ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const body = await req.json().catch(() => ({})) as { keyId?: unknown; effectiveFrom?: unknown; effectiveTo?: unknown };
+          const key = identityService.addKey(
+            personId,
+            typeof body.keyId === 'string' ? body.keyId : '',
+            typeof body.effectiveFrom === 'string' ? body.effectiveFrom : null,
+            typeof body.effectiveTo === 'string' ? body.effectiveTo : null
+          );
+          console.log(`Key ${key.keyId} mapped to person #${personId} by admin ${validation.userId}`);
+          return new Response(JSON.stringify(key), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          if (error instanceof Error && error.message.startsWith('Person')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error mapping key to person:', error);
+          return new Response(JSON.stringify({ error: 'Failed to map key' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/person-keys/:id': {
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const mappingId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(mappingId)) {
+            return new Response(JSON.stringify({ error: 'Invalid mapping ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          if (!identityService.removeKey(mappingId)) {
+            return new Response(JSON.stringify({ error: 'Mapping not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: mappingId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error removing key mapping:', error);
+          return new Response(JSON.stringify({ error: 'Failed to remove key mapping' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/webhooks': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          return new Response(JSON.stringify({
+            webhooks: webhookDispatcher.listWebhooks(),
+            formats: WEBHOOK_FORMATS,
+            events: WEBHOOK_EVENTS,
+          }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing webhooks:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list webhooks' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const body = await req.json().catch(() => ({})) as WebhookInput;
+          const webhook = webhookDispatcher.createWebhook({ ...body, enabled: body.enabled ?? true });
+          console.log(`Webhook #${webhook.id} "${webhook.name}" created by admin ${validation.userId}`);
+          return new Response(JSON.stringify(webhook), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.startsWith('Webhook')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error creating webhook:', error);
+          return new Response(JSON.stringify({ error: 'Failed to create webhook' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/webhooks/:id': {
+      async PATCH(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const webhookId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(webhookId)) {
+            return new Response(JSON.stringify({ error: 'Invalid webhook ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const body = await req.json().catch(() => ({})) as WebhookInput;
+          const webhook = webhookDispatcher.updateWebhook(webhookId, { ...body, enabled: body.enabled ?? true });
+          return new Response(JSON.stringify(webhook), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          if (error instanceof Error && error.message.startsWith('Webhook')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error updating webhook:', error);
+          return new Response(JSON.stringify({ error: 'Failed to update webhook' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const webhookId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(webhookId)) {
+            return new Response(JSON.stringify({ error: 'Invalid webhook ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          if (!webhookDispatcher.deleteWebhook(webhookId)) {
+            return new Response(JSON.stringify({ error: 'Webhook not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          return new Response(JSON.stringify({ success: true, id: webhookId }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error deleting webhook:', error);
+          return new Response(JSON.stringify({ error: 'Failed to delete webhook' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/webhooks/:id/test': {
+      async POST(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const webhookId = parseInt(url.pathname.split('/')[4] || '');
+
+          if (isNaN(webhookId)) {
+            return new Response(JSON.stringify({ error: 'Invalid webhook ID' }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          const deliveryId = webhookDispatcher.sendTest(webhookId);
+          return new Response(JSON.stringify({ success: true, deliveryId }), {
+            status: 202,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('not found')) {
+            return new Response(JSON.stringify({ error: error.message }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+          console.error('Error testing webhook:', error);
+          return new Response(JSON.stringify({ error: 'Failed to test webhook' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/webhook-deliveries': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const limit = Math.min(500, Math.max(1, parseInt(url.searchParams.get('limit') || '100') || 100));
+          const webhookId = parseInt(url.searchParams.get('webhookId') || '');
+          const deliveries = webhookDispatcher.listDeliveries(limit, isNaN(webhookId) ? undefined : webhookId);
+          return new Response(JSON.stringify({ deliveries }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing webhook deliveries:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list webhook deliveries' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/sessions': {
+      async GET(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const sessions = sessionManager.list();
+          return new Response(JSON.stringify({ sessions, currentSessionId: validation.session!.id }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error listing sessions:', error);
+          return new Response(JSON.stringify({ error: 'Failed to list sessions' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      },
+
+      // Revokes every session of one key, e.g. after the key leaked or was rotated
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        const keyId = new URL(req.url).searchParams.get('keyId');
+        if (!keyId) {
+          return new Response(JSON.stringify({ error: 'keyId is required' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const revoked = sessionManager.revokeForKey(keyId);
+          console.log(`${revoked} session(s) of key ${keyId} revoked by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true, revoked }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error revoking sessions:', error);
+          return new Response(JSON.stringify({ error: 'Failed to revoke sessions' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    },
+
+    '/api/admin/sessions/:id': {
+      async DELETE(req: Request) {
+        const validation = await validateAdmin(req);
+        if (!validation.valid) {
+          return new Response(JSON.stringify({ error: validation.error }), {
+            status: validation.status,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+
+        try {
+          const url = new URL(req.url);
+          const sessionId = url.pathname.split('/')[4] || '';
+
+          if (!sessionManager.revoke(sessionId)) {
+            return new Response(JSON.stringify({ error: 'Session not found' }), {
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            });
+          }
+
+          console.log(`Session ${sessionId} revoked by admin ${validation.userId}`);
+          return new Response(JSON.stringify({ success: true }), {
+            headers: { 'Content-Type': 'application/json' }
+          });
+        } catch (error) {
+          console.error('Error revoking session:', error);
+          return new Response(JSON.stringify({ error: 'Failed to revoke session' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+      }
+    }
+  },
+  development: {
+    hmr: Bun.env.DEV === "development",
+    console: Bun.env.DEV === "development"
+  }
+});
+
+snapshotScheduler.start();
+usageSampler.start();
+budgetService.start();
+webhookDispatcher.start();
+accountMonitor.start();
+backupService.start();
 
 console.log(`Server running on http://localhost:${port}`);
\ No newline at end of file
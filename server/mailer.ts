@@ -0,0 +1,203 @@
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30000;
+
+// Opens the connection to the mail server; replaced in tests
+export type SmtpConnector = (options: { host: string; port: number; secure: boolean }) => Socket;
+
+const connectSocket: SmtpConnector = ({ host, port, secure }) =>
+  secure ? connectTls({ host, port, servername: host }) : connectTcp({ host, port });
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(text: string): string {
+  return Buffer.from(text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+/**
+ * Reads SMTP replies off a socket. Multi-line replies ("250-...") are joined
+ * into one reply once the final line ("250 ...") arrives.
+ */
+class SmtpSession {
+  private buffer = '';
+  private partial: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.partial.push(line.slice(4));
+
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.partial };
+        this.partial = [];
+        if (this.waiter) {
+          this.waiter.resolve(reply);
+          this.waiter = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiter) {
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  upgradeToTls(servername: string) {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    this.attach(connectTls({ socket: plain, servername }));
+  }
+
+  close() {
+    this.socket.removeAllListeners('close');
+    this.socket.end();
+  }
+}
+
+/**
+ * Minimal SMTP client for plain-text notifications. `smtps://` connects over
+ * TLS; `smtp://` upgrades with STARTTLS when the server offers it. Credentials
+ * in the URL are sent with AUTH PLAIN, and only over TLS unless the URL opts
+ * out with `?insecure=1`, so a stripped STARTTLS can't expose them.
+ */
+export class SmtpMailer {
+  private readonly url: URL;
+
+  constructor(smtpUrl: string, private readonly from: string, private readonly connect: SmtpConnector = connectSocket) {
+    this.url = new URL(smtpUrl);
+    if (this.url.protocol !== 'smtp:' && this.url.protocol !== 'smtps:') {
+      throw new Error(`Unsupported SMTP URL protocol "${this.url.protocol}"`);
+    }
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const host = this.url.hostname;
+    const secure = this.url.protocol === 'smtps:';
+    const port = parseInt(this.url.port || (secure ? '465' : '587'));
+    const socket = this.connect({ host, port, secure });
+    const session = new SmtpSession(socket);
+    const clientName = hostname() || 'localhost';
+
+    try {
+      await session.command(null, [220]);
+      const ehlo = await session.command(`EHLO ${clientName}`, [250]);
+
+      let encrypted = secure;
+      if (!secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+        await session.command('STARTTLS', [220]);
+        session.upgradeToTls(host);
+        await session.command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.url.username) {
+        if (!encrypted && this.url.searchParams.get('insecure') !== '1') {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted (add ?insecure=1 to SMTP_URL to allow it)');
+        }
+
+        const credentials = `\0${decodeURIComponent(this.url.username)}\0${decodeURIComponent(this.url.password)}`;
+        await session.command(`AUTH PLAIN ${Buffer.from(credentials, 'utf8').toString('base64')}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${this.from}>`, [250]);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+
+      await session.command('DATA', [354]);
+      const headers = [
+        `From: ${this.from}`,
+        `To: ${message.to.join(', ')}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+      ];
+      // Base64 bodies never contain a line with a lone "." so no dot-stuffing is needed
+      await session.command(`${headers.join('\r\n')}\r\n\r\n${wrapBase64(message.text)}.`, [250]);
+
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+function createMailerFromEnv(): SmtpMailer | null {
+  const smtpUrl = process.env.SMTP_URL;
+  if (!smtpUrl) return null;
+
+  return new SmtpMailer(smtpUrl, process.env.SMTP_FROM || `billing@${new URL(smtpUrl).hostname}`);
+}
+
+export const mailer = createMailerFromEnv();
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MIGRATIONS, Migrator } from './migrations';
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+// The only table before migrations existed, as the first releases created it
+function preSeriesDatabase(path = ':memory:'): Database {
+  const db = new Database(path);
+  db.run(`
+    CREATE TABLE billing_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'Asia/Shanghai',
+      raw_json TEXT NOT NULL
+    )
+  `);
+  return db;
+}
+
+const user = (id: string, cost: number) => ({
+  id,
+  name: `User ${id}`,
+  tags: ['team:infra'],
+  usage: { total: { cost, tokens: cost * 1000, inputTokens: 1, outputTokens: 2, cacheCreateTokens: 3, cacheReadTokens: 4, requests: 5 } },
+});
+
+describe('Migrator', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('creates an empty database at the latest version', () => {
+    const db = new Database(':memory:');
+    const migrator = new Migrator(db, ':memory:');
+    const run = migrator.run();
+
+    expect(run.fromVersion).toBe(0);
+    expect(run.applied.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(migrator.currentVersion()).toBe(LATEST);
+    expect(migrator.run().applied).toEqual([]);
+  });
+
+  test('moves pre-series snapshots into entry rows and clears their raw_json', () => {
+    const db = preSeriesDatabase();
+    const insert = db.prepare('INSERT INTO billing_snapshots (created_at, timezone, raw_json) VALUES (?, ?, ?)');
+    insert.run('2026-01-01T00:00:00.000Z', 'Asia/Shanghai', JSON.stringify([user('k1', 1.5), user('k2', 0)]));
+    // Some releases stored the list encoded twice; entries without a key ID are skipped
+    insert.run('2026-02-01T00:00:00.000Z', 'Asia/Shanghai', JSON.stringify(JSON.stringify([user('k1', 4), null, { name: 'No ID' }])));
+
+    new Migrator(db, ':memory:').run();
+
+    const entries = db.prepare('SELECT * FROM billing_snapshot_entries ORDER BY snapshot_id, key_id').all();
+    expect(entries).toEqual([
+      expect.objectContaining({ snapshot_id: 1, key_id: 'k1', name: 'User k1', tags: '["team:infra"]', cost: 1.5, tokens: 1500, input_tokens: 1, output_tokens: 2, cache_create_tokens: 3, cache_read_tokens: 4, requests: 5 }),
+      expect.objectContaining({ snapshot_id: 1, key_id: 'k2', cost: 0 }),
+      expect.objectContaining({ snapshot_id: 2, key_id: 'k1', cost: 4 }),
+    ]);
+    expect(db.prepare(`SELECT raw_json FROM billing_snapshots`).all()).toEqual([{ raw_json: '' }, { raw_json: '' }]);
+  });
+
+  test('leaves an unreadable snapshot as it is', () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    const db = preSeriesDatabase();
+    db.run(`INSERT INTO billing_snapshots (created_at, raw_json) VALUES ('2026-01-01T00:00:00.000Z', '[{broken')`);
+
+    new Migrator(db, ':memory:').run();
+
+    expect(db.prepare('SELECT COUNT(*) AS count FROM billing_snapshot_entries').get()).toEqual({ count: 0 });
+    expect(db.prepare('SELECT raw_json FROM billing_snapshots').get()).toEqual({ raw_json: '[{broken' });
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  test('adds the later columns and keeps pre-series snapshots usable', () => {
+    const db = preSeriesDatabase();
+    db.run(`INSERT INTO billing_snapshots (created_at, raw_json) VALUES ('2026-01-01T00:00:00.000Z', '[]')`);
+
+    new Migrator(db, ':memory:').run();
+
+    const columns = (db.prepare('PRAGMA table_info(billing_snapshots)').all() as { name: string }[]).map(c => c.name);
+    expect(columns).toEqual(expect.arrayContaining(['schedule', 'scheduled_for', 'note', 'effective_at', 'voided_at', 'voided_by']));
+    expect(db.prepare('SELECT timezone, effective_at, voided_at FROM billing_snapshots').get()).toEqual({
+      timezone: 'Asia/Shanghai',
+      effective_at: null,
+      voided_at: null,
+    });
+  });
+
+  test('backs up a database with tables before migrating it, and not a new one', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+    dirs.push(dir);
+
+    const fresh = join(dir, 'fresh.db');
+    expect(new Migrator(new Database(fresh), fresh).run().backupPath).toBeNull();
+
+    const path = join(dir, 'app.db');
+    const db = preSeriesDatabase(path);
+    db.run(`INSERT INTO billing_snapshots (created_at, raw_json) VALUES ('2026-01-01T00:00:00.000Z', '[]')`);
+    const { backupPath } = new Migrator(db, path).run();
+
+    expect(backupPath).toStartWith(`${path}.v0-`);
+    expect(existsSync(backupPath!)).toBe(true);
+    const backup = new Database(backupPath!, { readonly: true });
+    expect(backup.prepare('SELECT raw_json FROM billing_snapshots').get()).toEqual({ raw_json: '[]' });
+    expect(backup.prepare(`SELECT name FROM sqlite_master WHERE name = 'billing_snapshot_entries'`).get()).toBeNull();
+    backup.close();
+    db.close();
+  });
+
+  test('refuses a database newer than the build', () => {
+    const db = new Database(':memory:');
+    new Migrator(db, ':memory:').run();
+    db.run(`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, 'future', '2030-01-01T00:00:00.000Z')`, [LATEST + 1]);
+
+    expect(() => new Migrator(db, ':memory:').run()).toThrow(`schema version ${LATEST + 1}, but this build only knows up to ${LATEST}`);
+  });
+
+  test('rolls back a failing migration and keeps the earlier ones', () => {
+    const db = new Database(':memory:');
+    const migrations = [
+      { version: 1, name: 'one', up: (d: Database) => d.run('CREATE TABLE one (id INTEGER)') },
+      { version: 2, name: 'two', up: (d: Database) => { d.run('CREATE TABLE two (id INTEGER)'); throw new Error('boom'); } },
+    ];
+
+    expect(() => new Migrator(db, ':memory:', migrations).run()).toThrow('boom');
+    const tables = (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`).all() as { name: string }[]).map(t => t.name);
+    expect(tables).toEqual(['one', 'schema_migrations']);
+    expect(new Migrator(db, ':memory:', migrations).currentVersion()).toBe(1);
+  });
+});
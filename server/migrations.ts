@@ -0,0 +1,536 @@
+import { Database } from "bun:sqlite";
+import { existsSync } from "node:fs";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+export interface MigrationRun {
+  fromVersion: number;
+  applied: Migration[];
+  backupPath: string | null;
+}
+
+function ensureColumn(db: Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// One key in a legacy raw_json blob, as older releases stored it
+interface LegacySnapshotUser {
+  id: string | number;
+  name?: string;
+  tags?: string[];
+  usage?: {
+    total?: Partial<Record<'cost' | 'tokens' | 'inputTokens' | 'outputTokens' | 'cacheCreateTokens' | 'cacheReadTokens' | 'requests', number>>;
+  };
+}
+
+function isLegacySnapshotUser(value: unknown): value is LegacySnapshotUser {
+  return typeof value === 'object' && value !== null
+    && 'id' in value && (typeof value.id === 'string' || typeof value.id === 'number');
+}
+
+// Copies legacy raw_json blobs (sometimes double-encoded) into entry rows and clears them
+function backfillSnapshotEntries(db: Database) {
+  const pending = db.prepare(`
+    SELECT id, raw_json FROM billing_snapshots s
+    WHERE raw_json != ''
+      AND NOT EXISTS (SELECT 1 FROM billing_snapshot_entries e WHERE e.snapshot_id = s.id)
+  `).all() as { id: number; raw_json: string }[];
+
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO billing_snapshot_entries (
+      snapshot_id, key_id, name, tags, cost, tokens, input_tokens, output_tokens,
+      cache_create_tokens, cache_read_tokens, requests
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const clear = db.prepare(`UPDATE billing_snapshots SET raw_json = '' WHERE id = ?`);
+
+  for (const snapshot of pending) {
+    let users: unknown = snapshot.raw_json;
+    try {
+      while (typeof users === 'string') {
+        users = JSON.parse(users);
+      }
+    } catch (error) {
+      console.error(`Snapshot #${snapshot.id} has unreadable raw_json, leaving it as is:`, error);
+      continue;
+    }
+
+    // Entries without a key ID can't be attributed to anyone
+    for (const user of Array.isArray(users) ? users.filter(isLegacySnapshotUser) : []) {
+      const total = user.usage?.total;
+      insert.run(
+        snapshot.id,
+        String(user.id),
+        user.name || 'User',
+        JSON.stringify(user.tags ?? []),
+        Number(total?.cost ?? 0),
+        Number(total?.tokens ?? 0),
+        Number(total?.inputTokens ?? 0),
+        Number(total?.outputTokens ?? 0),
+        Number(total?.cacheCreateTokens ?? 0),
+        Number(total?.cacheReadTokens ?? 0),
+        Number(total?.requests ?? 0)
+      );
+    }
+    clear.run(snapshot.id);
+  }
+}
+
+/**
+ * Schema changes in the order they were made. Each one runs once, inside a
+ * transaction, and is recorded in `schema_migrations`. Never edit a migration
+ * that has shipped; add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // Everything created before migrations existed; written to be a no-op on those databases
+    name: 'baseline',
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS billing_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          created_at TEXT NOT NULL,
+          timezone TEXT NOT NULL DEFAULT 'Asia/Shanghai',
+          raw_json TEXT NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_billing_snapshots_created_at ON billing_snapshots(created_at)
+      `);
+
+      ensureColumn(db, 'billing_snapshots', 'schedule', 'TEXT');
+      ensureColumn(db, 'billing_snapshots', 'scheduled_for', 'TEXT');
+      ensureColumn(db, 'billing_snapshots', 'note', 'TEXT');
+      db.run(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_snapshots_scheduled_for
+        ON billing_snapshots(scheduled_for) WHERE scheduled_for IS NOT NULL
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS settlements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          start_snapshot_id INTEGER,
+          end_snapshot_id INTEGER NOT NULL UNIQUE,
+          fee REAL NOT NULL,
+          currency TEXT NOT NULL,
+          total_cost REAL NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS settlement_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          settlement_id INTEGER NOT NULL,
+          key_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          cost REAL NOT NULL,
+          share REAL NOT NULL,
+          amount REAL NOT NULL,
+          status TEXT NOT NULL DEFAULT 'unpaid',
+          paid_at TEXT,
+          marked_by TEXT,
+          marked_by_name TEXT
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_settlement_entries_settlement_id ON settlement_entries(settlement_id)
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_settlement_entries_key_id ON settlement_entries(key_id)
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS period_summaries (
+          end_snapshot_id INTEGER PRIMARY KEY,
+          start_snapshot_id INTEGER,
+          total_cost REAL NOT NULL,
+          user_count INTEGER NOT NULL,
+          ranking_json TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS usage_samples (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          sampled_at TEXT NOT NULL,
+          key_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          cost REAL NOT NULL,
+          tokens INTEGER NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_create_tokens INTEGER NOT NULL,
+          cache_read_tokens INTEGER NOT NULL,
+          requests INTEGER NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_usage_samples_sampled_at ON usage_samples(sampled_at)
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_usage_samples_key_id ON usage_samples(key_id, sampled_at)
+      `);
+
+      // Global budgets use an empty key_id so the unique constraint also covers them
+      db.run(`
+        CREATE TABLE IF NOT EXISTS budgets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          scope TEXT NOT NULL,
+          key_id TEXT NOT NULL DEFAULT '',
+          name TEXT,
+          amount REAL NOT NULL,
+          updated_at TEXT NOT NULL,
+          updated_by TEXT,
+          UNIQUE (scope, key_id)
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS budget_alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          period_start_snapshot_id INTEGER NOT NULL,
+          scope TEXT NOT NULL,
+          key_id TEXT NOT NULL DEFAULT '',
+          threshold INTEGER NOT NULL,
+          budget REAL NOT NULL,
+          cost REAL NOT NULL,
+          fired_at TEXT NOT NULL,
+          UNIQUE (period_start_snapshot_id, scope, key_id, threshold)
+        )
+      `);
+
+      // events is a comma-separated subscription list, '*' for all events
+      db.run(`
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          url TEXT NOT NULL,
+          format TEXT NOT NULL,
+          events TEXT NOT NULL DEFAULT '*',
+          secret TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+          event TEXT NOT NULL,
+          payload_json TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at TEXT,
+          last_status_code INTEGER,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          delivered_at TEXT
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at)
+      `);
+
+      // Last observed state of each shared AI account, to detect status changes
+      db.run(`
+        CREATE TABLE IF NOT EXISTS ai_account_states (
+          account_id TEXT PRIMARY KEY,
+          platform TEXT NOT NULL,
+          name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          schedulable INTEGER,
+          stopped_reason TEXT,
+          changed_at TEXT NOT NULL,
+          checked_at TEXT NOT NULL
+        )
+      `);
+
+      // One row per observed state change; a state lasts until the account's next row
+      db.run(`
+        CREATE TABLE IF NOT EXISTS ai_account_status_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          schedulable INTEGER,
+          stopped_reason TEXT,
+          changed_at TEXT NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_ai_account_status_changes_account ON ai_account_status_changes(account_id, changed_at)
+      `);
+      db.run(`
+        CREATE TABLE IF NOT EXISTS ai_account_readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          checked_at TEXT NOT NULL,
+          status TEXT NOT NULL,
+          schedulable INTEGER,
+          five_hour REAL,
+          five_hour_resets_at TEXT,
+          seven_day REAL,
+          seven_day_resets_at TEXT,
+          seven_day_opus REAL,
+          seven_day_opus_resets_at TEXT,
+          codex_primary REAL,
+          codex_primary_resets_at TEXT,
+          codex_secondary REAL,
+          codex_secondary_resets_at TEXT
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_ai_account_readings_checked_at ON ai_account_readings(checked_at)
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_ai_account_readings_account ON ai_account_readings(account_id, checked_at)
+      `);
+
+      // An open row (resolved_at NULL) is pending until fired_at is set, so each rule alerts once per incident
+      db.run(`
+        CREATE TABLE IF NOT EXISTS account_alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule TEXT NOT NULL,
+          account_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          name TEXT NOT NULL,
+          detail TEXT NOT NULL,
+          condition_since TEXT NOT NULL,
+          fired_at TEXT,
+          resolved_at TEXT
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_account_alerts_open ON account_alerts(resolved_at)
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          key_id TEXT NOT NULL,
+          is_admin INTEGER NOT NULL DEFAULT 0,
+          user_agent TEXT,
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_sessions_key_id ON sessions(key_id)
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'snapshot-entries',
+    up(db) {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS billing_snapshot_entries (
+          snapshot_id INTEGER NOT NULL,
+          key_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          tags TEXT NOT NULL DEFAULT '[]',
+          cost REAL NOT NULL,
+          tokens INTEGER NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_create_tokens INTEGER NOT NULL,
+          cache_read_tokens INTEGER NOT NULL,
+          requests INTEGER NOT NULL,
+          PRIMARY KEY (snapshot_id, key_id)
+        )
+      `);
+      db.run(`
+        CREATE INDEX IF NOT EXISTS idx_billing_snapshot_entries_key_id ON billing_snapshot_entries(key_id)
+      `);
+      backfillSnapshotEntries(db);
+    },
+  },
+  {
+    version: 3,
+    name: 'snapshot-corrections',
+    up(db) {
+      // A snapshot bounds periods at effective_at (falling back to created_at) unless voided
+      db.run(`ALTER TABLE billing_snapshots ADD COLUMN effective_at TEXT`);
+      db.run(`ALTER TABLE billing_snapshots ADD COLUMN voided_at TEXT`);
+      db.run(`ALTER TABLE billing_snapshots ADD COLUMN voided_by TEXT`);
+    },
+  },
+  {
+    version: 4,
+    name: 'period-labels',
+    up(db) {
+      // Keyed by the period's start snapshot (0 for the first period), which survives the period closing
+      db.run(`
+        CREATE TABLE period_labels (
+          start_snapshot_id INTEGER PRIMARY KEY,
+          label TEXT,
+          note TEXT,
+          updated_at TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'snapshot-models',
+    up(db) {
+      // has_models tells a key with no usage apart from one whose model stats were not recorded
+      db.run(`ALTER TABLE billing_snapshot_entries ADD COLUMN has_models INTEGER NOT NULL DEFAULT 0`);
+      db.run(`
+        CREATE TABLE billing_snapshot_models (
+          snapshot_id INTEGER NOT NULL,
+          key_id TEXT NOT NULL,
+          model TEXT NOT NULL,
+          cost REAL NOT NULL,
+          tokens INTEGER NOT NULL,
+          input_tokens INTEGER NOT NULL,
+          output_tokens INTEGER NOT NULL,
+          cache_create_tokens INTEGER NOT NULL,
+          cache_read_tokens INTEGER NOT NULL,
+          requests INTEGER NOT NULL,
+          PRIMARY KEY (snapshot_id, key_id, model)
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'settlement-pools',
+    up(db) {
+      // JSON of platform -> amount, set when the fee is split into per-platform pools
+      db.run(`ALTER TABLE settlement_entries ADD COLUMN pool_amounts TEXT`);
+    },
+  },
+  {
+    version: 7,
+    name: 'people',
+    up(db) {
+      db.run(`
+        CREATE TABLE people (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      // A key belongs to a person from effective_from until effective_to; NULL leaves that end open
+      db.run(`
+        CREATE TABLE person_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          person_id INTEGER NOT NULL,
+          key_id TEXT NOT NULL,
+          effective_from TEXT,
+          effective_to TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run(`CREATE INDEX idx_person_keys_key_id ON person_keys(key_id)`);
+      db.run(`CREATE INDEX idx_person_keys_person_id ON person_keys(person_id)`);
+    },
+  },
+  {
+    version: 8,
+    name: 'period-reconciliation',
+    up(db) {
+      // JSON list of deleted and reset keys found while computing the period; NULL for older summaries
+      db.run(`ALTER TABLE period_summaries ADD COLUMN reconciliation_json TEXT`);
+    },
+  },
+  {
+    version: 9,
+    name: 'sample-tags-models',
+    up(db) {
+      // Kept so snapshots interpolated from samples get the keys' tags and per-model usage; models_json is NULL when unknown
+      db.run(`ALTER TABLE usage_samples ADD COLUMN tags TEXT NOT NULL DEFAULT '[]'`);
+      db.run(`ALTER TABLE usage_samples ADD COLUMN models_json TEXT`);
+    },
+  },
+];
+
+/**
+ * Brings a database up to the latest migration. Before applying anything to a
+ * database that already has tables, a copy is written next to it with
+ * `VACUUM INTO`.
+ */
+export class Migrator {
+  constructor(
+    private readonly db: Database,
+    private readonly dbPath: string,
+    private readonly migrations: Migration[] = MIGRATIONS
+  ) {}
+
+  currentVersion(): number {
+    const table = this.db.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'
+    `).get();
+    if (!table) return 0;
+
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  pending(): Migration[] {
+    const current = this.currentVersion();
+    const latest = this.migrations[this.migrations.length - 1]?.version ?? 0;
+    if (current > latest) {
+      throw new Error(`Database is at schema version ${current}, but this build only knows up to ${latest}`);
+    }
+
+    return this.migrations.filter(m => m.version > current);
+  }
+
+  run(): MigrationRun {
+    const fromVersion = this.currentVersion();
+    const pending = this.pending();
+
+    if (pending.length === 0) {
+      return { fromVersion, applied: [], backupPath: null };
+    }
+
+    const backupPath = this.backup(fromVersion);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        migration.up(this.db);
+        record.run(migration.version, migration.name, new Date().toISOString());
+      })();
+    }
+
+    return { fromVersion, applied: pending, backupPath };
+  }
+
+  private backup(version: number): string | null {
+    if (this.dbPath === ':memory:' || !existsSync(this.dbPath)) return null;
+
+    const tables = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM sqlite_master
+      WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')
+    `).get() as { count: number };
+    if (tables.count === 0) return null;
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${this.dbPath}.v${version}-${stamp}.bak`;
+    this.db.run('VACUUM INTO ?', [backupPath]);
+    return backupPath;
+  }
+}
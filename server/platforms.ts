@@ -0,0 +1,99 @@
+import type { UserRanking } from './billing-calculator';
+
+export const PLATFORMS = ['claude', 'openai', 'gemini', 'other'] as const;
+export type Platform = (typeof PLATFORMS)[number];
+
+export interface PlatformCost {
+  platform: Platform;
+  cost: number;
+  // Of the period's total for a summary, of the platform's total for a user
+  share: number;
+}
+
+export interface PlatformTotal extends PlatformCost {
+  userCount: number;
+}
+
+const MODEL_PATTERNS: Array<[Platform, RegExp]> = [
+  ['claude', /claude|opus|sonnet|haiku|anthropic/i],
+  ['openai', /^(gpt|o\d|chatgpt)|codex/i],
+  ['gemini', /gemini/i],
+];
+
+export function platformForModel(model: string): Platform {
+  return MODEL_PATTERNS.find(([, pattern]) => pattern.test(model))?.[0] ?? 'other';
+}
+
+export function parsePlatform(value: string): Platform | null {
+  return (PLATFORMS as readonly string[]).includes(value) ? value as Platform : null;
+}
+
+// Usage recorded without a model breakdown predates multi-platform billing
+const defaultPlatform = parsePlatform(process.env.DEFAULT_PLATFORM || '') ?? 'claude';
+
+/**
+ * A user's period cost by platform. Cost the models don't account for, e.g.
+ * when the relay's per-model totals lag its key totals, counts as `other`.
+ */
+export function userPlatformCosts(user: Pick<UserRanking, 'cost' | 'models'>): Map<Platform, number> {
+  const costs = new Map<Platform, number>();
+  if (!user.models) {
+    if (user.cost > 0) costs.set(defaultPlatform, user.cost);
+    return costs;
+  }
+
+  for (const model of user.models) {
+    const platform = platformForModel(model.model);
+    costs.set(platform, (costs.get(platform) ?? 0) + model.cost);
+  }
+
+  const unattributed = user.cost - user.models.reduce((sum, model) => sum + model.cost, 0);
+  if (unattributed > 0.000001) {
+    costs.set('other', (costs.get('other') ?? 0) + unattributed);
+  }
+
+  return costs;
+}
+
+/**
+ * Splits a period's ranking by platform: each user's platform costs with their
+ * share of that platform, and the platform totals with their share of the period.
+ */
+export function splitByPlatform(ranking: Array<Pick<UserRanking, 'cost' | 'models'>>) {
+  const perUser = ranking.map(user => userPlatformCosts(user));
+
+  const totals = new Map<Platform, { cost: number; userCount: number }>();
+  for (const costs of perUser) {
+    for (const [platform, cost] of costs) {
+      const total = totals.get(platform) ?? { cost: 0, userCount: 0 };
+      total.cost += cost;
+      total.userCount += 1;
+      totals.set(platform, total);
+    }
+  }
+
+  const periodTotal = Array.from(totals.values()).reduce((sum, total) => sum + total.cost, 0);
+  const platforms: PlatformTotal[] = PLATFORMS
+    .filter(platform => totals.has(platform))
+    .map((platform) => {
+      const total = totals.get(platform)!;
+      return {
+        platform,
+        cost: +total.cost.toFixed(6),
+        share: periodTotal > 0 ? total.cost / periodTotal : 0,
+        userCount: total.userCount,
+      };
+    });
+
+  const users: PlatformCost[][] = perUser.map(costs =>
+    PLATFORMS
+      .filter(platform => costs.has(platform))
+      .map((platform) => {
+        const cost = costs.get(platform)!;
+        const total = totals.get(platform)!.cost;
+        return { platform, cost: +cost.toFixed(6), share: total > 0 ? cost / total : 0 };
+      })
+  );
+
+  return { platforms, users };
+}
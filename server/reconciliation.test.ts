@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { counterIncrease, increase, type CounterReading } from './reconciliation';
+
+const reading = (at: string | null, cost: number, tokens = cost * 100, requests = cost): CounterReading => ({ at, cost, tokens, requests });
+
+describe('increase', () => {
+  test('is the difference while a counter grows', () => {
+    expect(increase(5, 8)).toBe(3);
+    expect(increase(5, 5)).toBe(0);
+  });
+
+  test('counts the whole value after a reset', () => {
+    expect(increase(8, 2)).toBe(2);
+  });
+
+  test('treats a drop within rounding as no change', () => {
+    expect(increase(1.0000005, 1)).toBe(0);
+  });
+
+  test('counts nothing for a small downward correction', () => {
+    expect(increase(10, 9.8)).toBe(0);
+    expect(increase(10, 5)).toBe(0);
+  });
+
+  test('counts a drop to near zero as a reset', () => {
+    expect(increase(0.5, 0.0000001)).toBe(0.0000001);
+  });
+
+  test('counts nothing for missing values', () => {
+    expect(increase(NaN, 3)).toBe(0);
+    expect(increase(3, Infinity)).toBe(0);
+  });
+});
+
+describe('counterIncrease', () => {
+  test('is the closing minus opening totals without a reset', () => {
+    const result = counterIncrease([reading(null, 1), reading('2026-01-02T00:00:00.000Z', 4), reading('2026-01-03T00:00:00.000Z', 6)]);
+    expect(result).toEqual({ cost: 5, tokens: 500, requests: 5, reset: null });
+  });
+
+  test('counts through a reset and reports the first reading after it', () => {
+    const result = counterIncrease([
+      reading(null, 10),
+      reading('2026-01-02T00:00:00.000Z', 12),
+      reading('2026-01-03T00:00:00.000Z', 1),
+      reading('2026-01-04T00:00:00.000Z', 3),
+    ]);
+
+    // 2 before the reset, 1 up to the first reading after it, 2 since
+    expect(result).toEqual({ cost: 5, tokens: 500, requests: 5, reset: { at: '2026-01-03T00:00:00.000Z' } });
+  });
+
+  test('reports only the first of several resets', () => {
+    const result = counterIncrease([
+      reading(null, 5),
+      reading('2026-01-02T00:00:00.000Z', 1),
+      reading('2026-01-03T00:00:00.000Z', 0.25),
+    ]);
+
+    expect(result.cost).toBe(1.25);
+    expect(result.reset).toEqual({ at: '2026-01-02T00:00:00.000Z' });
+  });
+
+  test('notices a reset in tokens or requests when cost is unchanged', () => {
+    const result = counterIncrease([reading(null, 2, 500, 10), reading('2026-01-02T00:00:00.000Z', 2, 100, 10)]);
+    expect(result).toEqual({ cost: 0, tokens: 100, requests: 0, reset: { at: '2026-01-02T00:00:00.000Z' } });
+  });
+
+  test('counts a deleted key up to its last sample', () => {
+    // A key missing from the end data has its last sample as the closing reading
+    const result = counterIncrease([reading(null, 3), reading('2026-01-02T00:00:00.000Z', 5), reading('2026-01-03T00:00:00.000Z', 7)]);
+    expect(result).toEqual({ cost: 4, tokens: 400, requests: 4, reset: null });
+  });
+
+  test('counts a key reset and then deleted through both', () => {
+    const result = counterIncrease([reading(null, 10), reading('2026-01-02T00:00:00.000Z', 11), reading('2026-01-03T00:00:00.000Z', 2)]);
+    expect(result).toEqual({ cost: 3, tokens: 300, requests: 3, reset: { at: '2026-01-03T00:00:00.000Z' } });
+  });
+
+  test('counts usage after a small downward correction without reporting a reset', () => {
+    const result = counterIncrease([reading(null, 10), reading('2026-01-02T00:00:00.000Z', 9.75), reading('2026-01-03T00:00:00.000Z', 12)]);
+    expect(result).toEqual({ cost: 2.25, tokens: 225, requests: 2.25, reset: null });
+  });
+
+  test('is zero for a single reading', () => {
+    expect(counterIncrease([reading(null, 3)])).toEqual({ cost: 0, tokens: 0, requests: 0, reset: null });
+  });
+});
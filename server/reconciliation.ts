@@ -0,0 +1,65 @@
+import type { UsageSample } from './database';
+
+// Cost is summed in floating point on the relay; smaller drops are rounding, not resets
+const EPSILON = 0.000001;
+// A reset starts a counter again from zero; a counter keeping more than this of its value was corrected, e.g. repriced
+const RESET_RATIO = 0.5;
+
+export interface ReconciliationEntry {
+  name: string;
+  kind: 'deleted' | 'excluded' | 'reset';
+  // What the period is charged for the key after reconciling
+  cost: number;
+  // Relay deletion time, the last sample before a key was excluded, or the first reading after the counters went down; null when unknown
+  at: string | null;
+  // `samples` when usage samples bracket the change; `boundaries` when only the period's ends could be compared, so some usage may be missing
+  basis: 'samples' | 'boundaries';
+}
+
+export interface CounterReading {
+  // Null for the period's opening reading
+  at: string | null;
+  cost: number;
+  tokens: number;
+  requests: number;
+}
+
+export function readingFromSample(sample: UsageSample): CounterReading {
+  return { at: sample.sampled_at, cost: sample.cost, tokens: sample.tokens, requests: sample.requests };
+}
+
+function isReset(previous: number, value: number): boolean {
+  return value < previous - EPSILON && (value <= EPSILON || value < previous * RESET_RATIO);
+}
+
+// After a reset the counter's value is all new usage; a smaller drop is a correction and adds nothing
+export function increase(previous: number, value: number): number {
+  if (!Number.isFinite(previous) || !Number.isFinite(value)) return 0;
+  return isReset(previous, value) ? value : Math.max(0, value - previous);
+}
+
+/**
+ * Usage across consecutive cumulative readings of one key, counting through
+ * counter resets. Usage between the last reading before a reset and the reset
+ * itself is lost, so closer readings give a better count.
+ */
+export function counterIncrease(readings: CounterReading[]) {
+  let cost = 0;
+  let tokens = 0;
+  let requests = 0;
+  let reset: { at: string | null } | null = null;
+
+  for (let i = 1; i < readings.length; i++) {
+    const previous = readings[i - 1]!;
+    const reading = readings[i]!;
+
+    if (!reset && (isReset(previous.cost, reading.cost) || isReset(previous.tokens, reading.tokens) || isReset(previous.requests, reading.requests))) {
+      reset = { at: reading.at };
+    }
+    cost += increase(previous.cost, reading.cost);
+    tokens += increase(previous.tokens, reading.tokens);
+    requests += increase(previous.requests, reading.requests);
+  }
+
+  return { cost, tokens, requests, reset };
+}
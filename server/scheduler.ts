@@ -0,0 +1,120 @@
+import { getZonedParts, nextRun, parseScheduleList, type Schedule } from './cron';
+import { db } from './database';
+import { snapshotService } from './snapshot-service';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SchedulerOptions {
+  // How long after a scheduled slot a missed snapshot may still be taken
+  maxLatenessMs: number;
+  tickMs: number;
+}
+
+export class SnapshotScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly schedules: Schedule[],
+    private readonly options: SchedulerOptions
+  ) {}
+
+  start() {
+    if (this.timer || this.schedules.length === 0) return;
+
+    for (const schedule of this.schedules) {
+      console.log(`Snapshot schedule "${schedule.name}": ${schedule.expression} (${schedule.timezone})`);
+    }
+
+    this.timer = setInterval(() => this.tick(), this.options.tickMs);
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Earliest upcoming slot across all schedules
+  getNextRun(from: Date = new Date()): { schedule: string; at: Date } | null {
+    let next: { schedule: string; at: Date } | null = null;
+
+    for (const schedule of this.schedules) {
+      const at = nextRun(schedule, from);
+      if (at && (!next || at < next.at)) {
+        next = { schedule: schedule.name, at };
+      }
+    }
+
+    return next;
+  }
+
+  // Latest slot of `schedule` inside the lateness window ending at `now`
+  private findDueSlot(schedule: Schedule, now: Date): Date | null {
+    const nowMinute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    const windowStart = nowMinute - this.options.maxLatenessMs;
+
+    for (let t = nowMinute; t >= windowStart; t -= MINUTE_MS) {
+      const slot = new Date(t);
+      if (schedule.matches(getZonedParts(slot, schedule.timezone))) {
+        return slot;
+      }
+    }
+
+    return null;
+  }
+
+  private async tick() {
+    // A slow relay must not let ticks overlap and take the same slot twice
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = new Date();
+
+      for (const schedule of this.schedules) {
+        const slot = this.findDueSlot(schedule, now);
+        if (!slot) continue;
+
+        const scheduledFor = slot.toISOString();
+        if (db.hasSnapshotForSlot(scheduledFor)) continue;
+
+        try {
+          const snapshot = await snapshotService.createSnapshot({
+            timezone: schedule.timezone,
+            schedule: schedule.name,
+            scheduledFor,
+          });
+          console.log(`Scheduled snapshot #${snapshot.id} taken by "${schedule.name}" for ${scheduledFor} (${snapshot.userCount} users)`);
+        } catch (error) {
+          // Retried on the next tick while the slot is still inside the lateness window
+          console.error(`Scheduled snapshot "${schedule.name}" for ${scheduledFor} failed:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function createSchedulerFromEnv(): SnapshotScheduler {
+  const schedules = parseScheduleList(
+    process.env.SNAPSHOT_SCHEDULES || '',
+    process.env.SNAPSHOT_TIMEZONE || 'Asia/Shanghai'
+  );
+  // A NaN window would match no slot and silently stop every scheduled snapshot
+  const lateness = (process.env.SNAPSHOT_MAX_LATENESS_MINUTES || '360').trim();
+  if (!/^\d+$/.test(lateness)) {
+    throw new Error(`Invalid SNAPSHOT_MAX_LATENESS_MINUTES "${lateness}", expected a whole number of minutes`);
+  }
+  const maxLatenessMinutes = parseInt(lateness);
+
+  return new SnapshotScheduler(schedules, {
+    maxLatenessMs: maxLatenessMinutes * MINUTE_MS,
+    tickMs: MINUTE_MS,
+  });
+}
+
+export const snapshotScheduler = createSchedulerFromEnv();
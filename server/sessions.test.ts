@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { apiClient } from './api-client';
+import { createSessionManagerFromEnv, isAdminKey, SESSION_COOKIE, SessionManager } from './sessions';
+
+const HOUR_MS = 60 * 60 * 1000;
+const sessions = new SessionManager('test-secret', HOUR_MS);
+
+const requestWith = (token: string) => new Request('http://dashboard.test/api/auth/session', {
+  headers: { cookie: `theme=dark; ${SESSION_COOKIE}=${token}` },
+});
+
+describe('SessionManager', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('resolves its own token, also from the cookie', () => {
+    const { token, session } = sessions.create('key-1', false, 'curl/8');
+
+    expect(sessions.verify(token)).toEqual(session);
+    expect(sessions.fromRequest(requestWith(token))).toMatchObject({ id: session.id, keyId: 'key-1', userAgent: 'curl/8' });
+    expect(sessions.fromRequest(new Request('http://dashboard.test/'))).toBeNull();
+  });
+
+  test('rejects tampered tokens and tokens signed with another secret', () => {
+    const { token } = sessions.create('key-1', false, null);
+    const [id, expires, signature] = token.split('.');
+
+    expect(sessions.verify(`${id}.${Number(expires) + HOUR_MS}.${signature}`)).toBeNull();
+    expect(sessions.verify(`${id}.${expires}.${signature!.slice(1)}x`)).toBeNull();
+    expect(sessions.verify(`${id}.${expires}`)).toBeNull();
+    expect(new SessionManager('other-secret', HOUR_MS).verify(token)).toBeNull();
+  });
+
+  test('expires sessions after their lifetime', () => {
+    const { token } = sessions.create('key-1', false, null);
+
+    setSystemTime(new Date(Date.now() + HOUR_MS - 1000));
+    expect(sessions.verify(token)).not.toBeNull();
+    setSystemTime(new Date(Date.now() + 2000));
+    expect(sessions.verify(token)).toBeNull();
+  });
+
+  test('revokes one session or all of a key\'s', () => {
+    const first = sessions.create('key-2', false, null);
+    const second = sessions.create('key-2', false, null);
+    const other = sessions.create('key-3', false, null);
+
+    expect(sessions.revoke(first.session.id)).toBe(true);
+    expect(sessions.verify(first.token)).toBeNull();
+    expect(sessions.verify(second.token)).not.toBeNull();
+
+    expect(sessions.revokeForKey('key-2')).toBe(1);
+    expect(sessions.verify(second.token)).toBeNull();
+    expect(sessions.verify(other.token)).not.toBeNull();
+  });
+
+  test('sets an HttpOnly cookie lasting as long as the session, Secure behind HTTPS', () => {
+    const plain = sessions.cookie(new Request('http://dashboard.test/'), 'token');
+    const proxied = sessions.cookie(new Request('http://dashboard.test/', { headers: { 'x-forwarded-proto': 'https' } }), 'token');
+
+    expect(plain).toBe(`${SESSION_COOKIE}=token; Path=/; HttpOnly; SameSite=Strict; Max-Age=3600`);
+    expect(proxied).toEndWith('; Secure');
+  });
+});
+
+describe('createSessionManagerFromEnv', () => {
+  afterEach(() => {
+    delete process.env.SESSION_TTL_HOURS;
+    delete process.env.SESSION_SECRET;
+  });
+
+  test('refuses a lifetime that is not a whole number of hours', () => {
+    process.env.SESSION_SECRET = 'test-secret';
+    process.env.SESSION_TTL_HOURS = 'a week';
+    expect(() => createSessionManagerFromEnv()).toThrow('Invalid SESSION_TTL_HOURS "a week"');
+    process.env.SESSION_TTL_HOURS = '0';
+    expect(() => createSessionManagerFromEnv()).toThrow('expected a whole number of at least 1');
+
+    process.env.SESSION_TTL_HOURS = '2';
+    expect(createSessionManagerFromEnv().cookie(new Request('http://dashboard.test/'), 'token')).toContain('Max-Age=7200');
+  });
+});
+
+describe('isAdminKey', () => {
+  test('asks the relay on every call, so a session created as admin loses access with the tag', async () => {
+    const keyInfo = spyOn(apiClient, 'getKeyInfo').mockResolvedValue({ id: 'key-admin', name: 'Admin', tags: ['dashboard-admin'] });
+    const { token } = sessions.create('key-admin', await isAdminKey('key-admin'), null);
+    expect(sessions.verify(token)!.isAdmin).toBe(true);
+
+    keyInfo.mockResolvedValue({ id: 'key-admin', name: 'Admin', tags: [] });
+    expect(await isAdminKey('key-admin')).toBe(false);
+    expect(keyInfo).toHaveBeenCalledTimes(2);
+    keyInfo.mockRestore();
+  });
+
+  test('denies access when the relay cannot be asked', async () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    const keyInfo = spyOn(apiClient, 'getKeyInfo').mockRejectedValue(new Error('relay down'));
+
+    expect(await isAdminKey('key-admin')).toBe(false);
+    keyInfo.mockRestore();
+    error.mockRestore();
+  });
+});
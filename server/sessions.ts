@@ -0,0 +1,158 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { apiClient } from './api-client';
+import { db, type SessionRecord } from './database';
+import { readIntEnv } from './env';
+
+export const SESSION_COOKIE = 'ai_usage_session';
+
+export interface Session {
+  id: string;
+  keyId: string;
+  // Admin role at login, as listed to admins; admin requests check the current role instead
+  isAdmin: boolean;
+  userAgent: string | null;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toSession(record: SessionRecord): Session {
+  return {
+    id: record.id,
+    keyId: record.key_id,
+    isAdmin: record.is_admin === 1,
+    userAgent: record.user_agent,
+    createdAt: record.created_at,
+    expiresAt: record.expires_at,
+  };
+}
+
+const adminKeyIds = new Set(
+  (process.env.DASHBOARD_ADMIN_KEY_IDS || '').split(',').map(id => id.trim()).filter(Boolean)
+);
+const adminTag = process.env.DASHBOARD_ADMIN_TAG || 'dashboard-admin';
+
+/**
+ * Admins are either listed by key ID or tagged in the relay. Asked on every
+ * admin request rather than read from the session, so removing an admin takes
+ * effect at once.
+ */
+export async function isAdminKey(keyId: string): Promise<boolean> {
+  if (adminKeyIds.has(keyId)) {
+    return true;
+  }
+
+  try {
+    const keyInfo = await apiClient.getKeyInfo(keyId);
+    return keyInfo?.tags.includes(adminTag) ?? false;
+  } catch (error) {
+    console.error('Error resolving key tags:', error);
+    return false;
+  }
+}
+
+// Requests reach us over HTTPS either directly or through a TLS-terminating proxy
+function isSecure(req: Request): boolean {
+  return new URL(req.url).protocol === 'https:' || req.headers.get('x-forwarded-proto') === 'https';
+}
+
+/**
+ * Issues and checks dashboard sessions. The token in the HttpOnly cookie is
+ * `<session id>.<expiry>.<HMAC>`; the signature rejects forged or tampered
+ * tokens without a lookup, and the stored row makes sessions revocable. The
+ * relay is only asked to resolve the API key at login.
+ */
+export class SessionManager {
+  constructor(private readonly secret: string, private readonly ttlMs: number) {}
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+
+  create(keyId: string, isAdmin: boolean, userAgent: string | null): { token: string; session: Session } {
+    const now = Date.now();
+    const record: Omit<SessionRecord, 'revoked_at'> = {
+      id: randomBytes(16).toString('hex'),
+      key_id: keyId,
+      is_admin: isAdmin ? 1 : 0,
+      user_agent: userAgent,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + this.ttlMs).toISOString(),
+    };
+
+    db.deleteExpiredSessions(record.created_at);
+    db.insertSession(record);
+
+    const payload = `${record.id}.${now + this.ttlMs}`;
+    return { token: `${payload}.${this.sign(payload)}`, session: toSession({ ...record, revoked_at: null }) };
+  }
+
+  verify(token: string): Session | null {
+    const [id, expires, signature] = token.split('.');
+    if (!id || !expires || !signature) return null;
+
+    const expected = Buffer.from(this.sign(`${id}.${expires}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    if (parseInt(expires) <= Date.now()) return null;
+
+    const record = db.getSession(id);
+    if (!record || record.revoked_at || Date.parse(record.expires_at) <= Date.now()) return null;
+
+    return toSession(record);
+  }
+
+  fromRequest(req: Request): Session | null {
+    const token = readCookie(req, SESSION_COOKIE);
+    return token ? this.verify(token) : null;
+  }
+
+  list(): Session[] {
+    return db.getActiveSessions(new Date().toISOString()).map(toSession);
+  }
+
+  revoke(id: string): boolean {
+    return db.revokeSession(id, new Date().toISOString());
+  }
+
+  revokeForKey(keyId: string): number {
+    return db.revokeSessionsForKey(keyId, new Date().toISOString());
+  }
+
+  cookie(req: Request, token: string): string {
+    const maxAge = Math.floor(this.ttlMs / 1000);
+    return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${isSecure(req) ? '; Secure' : ''}`;
+  }
+
+  clearCookie(req: Request): string {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0${isSecure(req) ? '; Secure' : ''}`;
+  }
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.get('cookie') || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  console.warn('SESSION_SECRET is not set; using a random secret, so everyone is logged out when the server restarts');
+  return randomBytes(32).toString('hex');
+}
+
+export function createSessionManagerFromEnv(): SessionManager {
+  // A NaN lifetime would make every login fail on an invalid expiry date
+  const ttlHours = readIntEnv('SESSION_TTL_HOURS', 168, 1);
+  return new SessionManager(sessionSecret(), ttlHours * HOUR_MS);
+}
+
+export const sessionManager = createSessionManagerFromEnv();
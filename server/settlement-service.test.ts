@@ -0,0 +1,92 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import { billingCalculator } from './billing-calculator';
+import { db } from './database';
+import { allocateFee, allocatePools, SettlementService } from './settlement-service';
+
+const sum = (amounts: number[]) => Math.round(amounts.reduce((total, amount) => total + amount * 100, 0));
+
+describe('allocateFee', () => {
+  test('splits by share in whole cents', () => {
+    expect(allocateFee(100, [0.5, 0.3, 0.2])).toEqual([50, 30, 20]);
+  });
+
+  test('hands leftover cents to the largest remainders', () => {
+    // 1/3 of 10000 cents is 3333.33 each, so one cent is left over
+    expect(allocateFee(100, [1 / 3, 1 / 3, 1 / 3])).toEqual([33.34, 33.33, 33.33]);
+    // 2000 cents: 1333.33 and 666.67; the second has the larger remainder
+    expect(allocateFee(20, [2 / 3, 1 / 3])).toEqual([13.33, 6.67]);
+  });
+
+  test('always adds up to the fee exactly', () => {
+    const shares = [0.137, 0.291, 0.0005, 0.4215, 0.15];
+    expect(sum(allocateFee(199.99, shares))).toBe(19999);
+    expect(sum(allocateFee(0.05, [0.25, 0.25, 0.25, 0.25]))).toBe(5);
+  });
+
+  test('gives nothing to a zero share', () => {
+    expect(allocateFee(10, [1, 0])).toEqual([10, 0]);
+  });
+});
+
+describe('allocatePools', () => {
+  const pools = new Map([['claude', 200], ['openai', 20]] as const);
+
+  test('splits each pool by share of its platform', () => {
+    const amounts = allocatePools(pools, [
+      { share: 0.6, platforms: [{ platform: 'claude', cost: 30, share: 0.75 }] },
+      { share: 0.4, platforms: [{ platform: 'claude', cost: 10, share: 0.25 }, { platform: 'openai', cost: 10, share: 1 }] },
+    ]);
+
+    expect(amounts).toEqual([{ claude: 150 }, { claude: 50, openai: 20 }]);
+  });
+
+  test('splits a pool nobody used by overall share', () => {
+    const amounts = allocatePools(pools, [
+      { share: 0.75, platforms: [{ platform: 'claude', cost: 30, share: 0.75 }] },
+      { share: 0.25, platforms: [{ platform: 'claude', cost: 10, share: 0.25 }] },
+    ]);
+
+    expect(amounts).toEqual([{ claude: 150, openai: 15 }, { claude: 50, openai: 5 }]);
+  });
+
+  test('keeps every pool adding up to its fee', () => {
+    const amounts = allocatePools(new Map([['claude', 100]] as const), [
+      { share: 1 / 3, platforms: [{ platform: 'claude', cost: 1, share: 1 / 3 }] },
+      { share: 1 / 3, platforms: [{ platform: 'claude', cost: 1, share: 1 / 3 }] },
+      { share: 1 / 3, platforms: [{ platform: 'claude', cost: 1, share: 1 / 3 }] },
+    ]);
+
+    expect(sum(amounts.map(pool => pool.claude ?? 0))).toBe(10000);
+  });
+});
+
+describe('getOutstandingBalance', () => {
+  const settle = (endSnapshotId: number, currency: string, amount: number) => {
+    const settlementId = db.insertSettlement({ startSnapshotId: null, endSnapshotId, fee: 100, currency, totalCost: 10 }, [
+      { keyId: 'balance', name: 'Key balance', cost: 1, share: amount / 100, amount },
+    ]);
+    return db.getSettlementEntries(settlementId)[0]!.id;
+  };
+
+  test('totals unpaid entries per currency', async () => {
+    process.env.SETTLEMENT_FEE = '100';
+    process.env.SETTLEMENT_CURRENCY = 'EUR';
+    const service = new SettlementService();
+    delete process.env.SETTLEMENT_FEE;
+    delete process.env.SETTLEMENT_CURRENCY;
+    // Settlements made under an earlier SETTLEMENT_CURRENCY, for periods outside this test
+    const periods = spyOn(billingCalculator, 'getPeriods').mockResolvedValue([]);
+
+    settle(900001, 'USD', 10);
+    settle(900002, 'USD', 2.5);
+    const paid = settle(900003, 'CNY', 70);
+    settle(900004, 'EUR', 9);
+    service.markEntry(paid, 'paid', 'admin', null);
+
+    const balance = (await service.getOutstandingBalance('balance'))!;
+    expect(balance.currency).toBe('EUR');
+    expect(balance.outstanding).toEqual([{ currency: 'USD', amount: 12.5 }, { currency: 'EUR', amount: 9 }]);
+    expect(balance.periods.map(p => [p.currency, p.status])).toEqual([['USD', 'unpaid'], ['USD', 'unpaid'], ['CNY', 'paid'], ['EUR', 'unpaid']]);
+    periods.mockRestore();
+  });
+});
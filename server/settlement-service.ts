@@ -0,0 +1,303 @@
+import { db, type SettlementRecord } from './database';
+import { billingCalculator, type PeriodInfo } from './billing-calculator';
+import { parsePlatform, type Platform, type PlatformCost } from './platforms';
+import { identityService } from './identity-service';
+
+export interface SettlementEntry {
+  id: number;
+  name: string;
+  cost: number;
+  share: number;
+  amount: number;
+  status: 'paid' | 'unpaid';
+  paidAt: string | null;
+  markedBy: string | null;
+  isMe: boolean;
+  poolAmounts: Record<string, number> | null;
+}
+
+export interface PeriodSettlement {
+  id: number;
+  periodIndex: number;
+  startSnapshotId: number | null;
+  endSnapshotId: number;
+  fee: number;
+  currency: string;
+  totalCost: number;
+  createdAt: string;
+  // Per-platform fees when the settlement was split into pools
+  pools: Array<{ platform: string; fee: number }> | null;
+  entries: SettlementEntry[];
+  totals: {
+    paid: number;
+    unpaid: number;
+  };
+}
+
+export interface OutstandingBalance {
+  // Currency of new settlements
+  currency: string;
+  // Unpaid totals per currency, since each settlement keeps the currency it was made in; empty when all is paid
+  outstanding: Array<{ currency: string; amount: number }>;
+  periods: Array<{
+    periodIndex: number | null;
+    // Slug or ID to link to the period; null once its end snapshot is gone
+    periodRef: string | null;
+    endSnapshotId: number;
+    entryId: number;
+    amount: number;
+    currency: string;
+    status: 'paid' | 'unpaid';
+    paidAt: string | null;
+  }>;
+}
+
+/**
+ * Splits `fee` by share in whole cents, handing leftover cents to the largest
+ * remainders so the amounts always add up to the fee exactly.
+ */
+export function allocateFee(fee: number, shares: number[]): number[] {
+  const totalCents = Math.round(fee * 100);
+  const exact = shares.map(share => share * totalCents);
+  const cents = exact.map(value => Math.floor(value));
+
+  let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    cents[index]! += 1;
+    leftover -= 1;
+  }
+
+  return cents.map(value => value / 100);
+}
+
+/**
+ * Splits each platform's fee by the users' shares of that platform's cost; a
+ * pool nobody used in the period is split by overall share. Returns what each
+ * user owes per platform, leaving out zero amounts.
+ */
+export function allocatePools(
+  pools: Map<Platform, number>,
+  users: Array<{ share: number; platforms?: PlatformCost[] }>
+): Array<Record<string, number>> {
+  const amounts: Array<Record<string, number>> = users.map(() => ({}));
+
+  for (const [platform, poolFee] of pools) {
+    const shares = users.map(u => u.platforms?.find(p => p.platform === platform)?.share ?? 0);
+    const used = shares.some(share => share > 0);
+    allocateFee(poolFee, used ? shares : users.map(u => u.share)).forEach((amount, i) => {
+      if (amount > 0) amounts[i]![platform] = amount;
+    });
+  }
+
+  return amounts;
+}
+
+// `claude=200,openai=20` -> fee per platform
+function parseFeePools(value: string): Map<Platform, number> {
+  const pools = new Map<Platform, number>();
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [name, amount] = part.split('=').map(p => p.trim());
+    const platform = parsePlatform(name ?? '');
+    const fee = parseFloat(amount ?? '');
+    if (!platform || !Number.isFinite(fee) || fee <= 0) {
+      throw new Error(`Invalid SETTLEMENT_FEES entry "${part}"; expected <platform>=<fee>`);
+    }
+    pools.set(platform, fee);
+  }
+
+  return pools;
+}
+
+export class SettlementService {
+  private readonly fee: number | null;
+  private readonly pools: Map<Platform, number> | null;
+  private readonly currency: string;
+  private pending = new Map<number, Promise<SettlementRecord | null>>();
+
+  constructor() {
+    const pools = parseFeePools(process.env.SETTLEMENT_FEES || '');
+    const fee = parseFloat(process.env.SETTLEMENT_FEE || '');
+
+    // Separate pools take over from the single fee; the settlement's fee is then their sum
+    this.pools = pools.size > 0 ? pools : null;
+    this.fee = this.pools
+      ? +Array.from(this.pools.values()).reduce((sum, poolFee) => sum + poolFee, 0).toFixed(2)
+      : Number.isFinite(fee) && fee > 0 ? fee : null;
+    this.currency = process.env.SETTLEMENT_CURRENCY || 'USD';
+  }
+
+  isEnabled(): boolean {
+    return this.fee !== null;
+  }
+
+  // Settlements are created once per closed period and never recomputed
+  async ensureSettlement(period: PeriodInfo): Promise<SettlementRecord | null> {
+    if (this.fee === null || period.isCurrent || period.endSnapshotId === null) {
+      return null;
+    }
+
+    const existing = db.getSettlementByEndSnapshot(period.endSnapshotId);
+    if (existing) {
+      return existing;
+    }
+
+    const endSnapshotId = period.endSnapshotId;
+    let pending = this.pending.get(endSnapshotId);
+    if (!pending) {
+      pending = this.createSettlement(period, this.fee).finally(() => this.pending.delete(endSnapshotId));
+      this.pending.set(endSnapshotId, pending);
+    }
+
+    return pending;
+  }
+
+  private async createSettlement(period: PeriodInfo, fee: number): Promise<SettlementRecord | null> {
+    const summary = await billingCalculator.getPeriodSummary(period.index);
+    const billable = summary.ranking.filter(u => u.cost > 0 && u.rawEnd?.id);
+    let amounts = allocateFee(fee, billable.map(u => u.share));
+    let poolAmounts: Array<Record<string, number>> | null = null;
+
+    if (this.pools) {
+      poolAmounts = allocatePools(this.pools, billable);
+      amounts = poolAmounts.map(pool => +Object.values(pool).reduce((sum, amount) => sum + amount, 0).toFixed(2));
+    }
+
+    db.insertSettlement(
+      {
+        startSnapshotId: period.startSnapshotId,
+        endSnapshotId: period.endSnapshotId!,
+        fee,
+        currency: this.currency,
+        totalCost: summary.totals.totalCost,
+      },
+      billable.map((u, i) => ({
+        keyId: u.rawEnd!.id,
+        name: u.name,
+        cost: u.cost,
+        share: u.share,
+        amount: amounts[i] ?? 0,
+        ...(poolAmounts && { poolAmounts: poolAmounts[i] }),
+      }))
+    );
+
+    return db.getSettlementByEndSnapshot(period.endSnapshotId!);
+  }
+
+  async settlePeriodEndingAt(endSnapshotId: number): Promise<SettlementRecord | null> {
+    const periods = await billingCalculator.getPeriods();
+    const period = periods.find(p => p.endSnapshotId === endSnapshotId);
+    return period ? this.ensureSettlement(period) : null;
+  }
+
+  async getPeriodSettlement(periodIndex: number, meId?: string): Promise<PeriodSettlement | null> {
+    const periods = await billingCalculator.getPeriods();
+    const period = periods.find(p => p.index === periodIndex);
+
+    if (!period) {
+      throw new Error(`Period ${periodIndex} not found`);
+    }
+
+    const settlement = await this.ensureSettlement(period);
+    if (!settlement) {
+      return null;
+    }
+
+    const payer = meId ? identityService.payerOf(meId) : null;
+    const entries = db.getSettlementEntries(settlement.id).map(entry => ({
+      id: entry.id,
+      name: entry.name,
+      cost: entry.cost,
+      share: entry.share,
+      amount: entry.amount,
+      status: entry.status,
+      paidAt: entry.paid_at,
+      markedBy: entry.marked_by_name ?? entry.marked_by,
+      isMe: payer ? payer.owns(entry.key_id, period.startAt, period.endAt) : false,
+      poolAmounts: entry.pool_amounts ? JSON.parse(entry.pool_amounts) as Record<string, number> : null,
+    }));
+
+    const pools = new Map<string, number>();
+    for (const entry of entries) {
+      for (const [platform, amount] of Object.entries(entry.poolAmounts ?? {})) {
+        pools.set(platform, (pools.get(platform) ?? 0) + amount);
+      }
+    }
+
+    const sumBy = (status: 'paid' | 'unpaid') =>
+      +entries.filter(e => e.status === status).reduce((sum, e) => sum + e.amount, 0).toFixed(2);
+
+    return {
+      id: settlement.id,
+      periodIndex: period.index,
+      startSnapshotId: settlement.start_snapshot_id,
+      endSnapshotId: settlement.end_snapshot_id,
+      fee: settlement.fee,
+      currency: settlement.currency,
+      totalCost: settlement.total_cost,
+      createdAt: settlement.created_at,
+      pools: pools.size > 0
+        ? Array.from(pools, ([platform, poolFee]) => ({ platform, fee: +poolFee.toFixed(2) }))
+        : null,
+      entries,
+      totals: {
+        paid: sumBy('paid'),
+        unpaid: sumBy('unpaid'),
+      },
+    };
+  }
+
+  async getOutstandingBalance(keyId: string): Promise<OutstandingBalance | null> {
+    if (this.fee === null) {
+      return null;
+    }
+
+    const periods = await billingCalculator.getPeriods();
+    for (const period of periods) {
+      await this.ensureSettlement(period);
+    }
+
+    // Balances follow the person, whichever of their keys each period was settled under
+    const payer = identityService.payerOf(keyId);
+    const entries = payer.keyIds
+      .flatMap(id => db.getSettlementEntriesForKey(id))
+      .filter((entry) => {
+        const period = periods.find(p => p.endSnapshotId === entry.end_snapshot_id);
+        return period ? payer.owns(entry.key_id, period.startAt, period.endAt) : entry.key_id === keyId;
+      })
+      .sort((a, b) => a.end_snapshot_id - b.end_snapshot_id);
+    const outstanding = new Map<string, number>();
+    for (const entry of entries.filter(e => e.status === 'unpaid')) {
+      outstanding.set(entry.currency, (outstanding.get(entry.currency) ?? 0) + entry.amount);
+    }
+
+    return {
+      currency: this.currency,
+      outstanding: Array.from(outstanding, ([currency, amount]) => ({ currency, amount: +amount.toFixed(2) })),
+      periods: entries.map(e => {
+        const period = periods.find(p => p.endSnapshotId === e.end_snapshot_id);
+        return {
+          periodIndex: period?.index ?? null,
+          periodRef: period ? period.slug ?? period.id : null,
+          endSnapshotId: e.end_snapshot_id,
+          entryId: e.id,
+          amount: e.amount,
+          currency: e.currency,
+          status: e.status,
+          paidAt: e.paid_at,
+        };
+      }),
+    };
+  }
+
+  markEntry(entryId: number, status: 'paid' | 'unpaid', markedBy: string, markedByName: string | null): boolean {
+    return db.updateSettlementEntryStatus(entryId, status, markedBy, markedByName);
+  }
+}
+
+export const settlementService = new SettlementService();
@@ -0,0 +1,217 @@
+import { createHash } from 'node:crypto';
+import type { ModelUsage } from './api-client';
+import { db, type NewSnapshotEntry } from './database';
+
+export const ARCHIVE_FORMAT = 'ai-usage-snapshots';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchivedEntry {
+  keyId: string;
+  name: string;
+  tags: string[];
+  cost: number;
+  tokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreateTokens: number;
+  cacheReadTokens: number;
+  requests: number;
+  // Absent when per-model usage was not recorded
+  models?: Record<string, ModelUsage>;
+}
+
+export interface ArchivedSnapshot {
+  createdAt: string;
+  timezone: string;
+  schedule: string | null;
+  scheduledFor: string | null;
+  note: string | null;
+  // Corrections; absent in archives exported before they existed
+  effectiveAt?: string;
+  voidedAt?: string | null;
+  voidedBy?: string | null;
+  hash: string;
+  entries: ArchivedEntry[];
+}
+
+export interface SnapshotArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  snapshots: ArchivedSnapshot[];
+}
+
+export interface ImportResult {
+  imported: number;
+  duplicates: number;
+  // Snapshots whose timestamp or schedule slot is already taken by different data
+  conflicts: Array<{ createdAt: string; reason: string }>;
+}
+
+/**
+ * Content hash of a snapshot: its timestamp and entries in key order, so the
+ * same snapshot hashes the same in every database it is copied to.
+ */
+export function snapshotHash(createdAt: string, entries: ArchivedEntry[]): string {
+  const sorted = [...entries].sort((a, b) => a.keyId.localeCompare(b.keyId));
+  // Models are only hashed when present, so snapshots archived before they were recorded keep their hash
+  const rows = sorted.map(e => [
+    e.keyId, e.name, e.tags, e.cost, e.tokens, e.inputTokens, e.outputTokens,
+    e.cacheCreateTokens, e.cacheReadTokens, e.requests,
+    ...(e.models ? [Object.entries(e.models).sort(([a], [b]) => a.localeCompare(b))] : []),
+  ]);
+  return createHash('sha256').update(JSON.stringify([createdAt, rows])).digest('hex');
+}
+
+function archivedEntries(snapshotId: number): ArchivedEntry[] {
+  const models = new Map<string, Record<string, ModelUsage>>();
+  for (const row of db.getSnapshotModels(snapshotId)) {
+    models.set(row.key_id, {
+      ...models.get(row.key_id),
+      [row.model]: {
+        cost: row.cost,
+        tokens: row.tokens,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        cacheCreateTokens: row.cache_create_tokens,
+        cacheReadTokens: row.cache_read_tokens,
+        requests: row.requests,
+      },
+    });
+  }
+
+  return db.getSnapshotEntries(snapshotId).map(entry => ({
+    keyId: entry.key_id,
+    name: entry.name,
+    tags: JSON.parse(entry.tags),
+    cost: entry.cost,
+    tokens: entry.tokens,
+    inputTokens: entry.input_tokens,
+    outputTokens: entry.output_tokens,
+    cacheCreateTokens: entry.cache_create_tokens,
+    cacheReadTokens: entry.cache_read_tokens,
+    requests: entry.requests,
+    ...(entry.has_models && { models: models.get(entry.key_id) ?? {} }),
+  }));
+}
+
+export function exportSnapshots(): SnapshotArchive {
+  const snapshots = db.getSnapshots().map((snapshot) => {
+    const entries = archivedEntries(snapshot.id);
+    return {
+      createdAt: snapshot.created_at,
+      timezone: snapshot.timezone,
+      schedule: snapshot.schedule,
+      scheduledFor: snapshot.scheduled_for,
+      note: snapshot.note,
+      effectiveAt: snapshot.effective_at,
+      voidedAt: snapshot.voided_at,
+      voidedBy: snapshot.voided_by,
+      hash: snapshotHash(snapshot.created_at, entries),
+      entries,
+    };
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    snapshots,
+  };
+}
+
+// End snapshot of the period that a new boundary at `at` splits
+function periodsSplitAt(at: string): number[] {
+  const next = db.getBoundarySnapshots().find(s => Date.parse(s.effective_at) > Date.parse(at));
+  return next ? [next.id] : [];
+}
+
+/**
+ * Adds the archive's snapshots to the database. A snapshot already present with
+ * the same timestamp and content is skipped; one whose timestamp or schedule
+ * slot is taken by different data is reported as a conflict and skipped too,
+ * as is one that would split a period someone already paid for.
+ */
+export function importSnapshots(archive: SnapshotArchive): ImportResult {
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.snapshots)) {
+    throw new Error('Not a snapshot archive');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${archive.version} is newer than this build supports (${ARCHIVE_VERSION})`);
+  }
+
+  for (const snapshot of archive.snapshots) {
+    if (snapshot.hash !== snapshotHash(snapshot.createdAt, snapshot.entries)) {
+      throw new Error(`Snapshot taken at ${snapshot.createdAt} does not match its hash; the archive is corrupt`);
+    }
+  }
+
+  const existing = new Map(db.getSnapshots().map(s => [s.created_at, s]));
+  const result: ImportResult = { imported: 0, duplicates: 0, conflicts: [] };
+
+  for (const snapshot of archive.snapshots) {
+    const sameTime = existing.get(snapshot.createdAt);
+    if (sameTime) {
+      if (snapshotHash(sameTime.created_at, archivedEntries(sameTime.id)) === snapshot.hash) {
+        result.duplicates++;
+      } else {
+        result.conflicts.push({ createdAt: snapshot.createdAt, reason: 'a different snapshot exists at this time' });
+      }
+      continue;
+    }
+
+    if (snapshot.scheduledFor && db.hasSnapshotForSlot(snapshot.scheduledFor)) {
+      result.conflicts.push({ createdAt: snapshot.createdAt, reason: `schedule slot ${snapshot.scheduledFor} is already taken` });
+      continue;
+    }
+
+    // A new boundary splits the closed period it falls in, so that period's stored summary and settlement are dropped
+    const split = snapshot.voidedAt ? [] : periodsSplitAt(snapshot.effectiveAt ?? snapshot.createdAt);
+    if (db.hasPaidSettlementEntries(split)) {
+      result.conflicts.push({ createdAt: snapshot.createdAt, reason: 'it would split a period with paid settlements' });
+      continue;
+    }
+    db.deleteSettlements(split);
+    db.deletePeriodSummaries(split);
+
+    const entries: NewSnapshotEntry[] = snapshot.entries.map(entry => ({
+      key_id: entry.keyId,
+      name: entry.name,
+      tags: JSON.stringify(entry.tags ?? []),
+      cost: entry.cost,
+      tokens: entry.tokens,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      cache_create_tokens: entry.cacheCreateTokens,
+      cache_read_tokens: entry.cacheReadTokens,
+      requests: entry.requests,
+      models: entry.models && Object.entries(entry.models).map(([model, usage]) => ({
+        model,
+        cost: usage.cost,
+        tokens: usage.tokens,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        cache_create_tokens: usage.cacheCreateTokens,
+        cache_read_tokens: usage.cacheReadTokens,
+        requests: usage.requests,
+      })),
+    }));
+
+    const id = db.insertSnapshot(entries, snapshot.timezone, {
+      schedule: snapshot.schedule ?? undefined,
+      scheduledFor: snapshot.scheduledFor ?? undefined,
+      note: snapshot.note ?? undefined,
+      createdAt: snapshot.createdAt,
+    });
+    if (snapshot.effectiveAt && snapshot.effectiveAt !== snapshot.createdAt) {
+      db.setSnapshotEffectiveAt(id, snapshot.effectiveAt);
+    }
+    if (snapshot.voidedAt) {
+      db.setSnapshotVoided(id, snapshot.voidedBy ?? 'import', snapshot.voidedAt);
+    }
+    existing.set(snapshot.createdAt, db.getSnapshotById(id)!);
+    result.imported++;
+  }
+
+  return result;
+}
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test';
+import type { ModelUsage } from './api-client';
+import { billingCalculator, periodUsageSamples, snapshotUsers } from './billing-calculator';
+import { db, type NewSnapshotEntry } from './database';
+import { snapshotService } from './snapshot-service';
+import { usageTimeSeries } from './usage-timeseries';
+
+const entry = (keyId: string, cost: number): NewSnapshotEntry => ({
+  key_id: keyId,
+  name: `Key ${keyId}`,
+  tags: '[]',
+  cost,
+  tokens: cost * 100,
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_create_tokens: 0,
+  cache_read_tokens: 0,
+  requests: cost,
+});
+
+const sample = (keyId: string, cost: number, { tags = [], models }: { tags?: string[]; models?: Record<string, ModelUsage> } = {}) => ({
+  ...entry(keyId, cost),
+  tags: JSON.stringify(tags),
+  models_json: models ? JSON.stringify(models) : null,
+});
+
+const model = (cost: number): ModelUsage => ({
+  cost,
+  tokens: cost * 100,
+  inputTokens: cost * 100,
+  outputTokens: 0,
+  cacheCreateTokens: 0,
+  cacheReadTokens: 0,
+  requests: cost,
+});
+
+// Settling a new boundary asks the relay about keys missing from it; none were deleted or excluded here
+const relay = spyOn(globalThis, 'fetch').mockImplementation((async (input: string | URL | Request) => {
+  const { pathname } = new URL(String(input));
+  if (pathname === '/web/auth/login') return Response.json({ success: true, token: 'token', expiresIn: 3_600_000 });
+  if (pathname === '/admin/api-keys/deleted') return Response.json({ success: true, apiKeys: [] });
+  return Response.json({ success: true, data: { items: [], pagination: { page: 1, pageSize: 50, total: 0, totalPages: 1 }, availableTags: [] } });
+}) as typeof fetch);
+afterAll(() => relay.mockRestore());
+
+describe('moveSnapshot', () => {
+  let ids: number[] = [];
+
+  beforeAll(() => {
+    ids = [['2025-01-01', 10], ['2025-02-03', 20], ['2025-03-01', 30]].map(([day, cost]) =>
+      db.insertSnapshot([entry('move', cost as number)], undefined, { createdAt: `${day}T00:00:00.000Z` })
+    );
+  });
+
+  test('moves the boundary and keeps when it was taken', () => {
+    snapshotService.moveSnapshot(ids[1]!, '2025-02-01T00:00:00.000Z');
+
+    expect(db.getSnapshotById(ids[1]!)).toMatchObject({
+      created_at: '2025-02-03T00:00:00.000Z',
+      effective_at: '2025-02-01T00:00:00.000Z',
+    });
+  });
+
+  test('keeps the boundary between its neighbours and in the past', () => {
+    expect(() => snapshotService.moveSnapshot(ids[1]!, '2024-12-31T00:00:00.000Z')).toThrow('must stay between the neighbouring snapshots');
+    expect(() => snapshotService.moveSnapshot(ids[1]!, '2025-03-01T00:00:00.000Z')).toThrow('must stay between the neighbouring snapshots');
+    expect(() => snapshotService.moveSnapshot(ids[1]!, '2999-01-01T00:00:00.000Z')).toThrow('must be a valid time in the past');
+  });
+
+  test('leaves samples in the period that was open when they were taken', async () => {
+    db.insertUsageSamples('2025-02-02T00:00:00.000Z', [sample('move', 15)]);
+    const periods = await billingCalculator.getPeriods();
+    const moved = periods.find(p => p.endSnapshotId === ids[1])!;
+    const next = periods.find(p => p.startSnapshotId === ids[1])!;
+
+    expect(moved.endAt).toBe('2025-02-01T00:00:00.000Z');
+    expect(periodUsageSamples(moved).filter(s => s.key_id === 'move').map(s => s.cost)).toEqual([15]);
+    expect(periodUsageSamples(next).filter(s => s.key_id === 'move')).toEqual([]);
+
+    // The chart counts the sample where billing does, at the end of the moved period
+    const movedChart = await usageTimeSeries.getPeriodTimeSeries(moved.index, 'day');
+    expect(movedChart.buckets).toEqual(['2025-02-01']);
+    expect(movedChart.series.find(s => s.name === 'Key move')!.points.map(p => p.cumulativeCost)).toEqual([10]);
+    expect((await usageTimeSeries.getPeriodTimeSeries(next.index, 'day')).buckets).toEqual(['2025-03-01']);
+  });
+
+  test('goes back to when it was taken when moved to null', () => {
+    snapshotService.moveSnapshot(ids[1]!, null);
+    expect(db.getSnapshotById(ids[1]!)!.effective_at).toBe('2025-02-03T00:00:00.000Z');
+  });
+});
+
+describe('createInterpolatedSnapshot', () => {
+  beforeAll(() => {
+    db.insertUsageSamples('2025-04-10T00:00:00.000Z', [
+      sample('lerp-a', 10, { tags: ['team:a'], models: { opus: model(10) } }),
+      sample('lerp-b', 5),
+    ]);
+    db.insertUsageSamples('2025-04-20T00:00:00.000Z', [
+      sample('lerp-a', 30, { tags: ['team:b'], models: { opus: model(20), sonnet: model(10) } }),
+      sample('lerp-c', 1),
+    ]);
+  });
+
+  test('puts keys sampled on both sides on the line between their samples', async () => {
+    const snapshot = await snapshotService.createInterpolatedSnapshot('2025-04-15T00:00:00.000Z', ' backfilled ');
+    const users = snapshotUsers(snapshot.id).filter(u => u.id.startsWith('lerp-'));
+
+    expect(db.getSnapshotById(snapshot.id)).toMatchObject({ created_at: '2025-04-15T00:00:00.000Z', schedule: 'interpolated', note: 'backfilled' });
+    expect(users.map(u => u.id)).toEqual(['lerp-a']);
+    expect(users[0]!.tags).toEqual(['team:a']);
+    expect(users[0]!.usage.total).toMatchObject({ cost: 20, tokens: 2000, requests: 20 });
+    expect(users[0]!.usage.models).toEqual({ opus: model(15), sonnet: model(5) });
+  });
+
+  test('refuses a time already taken or without samples on both sides', async () => {
+    await expect(snapshotService.createInterpolatedSnapshot('2025-04-15T00:00:00.000Z')).rejects.toThrow('Snapshot already exists at 2025-04-15T00:00:00.000Z');
+    await expect(snapshotService.createInterpolatedSnapshot('2025-04-25T00:00:00.000Z')).rejects.toThrow('needs usage samples before and after');
+    await expect(snapshotService.createInterpolatedSnapshot('soon')).rejects.toThrow('must be a valid time in the past');
+  });
+});
@@ -0,0 +1,378 @@
+import { apiClient, type ModelUsage } from './api-client';
+import { db, type DetailedUsageSample, type NewSnapshotEntry } from './database';
+import { settlementService } from './settlement-service';
+import { billingCalculator } from './billing-calculator';
+import { webhookDispatcher } from './webhooks';
+
+export interface CreateSnapshotOptions {
+  timezone?: string;
+  schedule?: string;
+  scheduledFor?: string;
+  note?: string;
+}
+
+export interface CreatedSnapshot {
+  id: number;
+  createdAt: string;
+  userCount: number;
+  totalCost: number;
+}
+
+export interface SnapshotListItem {
+  id: number;
+  createdAt: string;
+  effectiveAt: string;
+  timezone: string;
+  schedule: string | null;
+  scheduledFor: string | null;
+  note: string | null;
+  voidedAt: string | null;
+  voidedBy: string | null;
+  userCount: number;
+  totalCost: number;
+}
+
+const SAMPLE_COUNTERS = [
+  'tokens', 'input_tokens', 'output_tokens', 'cache_create_tokens', 'cache_read_tokens', 'requests',
+] as const;
+
+function parseModels(sample: DetailedUsageSample): Record<string, ModelUsage> | null {
+  return sample.models_json ? JSON.parse(sample.models_json) as Record<string, ModelUsage> : null;
+}
+
+/**
+ * A key's totals at `at`, on the straight line between the samples either
+ * side of it. Tags are the ones it had before `at`; per-model usage is
+ * interpolated the same way when both samples have it, a model missing from
+ * one side counting as no usage there.
+ */
+function interpolateSample(before: DetailedUsageSample, after: DetailedUsageSample, at: number): NewSnapshotEntry {
+  const from = Date.parse(before.sampled_at);
+  const to = Date.parse(after.sampled_at);
+  const fraction = to > from ? (at - from) / (to - from) : 0;
+  const lerp = (a: number, b: number) => a + (b - a) * fraction;
+
+  const entry: NewSnapshotEntry = {
+    key_id: before.key_id,
+    name: before.name,
+    tags: before.tags,
+    cost: +lerp(before.cost, after.cost).toFixed(6),
+    tokens: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_create_tokens: 0,
+    cache_read_tokens: 0,
+    requests: 0,
+  };
+  for (const counter of SAMPLE_COUNTERS) {
+    entry[counter] = Math.round(lerp(before[counter], after[counter]));
+  }
+
+  const modelsBefore = parseModels(before);
+  const modelsAfter = parseModels(after);
+  if (modelsBefore && modelsAfter) {
+    const names = new Set([...Object.keys(modelsBefore), ...Object.keys(modelsAfter)]);
+    entry.models = Array.from(names, model => {
+      const a = modelsBefore[model];
+      const b = modelsAfter[model];
+      const count = (counter: keyof ModelUsage) => lerp(a?.[counter] ?? 0, b?.[counter] ?? 0);
+      return {
+        model,
+        cost: +count('cost').toFixed(6),
+        tokens: Math.round(count('tokens')),
+        input_tokens: Math.round(count('inputTokens')),
+        output_tokens: Math.round(count('outputTokens')),
+        cache_create_tokens: Math.round(count('cacheCreateTokens')),
+        cache_read_tokens: Math.round(count('cacheReadTokens')),
+        requests: Math.round(count('requests')),
+      };
+    });
+  }
+
+  return entry;
+}
+
+export class SnapshotService {
+  async createSnapshot(options: CreateSnapshotOptions = {}): Promise<CreatedSnapshot> {
+    const { keys: currentCosts, failed } = await apiClient.getCurrentCosts({ fresh: true });
+
+    // A snapshot is the baseline of the next period, so it must cover every key
+    if (failed.length > 0) {
+      throw new Error(`Usage unavailable for ${failed.length} key(s): ${failed.map(key => key.name).join(', ')}`);
+    }
+
+    const entries = currentCosts.map(user => ({
+      key_id: user.id,
+      name: user.name || 'User',
+      tags: JSON.stringify(user.tags ?? []),
+      cost: Number(user.usage?.total?.cost ?? 0),
+      tokens: Number(user.usage?.total?.tokens ?? 0),
+      input_tokens: Number(user.usage?.total?.inputTokens ?? 0),
+      output_tokens: Number(user.usage?.total?.outputTokens ?? 0),
+      cache_create_tokens: Number(user.usage?.total?.cacheCreateTokens ?? 0),
+      cache_read_tokens: Number(user.usage?.total?.cacheReadTokens ?? 0),
+      requests: Number(user.usage?.total?.requests ?? 0),
+      models: user.usage.models && Object.entries(user.usage.models).map(([model, usage]) => ({
+        model,
+        cost: usage.cost,
+        tokens: usage.tokens,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        cache_create_tokens: usage.cacheCreateTokens,
+        cache_read_tokens: usage.cacheReadTokens,
+        requests: usage.requests,
+      })),
+    }));
+
+    const id = db.insertSnapshot(entries, options.timezone, {
+      schedule: options.schedule,
+      scheduledFor: options.scheduledFor,
+      note: options.note,
+    });
+    const snapshot = db.getSnapshotById(id);
+
+    // The new snapshot closes the previous period, so its summary is fixed from now on
+    try {
+      await billingCalculator.materializePeriodEndingAt(id);
+    } catch (error) {
+      console.error(`Failed to store summary of period ending at snapshot #${id}:`, error);
+    }
+
+    // The new snapshot closes the previous period, so it can be settled right away
+    try {
+      await settlementService.settlePeriodEndingAt(id);
+    } catch (error) {
+      console.error(`Failed to settle period ending at snapshot #${id}:`, error);
+    }
+
+    try {
+      await this.announcePeriodClose(id);
+    } catch (error) {
+      console.error(`Failed to announce period ending at snapshot #${id}:`, error);
+    }
+
+    const totalCost = currentCosts.reduce((sum, user) => {
+      return sum + (user.usage?.total?.cost || 0);
+    }, 0);
+
+    return {
+      id,
+      createdAt: snapshot?.created_at ?? new Date().toISOString(),
+      userCount: currentCosts.length,
+      totalCost,
+    };
+  }
+
+  // Posts the final ranking of the period closed by snapshot `id` to subscribed webhooks
+  private async announcePeriodClose(id: number) {
+    const periods = await billingCalculator.getPeriods();
+    const period = periods.find(p => p.endSnapshotId === id);
+    if (!period) return;
+
+    const summary = await billingCalculator.getPeriodSummary(period.index);
+    const settlement = db.getSettlementByEndSnapshot(id);
+    const amounts = new Map(settlement ? db.getSettlementEntries(settlement.id).map(entry => [entry.key_id, entry.amount]) : []);
+    const money = (amount: number, currency = 'USD') => `${currency === 'USD' ? '$' : `${currency} `}${amount.toFixed(2)}`;
+
+    const ranking = summary.ranking.map((user, index) => ({
+      rank: index + 1,
+      name: user.name,
+      cost: +user.cost.toFixed(6),
+      share: +user.share.toFixed(6),
+      amount: amounts.get(user.rawEnd?.id ?? '') ?? null,
+    }));
+
+    webhookDispatcher.emit({
+      type: 'period.closed',
+      title: `Billing period #${period.index} closed`,
+      lines: [
+        `${period.startAt ? period.startAt.slice(0, 10) : 'Beginning'} → ${(period.endAt ?? '').slice(0, 10)}: ${money(summary.totals.totalCost)} across ${summary.totals.userCount} users`,
+        ...ranking.map(user => {
+          const owed = user.amount !== null ? `, owes ${money(user.amount, settlement!.currency)}` : '';
+          return `${user.rank}. ${user.name}: ${money(user.cost)} (${(user.share * 100).toFixed(1)}%)${owed}`;
+        }),
+      ],
+      data: {
+        periodIndex: period.index,
+        periodId: period.id,
+        periodSlug: period.slug,
+        startAt: period.startAt,
+        endAt: period.endAt,
+        totalCost: summary.totals.totalCost,
+        userCount: summary.totals.userCount,
+        settlement: settlement ? { fee: settlement.fee, currency: settlement.currency } : null,
+        ranking,
+      },
+    });
+  }
+
+  deleteSnapshot(id: number) {
+    if (!db.getSnapshotById(id)) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+
+    // Deleting a boundary merges the periods ending at it and at the next snapshot
+    this.releasePeriods(this.periodsEndingAround(id));
+    db.deleteSnapshot(id);
+  }
+
+  /**
+   * Keeps the snapshot for audit but stops it bounding periods, which merges
+   * the periods on either side of it.
+   */
+  voidSnapshot(id: number, voidedBy: string) {
+    const snapshot = db.getSnapshotById(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    if (snapshot.voided_at) {
+      throw new Error(`Snapshot ${id} is already voided`);
+    }
+
+    this.releasePeriods(this.periodsEndingAround(id));
+    db.setSnapshotVoided(id, voidedBy);
+  }
+
+  // Makes a voided snapshot a boundary again, splitting the period it falls in
+  restoreSnapshot(id: number) {
+    const snapshot = db.getSnapshotById(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    if (!snapshot.voided_at) {
+      throw new Error(`Snapshot ${id} is not voided`);
+    }
+
+    this.releasePeriods(this.periodsSplitAt(snapshot.effective_at));
+    db.setSnapshotVoided(id, null);
+  }
+
+  /**
+   * Moves the time at which the snapshot bounds its periods, e.g. to the 1st
+   * for a snapshot someone forgot to take until the 3rd. The totals stay those
+   * recorded when it was taken, and it cannot pass its neighbours, so the
+   * periods keep their snapshots and only their dates change. `null` resets
+   * it to when it was taken.
+   */
+  moveSnapshot(id: number, effectiveAt: string | null) {
+    const snapshot = db.getSnapshotById(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    if (snapshot.voided_at) {
+      throw new Error(`Snapshot ${id} is voided`);
+    }
+
+    const at = effectiveAt ?? snapshot.created_at;
+    const time = Date.parse(at);
+    if (Number.isNaN(time) || time > Date.now()) {
+      throw new Error('Snapshot effective time must be a valid time in the past');
+    }
+
+    const boundaries = db.getBoundarySnapshots();
+    const index = boundaries.findIndex(s => s.id === id);
+    const previous = boundaries[index - 1];
+    const next = boundaries[index + 1];
+    if ((previous && time <= Date.parse(previous.effective_at)) || (next && time >= Date.parse(next.effective_at))) {
+      throw new Error('Snapshot effective time must stay between the neighbouring snapshots');
+    }
+
+    db.setSnapshotEffectiveAt(id, effectiveAt === null ? null : new Date(time).toISOString());
+  }
+
+  /**
+   * Adds a boundary at `at` whose totals are interpolated from the usage
+   * samples taken around it, for a period that should have started there.
+   */
+  async createInterpolatedSnapshot(at: string, note?: string): Promise<CreatedSnapshot> {
+    const time = Date.parse(at);
+    if (Number.isNaN(time) || time > Date.now()) {
+      throw new Error('Snapshot time must be a valid time in the past');
+    }
+
+    const createdAt = new Date(time).toISOString();
+    if (db.getBoundarySnapshots().some(s => s.effective_at === createdAt)) {
+      throw new Error(`Snapshot already exists at ${createdAt}`);
+    }
+
+    const { before, after } = db.getUsageSamplesAround(createdAt);
+    if (before.length === 0 || after.length === 0) {
+      throw new Error(`Snapshot interpolation needs usage samples before and after ${createdAt}`);
+    }
+
+    // Only keys sampled on both sides existed at `at`, so only they are in the snapshot
+    const afterByKey = new Map(after.map(sample => [sample.key_id, sample]));
+    const entries = before.map(sample => interpolateSample(sample, afterByKey.get(sample.key_id)!, time));
+
+    this.releasePeriods(this.periodsSplitAt(createdAt));
+    const id = db.insertSnapshot(entries, undefined, {
+      schedule: 'interpolated',
+      note: note?.trim() || undefined,
+      createdAt,
+    });
+
+    try {
+      await billingCalculator.materializePeriodEndingAt(id);
+      await settlementService.settlePeriodEndingAt(id);
+    } catch (error) {
+      console.error(`Failed to settle period ending at snapshot #${id}:`, error);
+    }
+
+    return {
+      id,
+      createdAt,
+      userCount: entries.length,
+      totalCost: +entries.reduce((sum, entry) => sum + entry.cost, 0).toFixed(6),
+    };
+  }
+
+  // End snapshots of the periods that merge when boundary `id` goes away
+  private periodsEndingAround(id: number): number[] {
+    const boundaries = db.getBoundarySnapshots();
+    const index = boundaries.findIndex(s => s.id === id);
+    if (index === -1) return [id];
+
+    const next = boundaries[index + 1];
+    return next ? [id, next.id] : [id];
+  }
+
+  // End snapshot of the period that a new boundary at `at` splits
+  private periodsSplitAt(at: string): number[] {
+    const next = db.getBoundarySnapshots().find(s => Date.parse(s.effective_at) > Date.parse(at));
+    return next ? [next.id] : [];
+  }
+
+  // Settlements and stored summaries of changed periods are dropped, unless someone already paid
+  private releasePeriods(endSnapshotIds: number[]) {
+    if (db.hasPaidSettlementEntries(endSnapshotIds)) {
+      throw new Error('Snapshot change affects a period with paid settlements');
+    }
+
+    db.deleteSettlements(endSnapshotIds);
+    db.deletePeriodSummaries(endSnapshotIds);
+  }
+
+  listSnapshots(): SnapshotListItem[] {
+    const totals = new Map(db.getSnapshotTotals().map(t => [t.snapshot_id, t]));
+
+    return db.getSnapshots().map((snapshot) => {
+      const total = totals.get(snapshot.id);
+
+      return {
+        id: snapshot.id,
+        createdAt: snapshot.created_at,
+        effectiveAt: snapshot.effective_at,
+        timezone: snapshot.timezone,
+        schedule: snapshot.schedule,
+        scheduledFor: snapshot.scheduled_for,
+        note: snapshot.note,
+        voidedAt: snapshot.voided_at,
+        voidedBy: snapshot.voided_by,
+        userCount: total?.user_count ?? 0,
+        totalCost: +(total?.total_cost ?? 0).toFixed(6),
+      };
+    });
+  }
+}
+
+export const snapshotService = new SnapshotService();
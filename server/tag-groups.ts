@@ -0,0 +1,78 @@
+import type { UserRanking } from './billing-calculator';
+
+// Tags are grouped by the part before the colon: `team:infra` is group `infra` of `team`
+const SEPARATOR = ':';
+
+export interface GroupRanking {
+  // Full tag, or null for keys without a tag of the grouping
+  tag: string | null;
+  name: string;
+  cost: number;
+  share: number;
+  memberCount: number;
+  periodTokens: number;
+  periodRequests: number;
+  isMine: boolean;
+}
+
+function keyTags(user: Pick<UserRanking, 'rawEnd' | 'rawStart'>): string[] {
+  const tags = user.rawEnd?.tags ?? user.rawStart?.tags;
+  return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+}
+
+export function tagsInGroup(tags: string[], prefix: string): string[] {
+  return tags.filter(tag => tag.startsWith(`${prefix}${SEPARATOR}`) && tag.length > prefix.length + 1);
+}
+
+// Every grouping the ranking's keys are tagged with, e.g. `team` and `project`
+export function groupPrefixes(ranking: Array<Pick<UserRanking, 'rawEnd' | 'rawStart'>>): string[] {
+  const prefixes = new Set<string>();
+  for (const user of ranking) {
+    for (const tag of keyTags(user)) {
+      const index = tag.indexOf(SEPARATOR);
+      if (index > 0 && index < tag.length - 1) prefixes.add(tag.slice(0, index));
+    }
+  }
+
+  return Array.from(prefixes).sort();
+}
+
+/**
+ * Aggregates a period ranking into groups by the `prefix:` tags of each key.
+ * A key tagged into several groups of the same grouping is split evenly
+ * between them, so group shares still add up to the period total.
+ */
+export function groupRanking(ranking: UserRanking[], prefix: string): GroupRanking[] {
+  const groups = new Map<string | null, GroupRanking>();
+
+  for (const user of ranking) {
+    const tags = tagsInGroup(keyTags(user), prefix);
+    const targets: Array<string | null> = tags.length > 0 ? tags : [null];
+    const part = 1 / targets.length;
+
+    for (const tag of targets) {
+      const group = groups.get(tag) ?? {
+        tag,
+        name: tag ? tag.slice(prefix.length + 1) : 'Ungrouped',
+        cost: 0,
+        share: 0,
+        memberCount: 0,
+        periodTokens: 0,
+        periodRequests: 0,
+        isMine: false,
+      };
+
+      group.cost += user.cost * part;
+      group.periodTokens += Math.round(user.periodTokens * part);
+      group.periodRequests += Math.round(user.periodRequests * part);
+      group.memberCount += 1;
+      group.isMine ||= user.isMe;
+      groups.set(tag, group);
+    }
+  }
+
+  const total = ranking.reduce((sum, user) => sum + user.cost, 0);
+  return Array.from(groups.values())
+    .map(group => ({ ...group, cost: +group.cost.toFixed(6), share: total > 0 ? group.cost / total : 0 }))
+    .sort((a, b) => b.cost - a.cost);
+}
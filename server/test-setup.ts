@@ -0,0 +1,5 @@
+// Tests use a throwaway in-memory database; the relay settings only satisfy the API client, which tests never call
+process.env.DATABASE_URL = ':memory:';
+process.env.BASE_URL ??= 'http://relay.test';
+process.env.ADMIN_USERNAME ??= 'test';
+process.env.ADMIN_PASSWORD ??= 'test';
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { TtlCache } from './ttl-cache';
+
+const start = new Date('2026-01-01T00:00:00.000Z');
+const at = (seconds: number) => setSystemTime(new Date(start.getTime() + seconds * 1000));
+
+// A loader returning 1, 2, 3, ... that can be held open to observe concurrent callers
+function counter() {
+  let calls = 0;
+  const held: Array<() => void> = [];
+  const load = () => {
+    const value = ++calls;
+    return new Promise<number>(resolve => held.push(() => resolve(value)));
+  };
+  return {
+    load,
+    get calls() { return calls; },
+    release: ({ newestFirst = false } = {}) => {
+      const pending = held.splice(0);
+      (newestFirst ? pending.reverse() : pending).forEach(resolve => resolve());
+    },
+  };
+}
+
+describe('TtlCache', () => {
+  let cache: TtlCache<number>;
+
+  beforeEach(() => {
+    at(0);
+    cache = new TtlCache<number>({ ttlMs: 60_000, staleMs: 600_000 });
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('serves a fresh value without loading again', async () => {
+    let calls = 0;
+    const load = async () => ++calls;
+
+    expect(await cache.get('k', load)).toBe(1);
+    at(59);
+    expect(await cache.get('k', load)).toBe(1);
+    expect(calls).toBe(1);
+  });
+
+  test('shares one load between concurrent callers', async () => {
+    const loader = counter();
+    const first = cache.get('k', loader.load);
+    const second = cache.get('k', loader.load);
+    loader.release();
+
+    expect(await Promise.all([first, second])).toEqual([1, 1]);
+    expect(loader.calls).toBe(1);
+  });
+
+  test('serves a stale value at once while one background refresh runs', async () => {
+    const loader = counter();
+    const initial = cache.get('k', loader.load);
+    loader.release();
+    await initial;
+
+    at(120);
+    expect(await cache.get('k', loader.load)).toBe(1);
+    expect(await cache.get('k', loader.load)).toBe(1);
+    expect(loader.calls).toBe(2);
+
+    loader.release();
+    await Bun.sleep(0);
+    expect(await cache.get('k', loader.load)).toBe(2);
+  });
+
+  test('loads again once a value is past its stale window', async () => {
+    let calls = 0;
+    const load = async () => ++calls;
+
+    await cache.get('k', load);
+    at(60 + 600);
+    expect(await cache.get('k', load)).toBe(2);
+  });
+
+  test('keeps the stale value when a background refresh fails', async () => {
+    const error = spyOn(console, 'error').mockImplementation(() => {});
+    await cache.get('k', async () => 1);
+
+    at(120);
+    expect(await cache.get('k', () => Promise.reject(new Error('relay down')))).toBe(1);
+    await Bun.sleep(0);
+    expect(await cache.get('k', async () => 3)).toBe(1);
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  test('does not cache a failed load', async () => {
+    await expect(cache.get('k', () => Promise.reject(new Error('relay down')))).rejects.toThrow('relay down');
+    expect(await cache.get('k', async () => 2)).toBe(2);
+  });
+
+  test('starts a new load for a fresh read, and an older load never overwrites it', async () => {
+    const loader = counter();
+    const old = cache.get('k', loader.load);
+    const fresh = cache.get('k', loader.load, { fresh: true });
+    expect(loader.calls).toBe(2);
+
+    // The older load finishes last, after the fresh value is stored
+    loader.release({ newestFirst: true });
+    expect(await fresh).toBe(2);
+    expect(await old).toBe(1);
+    expect(await cache.get('k', loader.load)).toBe(2);
+  });
+});
@@ -0,0 +1,74 @@
+interface Entry<T> {
+  value?: T;
+  fetchedAt: number;
+  pending?: Promise<T>;
+  // Loads are numbered so a slow older load never overwrites a newer value
+  started: number;
+  stored: number;
+}
+
+export interface TtlCacheOptions {
+  // How long a value is served without asking the loader again
+  ttlMs: number;
+  // How much longer a value may be served while a background refresh runs
+  staleMs: number;
+}
+
+/**
+ * Keyed cache with stale-while-revalidate. Fresh values are returned as is;
+ * stale ones are returned immediately while one background refresh runs;
+ * missing or expired ones are loaded, with concurrent callers sharing a single
+ * load. Failed loads are not cached, and a failed background refresh keeps the
+ * stale value until it expires.
+ */
+export class TtlCache<T> {
+  private readonly entries = new Map<string, Entry<T>>();
+
+  constructor(private readonly options: TtlCacheOptions) {}
+
+  async get(key: string, loader: () => Promise<T>, { fresh = false }: { fresh?: boolean } = {}): Promise<T> {
+    const entry = this.entries.get(key);
+    const age = entry && entry.value !== undefined ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (!fresh && age < this.options.ttlMs) {
+      return entry!.value!;
+    }
+
+    if (!fresh && age < this.options.ttlMs + this.options.staleMs) {
+      this.load(key, loader).catch(error => {
+        console.error(`Background refresh of "${key}" failed:`, error);
+      });
+      return entry!.value!;
+    }
+
+    // A fresh read must not reuse a load that started before it was requested
+    return this.load(key, loader, fresh);
+  }
+
+  private load(key: string, loader: () => Promise<T>, force: boolean = false): Promise<T> {
+    const entry: Entry<T> = this.entries.get(key) ?? { fetchedAt: 0, started: 0, stored: 0 };
+    if (entry.pending && !force) {
+      return entry.pending;
+    }
+
+    const sequence = ++entry.started;
+    const pending = loader()
+      .then(value => {
+        if (sequence > entry.stored) {
+          entry.value = value;
+          entry.fetchedAt = Date.now();
+          entry.stored = sequence;
+        }
+        return value;
+      })
+      .finally(() => {
+        if (entry.pending === pending) {
+          entry.pending = undefined;
+        }
+      });
+
+    entry.pending = pending;
+    this.entries.set(key, entry);
+    return pending;
+  }
+}
@@ -0,0 +1,48 @@
+import { afterAll, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { apiClient, type CurrentCosts } from './api-client';
+import { db } from './database';
+import { UsageSampler } from './usage-sampler';
+
+const sample = (keyId: string, cost: number) => ({
+  key_id: keyId,
+  name: `Key ${keyId}`,
+  cost,
+  tokens: cost * 100,
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_create_tokens: 0,
+  cache_read_tokens: 0,
+  requests: cost,
+  tags: '[]',
+  models_json: null,
+});
+
+const costs = spyOn(apiClient, 'getCurrentCosts').mockResolvedValue({
+  keys: [{ id: 'prune', name: 'Key prune', usage: { total: { cost: 3, tokens: 300, requests: 3 } } }],
+  failed: [],
+} as unknown as CurrentCosts);
+afterAll(() => {
+  costs.mockRestore();
+  setSystemTime();
+});
+
+describe('UsageSampler', () => {
+  // Before any other test's snapshots, so the open period doesn't hold the cutoff back
+  const sampledTimes = () => db.getUsageSamples(null, '2023-01-02T00:00:00.000Z').filter(s => s.key_id === 'prune').map(s => s.sampled_at);
+
+  test('prunes samples older than the retention after sampling', async () => {
+    db.insertUsageSamples('2022-10-01T00:00:00.000Z', [sample('prune', 1)]);
+    db.insertUsageSamples('2022-12-20T00:00:00.000Z', [sample('prune', 2)]);
+    setSystemTime(new Date('2023-01-01T00:00:00.000Z'));
+
+    expect(await new UsageSampler(60_000, 30).sample()).toBe(1);
+    expect(sampledTimes()).toEqual(['2022-12-20T00:00:00.000Z', '2023-01-01T00:00:00.000Z']);
+  });
+
+  test('keeps every sample with a retention of 0', async () => {
+    db.insertUsageSamples('2022-09-01T00:00:00.000Z', [sample('prune', 1)]);
+
+    await new UsageSampler(60_000, 0).sample();
+    expect(sampledTimes()[0]).toBe('2022-09-01T00:00:00.000Z');
+  });
+});
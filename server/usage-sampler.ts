@@ -0,0 +1,86 @@
+import { apiClient } from './api-client';
+import { db } from './database';
+import { readIntEnv } from './env';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Samples every key's running totals for intra-period charts, forecasts and
+ * reconciliation. Samples older than `retentionDays` are pruned, but never
+ * those of the open period; closed periods keep their stored summaries.
+ */
+export class UsageSampler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(private readonly intervalMs: number, private readonly retentionDays: number) {}
+
+  start() {
+    if (this.timer || this.intervalMs <= 0) return;
+
+    this.timer = setInterval(() => this.sample(), this.intervalMs);
+
+    // Take the first sample right away unless a recent one survived a restart
+    const latest = db.getLatestUsageSampleTime();
+    if (!latest || Date.now() - Date.parse(latest) >= this.intervalMs) {
+      this.sample();
+    }
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sample(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const { keys: currentCosts, failed } = await apiClient.getCurrentCosts({ fresh: true });
+      if (failed.length > 0) {
+        console.warn(`Usage sample is missing ${failed.length} key(s): ${failed.map(key => key.name).join(', ')}`);
+      }
+      const sampledAt = new Date().toISOString();
+
+      db.insertUsageSamples(sampledAt, currentCosts.map(user => ({
+        key_id: user.id,
+        name: user.name || 'User',
+        cost: Number(user.usage?.total?.cost ?? 0),
+        tokens: Number(user.usage?.total?.tokens ?? 0),
+        input_tokens: Number(user.usage?.total?.inputTokens ?? 0),
+        output_tokens: Number(user.usage?.total?.outputTokens ?? 0),
+        cache_create_tokens: Number(user.usage?.total?.cacheCreateTokens ?? 0),
+        cache_read_tokens: Number(user.usage?.total?.cacheReadTokens ?? 0),
+        requests: Number(user.usage?.total?.requests ?? 0),
+        tags: JSON.stringify(user.tags ?? []),
+        models_json: user.usage?.models ? JSON.stringify(user.usage.models) : null,
+      })));
+      if (this.retentionDays > 0) {
+        this.prune(sampledAt);
+      }
+
+      return currentCosts.length;
+    } catch (error) {
+      console.error('Usage sampling failed:', error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private prune(sampledAt: string) {
+    const cutoff = new Date(Date.parse(sampledAt) - this.retentionDays * DAY_MS).toISOString();
+    // Period samples are bounded by when their boundaries were taken
+    const openedAt = db.getLatestSnapshot()?.created_at;
+    db.deleteUsageSamplesBefore(openedAt && openedAt < cutoff ? openedAt : cutoff);
+  }
+}
+
+export const usageSampler = new UsageSampler(
+  readIntEnv('USAGE_SAMPLE_INTERVAL_MINUTES', 60) * MINUTE_MS,
+  readIntEnv('USAGE_SAMPLE_RETENTION_DAYS', 365)
+);
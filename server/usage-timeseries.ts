@@ -0,0 +1,176 @@
+import { db } from './database';
+import { billingCalculator, periodUsageSamples, snapshotUsers, type UserData } from './billing-calculator';
+import { getZonedParts } from './cron';
+import { identityService } from './identity-service';
+
+export type Granularity = 'day' | 'hour';
+
+export interface TimeSeriesPoint {
+  bucket: string;
+  cost: number;
+  tokens: number;
+  cumulativeCost: number;
+  cumulativeTokens: number;
+}
+
+export interface UserTimeSeries {
+  id: string;
+  name: string;
+  isMe: boolean;
+  points: TimeSeriesPoint[];
+}
+
+export interface PeriodTimeSeries {
+  periodIndex: number;
+  granularity: Granularity;
+  timezone: string;
+  buckets: string[];
+  series: UserTimeSeries[];
+}
+
+interface KeyTotals {
+  name: string;
+  cost: number;
+  tokens: number;
+}
+
+function bucketKey(date: Date, granularity: Granularity, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return granularity === 'day' ? day : `${day} ${pad(p.hour)}:00`;
+}
+
+// Keys of one person add up into a single series, keyed `person:<id>`
+type SeriesOf = (keyId: string) => { id: string; name: string | null };
+
+function addTotals(totals: Map<string, KeyTotals>, seriesOf: SeriesOf, keyId: string, value: KeyTotals) {
+  const { id, name } = seriesOf(keyId);
+  const sum = totals.get(id) ?? { name: name ?? value.name, cost: 0, tokens: 0 };
+  sum.cost += value.cost;
+  sum.tokens += value.tokens;
+  totals.set(id, sum);
+}
+
+function totalsFromUsers(users: UserData[], seriesOf: SeriesOf): Map<string, KeyTotals> {
+  const totals = new Map<string, KeyTotals>();
+  for (const u of users) {
+    addTotals(totals, seriesOf, u.id, {
+      name: u.name || 'User',
+      cost: u.usage.total.cost,
+      tokens: u.usage.total.tokens,
+    });
+  }
+  return totals;
+}
+
+export class UsageTimeSeries {
+  private readonly timezone = process.env.SNAPSHOT_TIMEZONE || 'Asia/Shanghai';
+
+  async getPeriodTimeSeries(periodIndex: number, granularity: Granularity, meId?: string): Promise<PeriodTimeSeries> {
+    const periods = await billingCalculator.getPeriods();
+    const period = periods.find(p => p.index === periodIndex);
+
+    if (!period) {
+      throw new Error(`Period ${periodIndex} not found`);
+    }
+
+    const ownerOf = identityService.resolver(period.startAt, period.endAt);
+    const seriesOf: SeriesOf = (keyId) => {
+      const owner = ownerOf(keyId);
+      return owner ? { id: `person:${owner.personId}`, name: owner.name } : { id: keyId, name: null };
+    };
+    const mySeries = meId ? seriesOf(meId).id : null;
+
+    const baseline = period.startSnapshotId !== null
+      ? totalsFromUsers(snapshotUsers(period.startSnapshotId), seriesOf)
+      : new Map<string, KeyTotals>();
+
+    // Readings in time order: sampled totals, then the closing snapshot for finished periods
+    const readings: Array<{ at: string; totals: Map<string, KeyTotals> }> = [];
+    for (const sample of periodUsageSamples(period)) {
+      let reading = readings[readings.length - 1];
+      if (!reading || reading.at !== sample.sampled_at) {
+        reading = { at: sample.sampled_at, totals: new Map() };
+        readings.push(reading);
+      }
+      addTotals(reading.totals, seriesOf, sample.key_id, { name: sample.name, cost: sample.cost, tokens: sample.tokens });
+    }
+
+    const endSnapshot = period.endSnapshotId !== null ? db.getSnapshotById(period.endSnapshotId) : null;
+    if (endSnapshot) {
+      readings.push({ at: endSnapshot.effective_at, totals: totalsFromUsers(snapshotUsers(endSnapshot.id), seriesOf) });
+    }
+
+    // Samples taken outside a moved boundary still count for the period, so they show at its nearest end
+    const within = (at: string) =>
+      period.startAt && at < period.startAt ? period.startAt : period.endAt && at > period.endAt ? period.endAt : at;
+
+    // The last reading in each bucket is the cumulative value at the bucket's end
+    const byBucket = new Map<string, Map<string, KeyTotals>>();
+    for (const reading of readings) {
+      byBucket.set(bucketKey(new Date(within(reading.at)), granularity, this.timezone), reading.totals);
+    }
+    const buckets = Array.from(byBucket.keys());
+
+    const series = new Map<string, UserTimeSeries>();
+    const previous = new Map<string, { cost: number; tokens: number }>();
+
+    buckets.forEach((bucket, bucketIndex) => {
+      const totals = byBucket.get(bucket)!;
+
+      for (const [keyId, value] of Array.from(totals.entries())) {
+        const base = baseline.get(keyId);
+        const cumulativeCost = Math.max(0, value.cost - (base?.cost ?? 0));
+        const cumulativeTokens = Math.max(0, value.tokens - (base?.tokens ?? 0));
+        const prev = previous.get(keyId) ?? { cost: 0, tokens: 0 };
+
+        let entry = series.get(keyId);
+        if (!entry) {
+          entry = {
+            id: keyId === mySeries ? meId! : '', // Only include ID for current user
+            name: value.name,
+            isMe: keyId === mySeries,
+            // Buckets before the key's first reading carry zero usage
+            points: buckets.slice(0, bucketIndex).map(b => ({ bucket: b, cost: 0, tokens: 0, cumulativeCost: 0, cumulativeTokens: 0 })),
+          };
+          series.set(keyId, entry);
+        }
+
+        entry.name = value.name;
+        entry.points.push({
+          bucket,
+          cost: +Math.max(0, cumulativeCost - prev.cost).toFixed(6),
+          tokens: Math.max(0, cumulativeTokens - prev.tokens),
+          cumulativeCost: +cumulativeCost.toFixed(6),
+          cumulativeTokens,
+        });
+        previous.set(keyId, { cost: cumulativeCost, tokens: cumulativeTokens });
+      }
+
+      // Keys missing from this reading keep their last cumulative value
+      for (const [keyId, entry] of Array.from(series.entries())) {
+        if (entry.points.length === bucketIndex + 1) continue;
+        const prev = previous.get(keyId) ?? { cost: 0, tokens: 0 };
+        entry.points.push({ bucket, cost: 0, tokens: 0, cumulativeCost: +prev.cost.toFixed(6), cumulativeTokens: prev.tokens });
+      }
+    });
+
+    const activeSeries = Array.from(series.values())
+      .filter(s => {
+        const last = s.points[s.points.length - 1];
+        return last ? last.cumulativeCost > 0 || last.cumulativeTokens > 0 : false;
+      })
+      .sort((a, b) => (b.points[b.points.length - 1]?.cumulativeCost ?? 0) - (a.points[a.points.length - 1]?.cumulativeCost ?? 0));
+
+    return {
+      periodIndex,
+      granularity,
+      timezone: this.timezone,
+      buckets,
+      series: activeSeries,
+    };
+  }
+}
+
+export const usageTimeSeries = new UsageTimeSeries();
@@ -0,0 +1,106 @@
+import { afterAll, afterEach, describe, expect, setSystemTime, spyOn, test } from 'bun:test';
+import { db } from './database';
+import { buildWebhookRequest, WebhookDispatcher, type WebhookEvent } from './webhooks';
+
+const event: WebhookEvent = {
+  type: 'account.alert',
+  title: 'Quota low',
+  lines: ['Account A', 'at 90%'],
+  data: { account: 'A' },
+};
+
+// Signatures below were computed independently with `openssl dgst -sha256 -hmac` for this time and secret
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+const hook = (format: string, url = 'https://hooks.test/x') => ({ url, format, secret: 'secret' });
+
+describe('buildWebhookRequest', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('signs generic webhooks over the timestamp and body', () => {
+    setSystemTime(NOW);
+    const request = buildWebhookRequest(hook('generic'), event);
+
+    expect(request.body).toBe('{"event":"account.alert","title":"Quota low","text":"Account A\\nat 90%","data":{"account":"A"},"sentAt":"2026-01-01T00:00:00.000Z"}');
+    expect(request.headers).toEqual({
+      'Content-Type': 'application/json',
+      'X-Webhook-Timestamp': '1767225600',
+      'X-Signature': 'sha256=a903ee026072cdc29506150d2fbade60430271c787b9864e6c220674d8c9a21c',
+    });
+  });
+
+  test('signs Feishu messages in the body with the timestamp and secret as key', () => {
+    setSystemTime(NOW);
+    const body = JSON.parse(buildWebhookRequest(hook('feishu'), event).body);
+
+    expect(body).toMatchObject({ timestamp: '1767225600', sign: 'wX758XZ/EWLFBznsguE6uErE0731VsIgNFLkdifOEsk=' });
+  });
+
+  test('signs DingTalk messages in the URL with millisecond timestamps', () => {
+    setSystemTime(NOW);
+    const request = buildWebhookRequest(hook('dingtalk', 'https://oapi.dingtalk.test/robot/send?access_token=t'), event);
+
+    expect(request.url).toBe(`https://oapi.dingtalk.test/robot/send?access_token=t&timestamp=1767225600000&sign=${encodeURIComponent('1fw8BpCOyotKc7DGthOtCoyIPZnawMkstREQyRU4j5I=')}`);
+  });
+
+  test('leaves messages unsigned without a secret', () => {
+    expect(buildWebhookRequest({ ...hook('generic'), secret: null }, event).headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(JSON.parse(buildWebhookRequest({ ...hook('feishu'), secret: null }, event).body)).not.toHaveProperty('sign');
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  afterEach(() => {
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  });
+
+  test('refuses a WEBHOOK_MAX_ATTEMPTS that is not a whole number of at least 1', () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = 'many';
+    expect(() => new WebhookDispatcher()).toThrow('Invalid WEBHOOK_MAX_ATTEMPTS "many"');
+    process.env.WEBHOOK_MAX_ATTEMPTS = '0';
+    expect(() => new WebhookDispatcher()).toThrow('expected a whole number of at least 1');
+  });
+
+  describe('with two dispatchers sharing the queue', () => {
+    const webhookId = db.insertWebhook({ name: 'Alerts', url: 'https://hooks.test/alerts', format: 'generic', events: 'account.alert', secret: null, enabled: 1 });
+    afterAll(() => db.deleteWebhook(webhookId));
+
+    test('posts each delivery once', async () => {
+      const posted: string[] = [];
+      const endpoint = spyOn(globalThis, 'fetch').mockImplementation((async (input: string | URL | Request) => {
+        posted.push(String(input));
+        await Bun.sleep(5);
+        return new Response('ok');
+      }) as typeof fetch);
+      // Like the server's timer and begin-period flushing the queue at the same time
+      const server = new WebhookDispatcher();
+      const script = new WebhookDispatcher();
+
+      expect(script.emit(event)).toBe(1);
+      const attempted = await Promise.all([script.processDue(), server.processDue()]);
+
+      expect(posted).toEqual(['https://hooks.test/alerts']);
+      expect(attempted).toEqual([1, 0]);
+      expect(server.listDeliveries(1, webhookId)[0]).toMatchObject({ status: 'delivered', attempts: 1 });
+      endpoint.mockRestore();
+    });
+
+    test('retries a delivery whose sender died once its lease runs out', async () => {
+      const deliveryId = db.insertWebhookDelivery(webhookId, 'account.alert', JSON.stringify(event));
+      const dueAt = db.getWebhookDeliveries(1, webhookId)[0]!.next_attempt_at!;
+      expect(db.claimWebhookDelivery(deliveryId, dueAt, new Date(Date.now() + 60_000).toISOString())).toBe(true);
+      expect(db.claimWebhookDelivery(deliveryId, dueAt, new Date(Date.now() + 60_000).toISOString())).toBe(false);
+
+      const endpoint = spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+      const dispatcher = new WebhookDispatcher();
+      expect(await dispatcher.processDue()).toBe(0);
+
+      setSystemTime(new Date(Date.now() + 61_000));
+      expect(await dispatcher.processDue()).toBe(1);
+      setSystemTime();
+      expect(endpoint).toHaveBeenCalledTimes(1);
+      endpoint.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { createHmac } from 'node:crypto';
+import { db, type WebhookDeliveryRecord, type WebhookRecord } from './database';
+import { readIntEnv } from './env';
+
+export const WEBHOOK_FORMATS = ['generic', 'slack', 'feishu', 'dingtalk', 'discord'] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+export const WEBHOOK_EVENTS = ['period.closed', 'budget.threshold', 'account.status', 'account.alert'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  title: string;
+  lines: string[];
+  data: Record<string, unknown>;
+}
+
+export interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[] | '*';
+  hasSecret: boolean;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[] | '*';
+  // undefined keeps the current secret, null clears it
+  secret?: string | null;
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: string;
+  title: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const SECOND_MS = 1000;
+const DISCORD_LIMIT = 2000;
+const REQUEST_TIMEOUT_MS = 10 * SECOND_MS;
+// Slack and Discord incoming webhooks have no way to check a signature
+const SIGNED_FORMATS: WebhookFormat[] = ['generic', 'feishu', 'dingtalk'];
+
+function toWebhook(record: WebhookRecord): Webhook {
+  return {
+    id: record.id,
+    name: record.name,
+    url: record.url,
+    format: record.format as WebhookFormat,
+    events: record.events === '*' ? '*' : record.events.split(',').filter(Boolean) as WebhookEventType[],
+    hasSecret: Boolean(record.secret),
+    enabled: record.enabled === 1,
+    createdAt: record.created_at,
+  };
+}
+
+function toDelivery(record: WebhookDeliveryRecord): WebhookDelivery {
+  let title = record.event;
+  try {
+    title = (JSON.parse(record.payload_json) as WebhookEvent).title;
+  } catch {
+    // Keep the event name
+  }
+
+  return {
+    id: record.id,
+    webhookId: record.webhook_id,
+    event: record.event,
+    title,
+    status: record.status,
+    attempts: record.attempts,
+    nextAttemptAt: record.next_attempt_at,
+    lastStatusCode: record.last_status_code,
+    lastError: record.last_error,
+    createdAt: record.created_at,
+    deliveredAt: record.delivered_at,
+  };
+}
+
+function subscribes(record: WebhookRecord, event: WebhookEventType): boolean {
+  return record.events === '*' || record.events.split(',').includes(event);
+}
+
+/**
+ * Builds the request for one webhook in its chat platform's message format.
+ * Feishu and DingTalk signatures follow their custom bot documentation. A
+ * signed generic webhook gets `X-Webhook-Timestamp` (Unix seconds) and
+ * `X-Signature: sha256=<hex HMAC of "<timestamp>.<body>">`.
+ */
+export function buildWebhookRequest(
+  webhook: Pick<WebhookRecord, 'url' | 'format' | 'secret'>,
+  event: WebhookEvent
+): { url: string; headers: Record<string, string>; body: string } {
+  const text = event.lines.join('\n');
+  const json = (url: string, body: unknown) => ({ url, headers: { 'Content-Type': 'application/json' } as Record<string, string>, body: JSON.stringify(body) });
+
+  switch (webhook.format as WebhookFormat) {
+    case 'slack':
+      return json(webhook.url, { text: `*${event.title}*\n${text}` });
+
+    case 'discord': {
+      const content = `**${event.title}**\n${text}`;
+      return json(webhook.url, { content: content.length > DISCORD_LIMIT ? `${content.slice(0, DISCORD_LIMIT - 1)}…` : content });
+    }
+
+    case 'feishu': {
+      const body: Record<string, unknown> = { msg_type: 'text', content: { text: `${event.title}\n${text}` } };
+      if (webhook.secret) {
+        const timestamp = String(Math.floor(Date.now() / SECOND_MS));
+        body.timestamp = timestamp;
+        body.sign = createHmac('sha256', `${timestamp}\n${webhook.secret}`).update('').digest('base64');
+      }
+      return json(webhook.url, body);
+    }
+
+    case 'dingtalk': {
+      let url = webhook.url;
+      if (webhook.secret) {
+        const timestamp = String(Date.now());
+        const sign = createHmac('sha256', webhook.secret).update(`${timestamp}\n${webhook.secret}`).digest('base64');
+        url += `${url.includes('?') ? '&' : '?'}timestamp=${timestamp}&sign=${encodeURIComponent(sign)}`;
+      }
+      const markdown = [`### ${event.title}`, '', ...event.lines.map(line => `- ${line}`)].join('\n');
+      return json(url, { msgtype: 'markdown', markdown: { title: event.title, text: markdown } });
+    }
+
+    default: {
+      const request = json(webhook.url, { event: event.type, title: event.title, text, data: event.data, sentAt: new Date().toISOString() });
+      if (webhook.secret) {
+        const timestamp = String(Math.floor(Date.now() / SECOND_MS));
+        const signature = createHmac('sha256', webhook.secret).update(`${timestamp}.${request.body}`).digest('hex');
+        request.headers = { ...request.headers, 'X-Webhook-Timestamp': timestamp, 'X-Signature': `sha256=${signature}` };
+      }
+      return request;
+    }
+  }
+}
+
+/**
+ * Queues events for every subscribed webhook and delivers them with
+ * exponential backoff. Deliveries are stored first, so pending retries survive
+ * restarts and every attempt shows up in the delivery log.
+ */
+export class WebhookDispatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private current: Promise<number> | null = null;
+  private rerun = false;
+  private readonly maxAttempts = readIntEnv('WEBHOOK_MAX_ATTEMPTS', 6, 1);
+  private readonly retryBaseMs = 30 * SECOND_MS;
+  private readonly retryMaxMs = 60 * 60 * SECOND_MS;
+  // Long enough to outlast one request, so a lease only lapses when its sender died
+  private readonly leaseMs = 6 * REQUEST_TIMEOUT_MS;
+
+  listWebhooks(): Webhook[] {
+    return db.getWebhooks().map(toWebhook);
+  }
+
+  private validate(input: WebhookInput, secret: string | null) {
+    if (!input.name?.trim()) {
+      throw new Error('Webhook name is required');
+    }
+    if (!/^https?:\/\//.test(input.url || '')) {
+      throw new Error('Webhook URL must start with http:// or https://');
+    }
+    if (!WEBHOOK_FORMATS.includes(input.format)) {
+      throw new Error(`Webhook format must be one of: ${WEBHOOK_FORMATS.join(', ')}`);
+    }
+    if (input.events !== '*' && (!Array.isArray(input.events) || input.events.some(e => !WEBHOOK_EVENTS.includes(e)))) {
+      throw new Error(`Webhook events must be "*" or a list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+    if (secret && !SIGNED_FORMATS.includes(input.format)) {
+      throw new Error(`Webhook secret is only used by ${SIGNED_FORMATS.join(', ')} webhooks; ${input.format} messages can't be signed`);
+    }
+  }
+
+  private toRecord(input: WebhookInput, secret: string | null): Omit<WebhookRecord, 'id' | 'created_at'> {
+    return {
+      name: input.name.trim(),
+      url: input.url.trim(),
+      format: input.format,
+      events: input.events === '*' ? '*' : input.events.join(','),
+      secret,
+      enabled: input.enabled ? 1 : 0,
+    };
+  }
+
+  createWebhook(input: WebhookInput): Webhook {
+    const secret = input.secret || null;
+    this.validate(input, secret);
+    const id = db.insertWebhook(this.toRecord(input, secret));
+    return toWebhook(db.getWebhookById(id)!);
+  }
+
+  updateWebhook(id: number, input: WebhookInput): Webhook {
+    const existing = db.getWebhookById(id);
+    if (!existing) {
+      throw new Error(`Webhook ${id} not found`);
+    }
+
+    const secret = input.secret === undefined ? existing.secret : input.secret || null;
+    this.validate(input, secret);
+    db.updateWebhook(id, this.toRecord(input, secret));
+    return toWebhook(db.getWebhookById(id)!);
+  }
+
+  deleteWebhook(id: number): boolean {
+    return db.deleteWebhook(id);
+  }
+
+  listDeliveries(limit: number = 100, webhookId?: number): WebhookDelivery[] {
+    return db.getWebhookDeliveries(limit, webhookId).map(toDelivery);
+  }
+
+  /**
+   * Queues `event` for every enabled webhook subscribed to it and starts
+   * delivering in the background. Returns the number of deliveries queued.
+   */
+  emit(event: WebhookEvent): number {
+    const payload = JSON.stringify(event);
+    const targets = db.getWebhooks().filter(w => w.enabled === 1 && subscribes(w, event.type));
+
+    for (const webhook of targets) {
+      db.insertWebhookDelivery(webhook.id, event.type, payload);
+    }
+
+    if (targets.length > 0) {
+      this.processDue();
+    }
+    return targets.length;
+  }
+
+  // Queues a test message for one webhook regardless of its subscriptions
+  sendTest(id: number): number {
+    const webhook = db.getWebhookById(id);
+    if (!webhook) {
+      throw new Error(`Webhook ${id} not found`);
+    }
+
+    const event: WebhookEvent = {
+      type: 'period.closed',
+      title: 'Test notification',
+      lines: [`This is a test message for webhook "${webhook.name}".`],
+      data: { test: true },
+    };
+    const deliveryId = db.insertWebhookDelivery(webhook.id, 'test', JSON.stringify(event));
+    this.processDue();
+    return deliveryId;
+  }
+
+  private async attempt(delivery: WebhookDeliveryRecord, webhook: WebhookRecord) {
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const request = buildWebhookRequest(webhook, JSON.parse(delivery.payload_json) as WebhookEvent);
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      statusCode = response.status;
+
+      if (!response.ok) {
+        error = `HTTP ${response.status} ${response.statusText}`;
+      } else if (webhook.format === 'feishu' || webhook.format === 'dingtalk') {
+        // These bots answer 200 and report failures in the body
+        const result = await response.json().catch(() => ({})) as { code?: number; errcode?: number; msg?: string; errmsg?: string };
+        const code = result.code ?? result.errcode ?? 0;
+        if (code !== 0) {
+          error = `Error ${code}: ${result.msg ?? result.errmsg ?? 'unknown'}`;
+        }
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (!error) {
+      db.recordWebhookAttempt(delivery.id, { status: 'delivered', statusCode, error: null, nextAttemptAt: null });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (attempts >= this.maxAttempts) {
+      console.error(`Webhook "${webhook.name}" gave up on delivery #${delivery.id} after ${attempts} attempts: ${error}`);
+      db.recordWebhookAttempt(delivery.id, { status: 'failed', statusCode, error, nextAttemptAt: null });
+      return;
+    }
+
+    const delay = Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** (attempts - 1));
+    db.recordWebhookAttempt(delivery.id, {
+      status: 'pending',
+      statusCode,
+      error,
+      nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+    });
+  }
+
+  // Callers that need deliveries settled (e.g. scripts about to exit) can await the in-flight run
+  processDue(): Promise<number> {
+    // Deliveries queued during a run are picked up by another pass of the same run
+    if (this.current) {
+      this.rerun = true;
+      return this.current;
+    }
+
+    this.current = this.deliverDue().finally(() => {
+      this.current = null;
+    });
+    return this.current;
+  }
+
+  private async deliverDue(): Promise<number> {
+    let attempted = 0;
+
+    try {
+      do {
+        this.rerun = false;
+        const due = db.getDueWebhookDeliveries(new Date().toISOString(), 50);
+        const webhooks = new Map(db.getWebhooks().map(w => [w.id, w]));
+
+        for (const delivery of due) {
+          // Deliveries of disabled webhooks wait until the webhook is enabled again
+          const webhook = webhooks.get(delivery.webhook_id);
+          if (!webhook || webhook.enabled !== 1) continue;
+          // The server and scripts like begin-period share the queue; whoever claims a delivery first sends it
+          const leaseUntil = new Date(Date.now() + this.leaseMs).toISOString();
+          if (!db.claimWebhookDelivery(delivery.id, delivery.next_attempt_at!, leaseUntil)) continue;
+          await this.attempt(delivery, webhook);
+          attempted += 1;
+        }
+      } while (this.rerun);
+
+      return attempted;
+    } catch (error) {
+      console.error('Webhook delivery failed:', error);
+      return attempted;
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.processDue(), 15 * SECOND_MS);
+    this.processDue();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();